@@ -0,0 +1,46 @@
+import type { SQLiteBindValue, SQLiteDatabase } from 'expo-sqlite';
+import { TextDecoder as NodeTextDecoder } from 'util';
+
+// The module keeps a TextDecoder from when it loads, and the one Expo
+// installs in tests cannot read WebAssembly memory, so it gets Node's.
+const expoTextDecoder = globalThis.TextDecoder;
+globalThis.TextDecoder = NodeTextDecoder as typeof TextDecoder;
+const { Database } = require('node-sqlite3-wasm') as typeof import('node-sqlite3-wasm');
+globalThis.TextDecoder = expoTextDecoder;
+
+/**
+ * Stands in for expo-sqlite in tests with SQLite compiled to
+ * WebAssembly, which includes FTS5. Only the parts of the async API the
+ * services use are implemented, and every database opened is a new,
+ * empty one in memory.
+ */
+export function openTestDatabase(): SQLiteDatabase {
+  const db = new Database();
+  const adapter = {
+    execAsync: async (source: string) => {
+      db.exec(source);
+    },
+    runAsync: async (source: string, params: SQLiteBindValue[] = []) => {
+      const result = db.run(source, params);
+      return { lastInsertRowId: Number(result.lastInsertRowid), changes: result.changes };
+    },
+    getAllAsync: async (source: string, params: SQLiteBindValue[] = []) => db.all(source, params),
+    getFirstAsync: async (source: string, params: SQLiteBindValue[] = []) => db.get(source, params),
+    withTransactionAsync: async (task: () => Promise<void>) => {
+      db.exec('BEGIN');
+      try {
+        await task();
+        db.exec('COMMIT');
+      } catch (err) {
+        db.exec('ROLLBACK');
+        throw err;
+      }
+    },
+    closeAsync: async () => db.close(),
+  };
+  return adapter as unknown as SQLiteDatabase;
+}
+
+export async function openDatabaseAsync(_databaseName: string): Promise<SQLiteDatabase> {
+  return openTestDatabase();
+}
@@ -31,6 +31,20 @@ export default function TabLayout() {
           tabBarIcon: ({ color }) => <FontAwesome size={28} name="comment" color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="tasks"
+        options={{
+          title: 'Tasks',
+          tabBarIcon: ({ color }) => <FontAwesome size={28} name="check-square-o" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="search"
+        options={{
+          title: 'Search',
+          tabBarIcon: ({ color }) => <FontAwesome size={28} name="search" color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
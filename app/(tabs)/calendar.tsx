@@ -1,11 +1,27 @@
 import React, { useState, useMemo, useCallback, useEffect } from 'react';
-import { View, StyleSheet, Button, ScrollView, Text, TouchableOpacity, Alert, Platform } from 'react-native';
+import { View, StyleSheet, Button, ScrollView, Text, TouchableOpacity, Alert, TextInput } from 'react-native';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useSettings } from '../../contexts/SettingsContext';
 import { Link, useRouter } from 'expo-router';
 import CalendarGrid from '../../components/CalendarGrid';
 import DailyTimeline from '../../components/DailyTimeline';
+import TimeGrid from '../../components/TimeGrid';
+import TaskRow from '../../components/TaskRow';
+import { isBannerEvent } from '../../components/timeGridLayout';
 import calendarService from '../../services/CalendarService';
+import icsService from '../../services/IcsService';
+import journalService from '../../services/JournalService';
+import reminderService from '../../services/ReminderService';
+import taskService from '../../services/TaskService';
+import { ExpoNotifier } from '../../services/ExpoNotifier';
+import AIService from '../../services/AIService';
+import ActionParser, { describeResult } from '../../services/ActionParser';
+import { parseQuickAdd } from '../../services/QuickAdd';
+import { dueDay } from '../../services/Tasks';
+import { promptRecurrenceScope } from '../../components/promptRecurrenceScope';
 import { Event } from '../../types/Event';
+import { Calendar } from '../../types/Calendar';
+import { Task } from '../../types/Task';
 import { DateData } from 'react-native-calendars';
 import { MarkingProps } from 'react-native-calendars/src/calendar/day/marking';
 
@@ -16,55 +32,261 @@ const toLocalDateKey = (d: Date) => {
   return `${y}-${m}-${da}`;
 };
 
+const toDateData = (d: Date): DateData => ({
+  year: d.getFullYear(),
+  month: d.getMonth() + 1,
+  day: d.getDate(),
+  timestamp: d.getTime(),
+  dateString: toLocalDateKey(d),
+});
+
+const NO_PERIOD = { color: 'transparent' };
+
+// Events in hidden calendars are left out of every view.
+const isVisible = (event: Event) => calendarService.isEventVisible(event);
+const colorOf = (event: Event) => calendarService.getCalendar(event.calendarId).color;
+
+const dueOn = (tasks: Task[], date: Date) => tasks.filter(task => task.due?.getTime() === dueDay(date).getTime());
+
+/** Returns local midnight of every day [start, end) touches within [from, to). */
+const daysCovered = (start: Date, end: Date, from: Date, to: Date): Date[] => {
+  const day = new Date(Math.max(start.getTime(), from.getTime()));
+  day.setHours(0, 0, 0, 0);
+  const days: Date[] = [];
+  while (day.getTime() < Math.min(end.getTime(), to.getTime())) {
+    days.push(new Date(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+};
+
+/**
+ * Builds multi-period markings for the month grid, in the colours of the
+ * events' calendars. All-day and multi-day events become bars across
+ * their days, each kept on the same row on every day; other events add
+ * one short bar below them for each calendar they belong to.
+ */
+const buildMarkings = (events: Event[], monthStart: Date, monthEnd: Date) => {
+  const marked: { [key: string]: MarkingProps } = {};
+  const periods = (key: string) => (marked[key] ??= { periods: [] }).periods!;
+
+  // The last day key used in each row of bars.
+  const rowEnds: string[] = [];
+  events.filter(isBannerEvent).forEach(event => {
+    const keys = daysCovered(event.startTime, event.endTime, monthStart, monthEnd).map(toLocalDateKey);
+    if (keys.length === 0) return;
+    let row = rowEnds.findIndex(end => end < keys[0]);
+    if (row === -1) {
+      row = rowEnds.length;
+      rowEnds.push('');
+    }
+    rowEnds[row] = keys[keys.length - 1];
+    keys.forEach((key, i) => {
+      const dayPeriods = periods(key);
+      while (dayPeriods.length < row) dayPeriods.push(NO_PERIOD);
+      dayPeriods[row] = {
+        color: colorOf(event),
+        startingDay: i === 0 && event.startTime.getTime() >= monthStart.getTime(),
+        endingDay: i === keys.length - 1,
+      };
+    });
+  });
+
+  events
+    .filter(event => !isBannerEvent(event))
+    .forEach(event => {
+      const color = colorOf(event);
+      daysCovered(event.startTime, event.endTime, monthStart, monthEnd).forEach(day => {
+        const dayPeriods = periods(toLocalDateKey(day));
+        while (dayPeriods.length < rowEnds.length) dayPeriods.push(NO_PERIOD);
+        if (!dayPeriods.slice(rowEnds.length).some(period => period.color === color)) {
+          dayPeriods.push({ color, startingDay: true, endingDay: true });
+        }
+      });
+    });
+  return marked;
+};
+
+type CalendarView = 'month' | 'week' | '3day';
+
+const VIEWS: { key: CalendarView; label: string; days: number }[] = [
+  { key: 'month', label: 'Month', days: 0 },
+  { key: 'week', label: 'Week', days: 7 },
+  { key: '3day', label: '3 Days', days: 3 },
+];
+
+const addDays = (d: Date, days: number) => {
+  const result = new Date(d);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Returns the days shown by the week (starting on `weekStartsOn`, like
+ * the month grid) or 3-day view containing `anchor`.
+ */
+const visibleDaysFor = (view: CalendarView, anchor: Date, weekStartsOn: number): Date[] => {
+  const start = new Date(anchor);
+  start.setHours(0, 0, 0, 0);
+  if (view === 'week') {
+    start.setDate(start.getDate() - ((start.getDay() - weekStartsOn + 7) % 7));
+  }
+  const count = VIEWS.find(v => v.key === view)!.days;
+  return Array.from({ length: count }, (_, i) => addDays(start, i));
+};
+
 export default function CalendarScreen() {
   const [markedDates, setMarkedDates] = useState<{ [key: string]: MarkingProps }>({});
-  const [allEvents, setAllEvents] = useState<Event[]>([]);
+  const [calendars, setCalendars] = useState<Calendar[]>([]);
   const [selectedDay, setSelectedDay] = useState<DateData | null>(null);
+  // First day of the month shown in the grid; markings are computed for it
+  // so that recurring events are expanded only where they are visible.
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [view, setView] = useState<CalendarView>('month');
+  // A day inside the range shown by the week and 3-day views.
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+  const [quickAddText, setQuickAddText] = useState('');
+  const [quickAdding, setQuickAdding] = useState(false);
+  // Outcome of the last quick add, shown under the bar.
+  const [quickAddStatus, setQuickAddStatus] = useState<string | null>(null);
   const router = useRouter();
 
   // Retrieve the current colours from the theme context. These values
   // automatically update when the user toggles dark mode.
   const { colors } = useTheme();
+  const { settings } = useSettings();
 
   const fetchData = useCallback(() => {
-    const events = calendarService.getAllEvents();
-    setAllEvents(events);
+    const monthEnd = new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + 1, 1);
+    const events = calendarService.getEventsInRange(visibleMonth, monthEnd).filter(isVisible);
+    setCalendars(calendarService.getCalendars());
+    setMarkedDates(buildMarkings(events, visibleMonth, monthEnd));
+  }, [visibleMonth]);
 
-    const newMarkedDates: { [key: string]: MarkingProps } = {};
-    events.forEach((event: Event) => {
-      const dateString = toLocalDateKey(event.startTime);
-      newMarkedDates[dateString] = { marked: true, dotColor: 'blue' };
-    });
-    setMarkedDates(newMarkedDates);
+  useEffect(() => {
+    // Initialise the calendar database and load persisted events. The
+    // journal starts recording so that manual edits can be undone too,
+    // and reminders are scheduled once the events are loaded.
+    Promise.all([calendarService.init(), journalService.init()])
+      .then(() => reminderService.init(new ExpoNotifier()))
+      .catch(err => console.error('Failed to initialise calendar service:', err));
   }, []);
 
+  // Recompute whenever the calendar changes (including when it first
+  // loads) and when another month is shown.
   useEffect(() => {
     calendarService.subscribe(fetchData);
-    // Initialise the calendar database and load persisted events.
-    calendarService
-      .init()
-      .then(fetchData)
-      .catch(err => console.error('Failed to initialise calendar service:', err));
+    fetchData();
     return () => {
       calendarService.unsubscribe(fetchData);
     };
   }, [fetchData]);
 
-  const selectedDayEvents = useMemo(() => {
-    if (!selectedDay) return [];
-    // Appending 'T00:00:00' ensures the date is parsed in the local timezone, not UTC
-    return calendarService.getEventsForDate(new Date(`${selectedDay.dateString}T00:00:00`));
-  }, [selectedDay, allEvents]);
+  const [tasks, setTasks] = useState<Task[]>(taskService.getTasks());
+
+  useEffect(() => {
+    const refresh = () => setTasks(taskService.getTasks());
+    taskService.subscribe(refresh);
+    taskService.init().catch(err => console.error('Failed to load tasks:', err));
+    return () => taskService.unsubscribe(refresh);
+  }, []);
+
+  // Appending 'T00:00:00' ensures the date is parsed in the local timezone, not UTC
+  const selectedDate = useMemo(
+    () => (selectedDay ? new Date(`${selectedDay.dateString}T00:00:00`) : null),
+    [selectedDay]
+  );
+
+  const visibleDays = useMemo(
+    () => visibleDaysFor(view, anchorDate, settings.weekStartsOn),
+    [view, anchorDate, settings.weekStartsOn]
+  );
+
+  const [selectedDayEvents, setSelectedDayEvents] = useState<Event[]>([]);
+  // The timeline also shows events running into the day from the day before.
+  const [timelineEvents, setTimelineEvents] = useState<Event[]>([]);
+  const [visibleDaysEvents, setVisibleDaysEvents] = useState<Event[]>([]);
+
+  // Fetched again whenever the calendar changes and when another day or
+  // range is shown.
+  useEffect(() => {
+    const refresh = () => {
+      setSelectedDayEvents(selectedDate ? calendarService.getEventsForDate(selectedDate).filter(isVisible) : []);
+      setTimelineEvents(
+        selectedDate ? calendarService.getEventsInRange(selectedDate, addDays(selectedDate, 1)).filter(isVisible) : []
+      );
+      setVisibleDaysEvents(
+        visibleDays.length > 0
+          ? calendarService
+              .getEventsInRange(visibleDays[0], addDays(visibleDays[visibleDays.length - 1], 1))
+              .filter(isVisible)
+          : []
+      );
+    };
+    calendarService.subscribe(refresh);
+    refresh();
+    return () => calendarService.unsubscribe(refresh);
+  }, [selectedDate, visibleDays]);
+
+  const selectedDayTasks = useMemo(() => (selectedDate ? dueOn(tasks, selectedDate) : []), [selectedDate, tasks]);
+
+  const visibleDaysTasks = useMemo(() => visibleDays.flatMap(day => dueOn(tasks, day)), [visibleDays, tasks]);
+
+  // Tasks are listed under the calendar rather than placed in the grid,
+  // since they are due on a day but not at a time.
+  const renderDueTasks = (dueTasks: Task[], hideDue: boolean) =>
+    dueTasks.length > 0 && (
+      <View style={styles.eventListContainer}>
+        <View style={[styles.listHeaderRow, { backgroundColor: colors.cardHeaderBackground }]}>
+          <Text style={[styles.listHeader, { color: colors.text }]}>Tasks due</Text>
+        </View>
+        {dueTasks.map(task => (
+          <View key={task.id} style={[styles.taskItemContainer, { borderBottomColor: colors.border }]}>
+            <TaskRow task={task} hideDue={hideDue} onToggle={() => taskService.setDone(task.id, !task.done)} />
+          </View>
+        ))}
+      </View>
+    );
+
+  const onChangeView = (next: CalendarView) => {
+    if (next !== 'month') {
+      setAnchorDate(selectedDate ?? new Date());
+    }
+    setView(next);
+  };
+
+  // Pages the week or 3-day view by its own length.
+  const onPage = (direction: 1 | -1) => {
+    setAnchorDate(prev => addDays(prev, direction * visibleDays.length));
+  };
+
+  // Tapping a day in the week or 3-day view opens it in the month view.
+  const onGridDayPress = (day: Date) => {
+    setSelectedDay(toDateData(day));
+    setVisibleMonth(new Date(day.getFullYear(), day.getMonth(), 1));
+    setView('month');
+  };
 
   const onDayPress = (day: DateData) => {
     setSelectedDay(day);
   };
 
+  const onMonthChange = (month: DateData) => {
+    setVisibleMonth(new Date(month.year, month.month - 1, 1));
+  };
+
   const onEditEvent = (event: Event) => {
     router.push({ pathname: '/event-modal', params: { eventId: event.id } });
   };
 
   const onDeleteEvent = (event: Event) => {
+    if (event.seriesId) {
+      promptRecurrenceScope('Delete Event', scope => calendarService.deleteEvent(event.id, scope), true);
+      return;
+    }
     Alert.alert('Delete Event', 'Are you sure you want to delete this event?', [
       { text: 'Cancel', style: 'cancel' },
       {
@@ -75,44 +297,177 @@ export default function CalendarScreen() {
     ]);
   };
 
+  // Adds an event from a phrase such as "lunch with Sam tomorrow 12:30".
+  // Times without a date go on the selected day. Phrases the quick-add
+  // parser is unsure of are handed to the model, which must answer with
+  // an event to create.
+  const onQuickAdd = async () => {
+    const text = quickAddText.trim();
+    if (!text || quickAdding) return;
+    setQuickAdding(true);
+    setQuickAddStatus(null);
+    try {
+      const action =
+        parseQuickAdd(text, {
+          date: selectedDate ?? undefined,
+          calendars: calendars.map(calendar => calendar.name),
+          defaultDurationMinutes: settings.defaultDurationMinutes,
+        }) ?? ActionParser.parse(await AIService.getAIResponse(text))[0];
+      if (action?.command !== 'CREATE_EVENT') {
+        setQuickAddStatus('Could not find an event in that. Try something like "dentist Friday 3pm".');
+        return;
+      }
+      const { result } = await journalService.runBatch('manual', () => ActionParser.execute(action));
+      setQuickAddText('');
+      setQuickAddStatus(`${action.params.title}: ${describeResult(result)}`);
+    } catch (err) {
+      console.error('Quick add failed:', err);
+      setQuickAddStatus('Sorry, something went wrong. Please try again.');
+    } finally {
+      setQuickAdding(false);
+    }
+  };
+
+  const onExportDay = async () => {
+    if (!selectedDay) return;
+    try {
+      const uri = await icsService.exportDay(new Date(`${selectedDay.dateString}T00:00:00`));
+      Alert.alert('Export complete', `Saved to ${decodeURIComponent(uri)}`);
+    } catch (err) {
+      Alert.alert('Export failed', (err as Error).message);
+    }
+  };
+
   return (
     <ScrollView style={[styles.container, { backgroundColor: colors.background }]}> 
       <View
         style={[styles.headerContainer, { borderBottomColor: colors.border }]}
       >
-        <Link href="/event-modal" asChild>
+        <Link
+          href={{ pathname: '/event-modal', params: selectedDay ? { date: selectedDay.dateString } : {} }}
+          asChild
+        >
           <Button title="Add New Event" />
         </Link>
+        <View style={styles.quickAddRow}>
+          <TextInput
+            style={[
+              styles.quickAddInput,
+              { borderColor: colors.inputBorder, backgroundColor: colors.inputBackground, color: colors.text },
+            ]}
+            value={quickAddText}
+            onChangeText={setQuickAddText}
+            onSubmitEditing={onQuickAdd}
+            placeholder="Quick add: lunch with Sam tomorrow 12:30"
+            placeholderTextColor={colors.secondaryText}
+            returnKeyType="done"
+            editable={!quickAdding}
+          />
+          <Button title={quickAdding ? '…' : 'Add'} onPress={onQuickAdd} disabled={quickAdding} />
+        </View>
+        {quickAddStatus && (
+          <Text style={[styles.quickAddStatus, { color: colors.secondaryText }]}>{quickAddStatus}</Text>
+        )}
       </View>
 
-      <CalendarGrid markedDates={markedDates} onDayPress={onDayPress} />
-      
-      {selectedDay && <DailyTimeline events={selectedDayEvents} />}
-
-      {selectedDayEvents.length > 0 ? (
-        <View style={styles.eventListContainer}>
-          <Text style={[styles.listHeader, { backgroundColor: colors.cardHeaderBackground, color: colors.text }]}>Events for {selectedDay?.dateString}</Text>
-          {selectedDayEvents.map(item => (
-            <View key={item.id} style={[styles.eventItemContainer, { borderBottomColor: colors.border }]}> 
-              <TouchableOpacity
-                style={styles.eventTouchable}
-                onPress={() => onEditEvent(item)}
-              >
-                <Text style={[styles.eventTitle, { color: colors.text }]}>{item.title}</Text>
-                {item.description && (
-                  <Text style={[styles.eventDescription, { color: colors.secondaryText }]}>{item.description}</Text>
-                )}
-              </TouchableOpacity>
-              <Button title="Delete" color="red" onPress={() => onDeleteEvent(item)} />
-            </View>
-          ))}
+      <View style={styles.viewSwitcher}>
+        {VIEWS.map(option => (
+          <TouchableOpacity
+            key={option.key}
+            style={[
+              styles.viewOption,
+              { borderColor: colors.userMessageBackground },
+              view === option.key && { backgroundColor: colors.userMessageBackground },
+            ]}
+            onPress={() => onChangeView(option.key)}
+          >
+            <Text style={{ color: view === option.key ? colors.userMessageText : colors.userMessageBackground }}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView horizontal contentContainerStyle={styles.calendarToggles} showsHorizontalScrollIndicator={false}>
+        {calendars.map(calendar => (
+          <TouchableOpacity
+            key={calendar.id}
+            style={[styles.calendarToggle, { borderColor: colors.border }, !calendar.visible && styles.hiddenCalendar]}
+            onPress={() => calendarService.updateCalendar(calendar.id, { visible: !calendar.visible })}
+          >
+            <View
+              style={[
+                styles.calendarDot,
+                { borderColor: calendar.color },
+                calendar.visible && { backgroundColor: calendar.color },
+              ]}
+            />
+            <Text style={{ color: colors.text }}>{calendar.name}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.calendarToggle, { borderColor: colors.border }]}
+          onPress={() => router.push('/calendars')}
+        >
+          <Text style={{ color: colors.userMessageBackground }}>Edit</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {view !== 'month' ? (
+        <View style={styles.gridContainer}>
+          <View style={styles.pager}>
+            <Button title="‹" onPress={() => onPage(-1)} />
+            <Text style={[styles.pagerLabel, { color: colors.text }]}>
+              {visibleDays[0].toLocaleDateString([], { month: 'short', day: 'numeric' })} –{' '}
+              {visibleDays[visibleDays.length - 1].toLocaleDateString([], { month: 'short', day: 'numeric' })}
+            </Text>
+            <Button title="›" onPress={() => onPage(1)} />
+          </View>
+          <TimeGrid days={visibleDays} events={visibleDaysEvents} onDayPress={onGridDayPress} />
+          {renderDueTasks(visibleDaysTasks, visibleDays.length === 1)}
         </View>
-      ) : selectedDay && (
-        <Text style={[styles.emptyText, { color: colors.emptyText }]}>No events for this day.</Text>
-      )}
+      ) : (
+        <>
+          <CalendarGrid
+            current={toLocalDateKey(visibleMonth)}
+            markedDates={markedDates}
+            onDayPress={onDayPress}
+            onMonthChange={onMonthChange}
+          />
+
+          {selectedDate && <DailyTimeline date={selectedDate} events={timelineEvents} />}
+
+          {selectedDayEvents.length > 0 ? (
+            <View style={styles.eventListContainer}>
+              <View style={[styles.listHeaderRow, { backgroundColor: colors.cardHeaderBackground }]}>
+                <Text style={[styles.listHeader, { color: colors.text }]}>Events for {selectedDay?.dateString}</Text>
+                <Button title="Export" onPress={onExportDay} />
+              </View>
+              {selectedDayEvents.map(item => (
+                <View key={item.id} style={[styles.eventItemContainer, { borderBottomColor: colors.border }]}>
+                  <TouchableOpacity
+                    style={styles.eventTouchable}
+                    onPress={() => onEditEvent(item)}
+                  >
+                    <Text style={[styles.eventTitle, { color: colors.text }]}>{item.title}</Text>
+                    {item.description && (
+                      <Text style={[styles.eventDescription, { color: colors.secondaryText }]}>{item.description}</Text>
+                    )}
+                  </TouchableOpacity>
+                  <Button title="Delete" color="red" onPress={() => onDeleteEvent(item)} />
+                </View>
+              ))}
+            </View>
+          ) : selectedDay && (
+            <Text style={[styles.emptyText, { color: colors.emptyText }]}>No events for this day.</Text>
+          )}
 
-      {!selectedDay && (
-        <Text style={[styles.emptyText, { color: colors.emptyText }]}>Select a day to see events.</Text>
+          {renderDueTasks(selectedDayTasks, true)}
+
+          {!selectedDay && (
+            <Text style={[styles.emptyText, { color: colors.emptyText }]}>Select a day to see events.</Text>
+          )}
+        </>
       )}
     </ScrollView>
   );
@@ -128,14 +483,84 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#eee',
   },
+  quickAddRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  quickAddInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 5,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginRight: 8,
+  },
+  quickAddStatus: {
+    fontSize: 13,
+    marginTop: 6,
+  },
+  viewSwitcher: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  viewOption: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 5,
+    paddingHorizontal: 14,
+    marginHorizontal: 4,
+  },
+  calendarToggles: {
+    paddingHorizontal: 10,
+    paddingBottom: 10,
+  },
+  calendarToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 5,
+    paddingHorizontal: 12,
+    marginRight: 8,
+  },
+  hiddenCalendar: {
+    opacity: 0.5,
+  },
+  calendarDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 1,
+    marginRight: 6,
+  },
+  gridContainer: {
+    padding: 10,
+  },
+  pager: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  pagerLabel: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
   eventListContainer: {
     marginTop: 10,
   },
+  listHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#f0f0f0',
+  },
   listHeader: {
     fontSize: 18,
     fontWeight: 'bold',
     padding: 10,
-    backgroundColor: '#f0f0f0',
   },
   eventItemContainer: {
     flexDirection: 'row',
@@ -146,6 +571,10 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#eee',
   },
+  taskItemContainer: {
+    paddingHorizontal: 15,
+    borderBottomWidth: 1,
+  },
   eventTouchable: {
     flex: 1,
   },
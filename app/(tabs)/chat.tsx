@@ -1,22 +1,75 @@
 import React, { useState, useRef } from 'react';
-import { View, Text, TextInput, Button, FlatList, StyleSheet, ActivityIndicator, KeyboardAvoidingView, Platform } from 'react-native';
+import { View, Text, TextInput, Button, FlatList, StyleSheet, ActivityIndicator, KeyboardAvoidingView, Platform, TouchableOpacity, Alert } from 'react-native';
+import { useLocalSearchParams, useNavigation } from 'expo-router';
 import { useTheme } from '../../contexts/ThemeContext';
-import AIService from '../../services/AIService';
-import ActionParser from '../../services/ActionParser';
-import chatStorageService from '../../services/ChatStorageService';
+import { useSettings } from '../../contexts/SettingsContext';
+import AIService, { MAX_HISTORY_MESSAGES } from '../../services/AIService';
+import ActionParser, { describeSlot, describeWhen } from '../../services/ActionParser';
+import chatStorageService, { MessageExtras } from '../../services/ChatStorageService';
+import calendarService from '../../services/CalendarService';
+import journalService from '../../services/JournalService';
+import searchService from '../../services/SearchService';
+import taskService from '../../services/TaskService';
+import TaskRow from '../../components/TaskRow';
+import { parseQuickAdd } from '../../services/QuickAdd';
+import { formatDue } from '../../services/Tasks';
+import { describeAttendees } from '../../services/Attendees';
+import { formatTime } from '../../services/SettingsService';
 import { Event } from '../../types/Event';
+import { Task } from '../../types/Task';
+import { Action, ActionResult, BatchResult, BatchStep, PromptResult, TaskListResult } from '../../types/Action';
 
-// The message content can be a string or an array of events for search results.
+// The message content can be a string, an array of events for search
+// results, or a prompt asking the user to pick or confirm.
 type Message = {
+  id?: number;
   role: 'user' | 'assistant';
-  content: string | Event[];
+  content: ActionResult;
+  // Journal batch of the calendar changes made for this message, if any.
+  batchId?: string;
+  // The model's raw reply, or the command a quick add stands for, kept
+  // so later turns can refer back to it.
+  modelOutput?: string;
 };
 
+// Marks each step of a batch with how it went.
+const STEP_MARKS: { [S in BatchStep['status']]: string } = {
+  done: '✓',
+  failed: '✗',
+  undone: '↺',
+  skipped: '–',
+};
+
+// "undo", "undo that", "redo it" and similar are handled without the model.
+const JOURNAL_COMMAND = /^\s*(undo|redo)(\s+(that|it|this|the last (change|action)))?\s*[.!]*\s*$/i;
+
 export default function ChatScreen() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
   const [isSending, setIsSending] = useState(false);
+  // The reply the model is still generating, shown as it streams in; null when idle.
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  // Batches that have been undone, or are no longer in the journal and so
+  // cannot be undone from their bubble.
+  const [undoneBatches, setUndoneBatches] = useState<Set<string>>(new Set());
+  const [missingBatches, setMissingBatches] = useState<Set<string>>(new Set());
+  // A message opened from search, marked until the user sends another.
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
+  // Current tasks, so that task lists in the conversation show whether each is done now.
+  const [tasks, setTasks] = useState<Task[]>(taskService.getTasks());
   const flatListRef = useRef<FlatList>(null);
+  // Keeps the newest message in view; off while showing a search result.
+  const followLatest = useRef(true);
+  const loaded = useRef<Promise<void> | null>(null);
+  // Set by the search screen to show a message in its conversation.
+  const { conversationId, messageId } = useLocalSearchParams<{ conversationId?: string; messageId?: string }>();
+
+  const refreshBatchStates = React.useCallback(async (current: Message[]) => {
+    const ids = current.map(m => m.batchId).filter((id): id is string => !!id);
+    const { undone, missing } = await journalService.getBatchStates(ids);
+    setUndoneBatches(undone);
+    setMissingBatches(missing);
+  }, []);
 
   // On mount initialise the chat storage and load any persisted
   // messages into state. We ignore failures and fall back to an empty
@@ -25,12 +78,13 @@ export default function ChatScreen() {
     let isMounted = true;
     // Initialise both the chat storage and the on‑device language model.
     // We ignore errors here and fall back to an empty conversation.
-    Promise.all([chatStorageService.init(), AIService.init()])
+    loaded.current = Promise.all([chatStorageService.init(), journalService.init(), searchService.init(), AIService.init()])
       .then(() => chatStorageService.getAllMessages())
       .then(storedMessages => {
         if (isMounted) {
           setMessages(storedMessages);
           setTimeout(() => flatListRef.current?.scrollToEnd({ animated: false }), 100);
+          refreshBatchStates(storedMessages);
         }
       })
       .catch(err => {
@@ -39,11 +93,63 @@ export default function ChatScreen() {
     return () => {
       isMounted = false;
     };
+  }, [refreshBatchStates]);
+
+  React.useEffect(() => {
+    const refresh = () => setTasks(taskService.getTasks());
+    taskService.subscribe(refresh);
+    taskService.init().catch(err => console.error('Failed to load tasks:', err));
+    return () => taskService.unsubscribe(refresh);
   }, []);
+
+  // Opens the conversation holding a message picked in search and scrolls to it.
+  React.useEffect(() => {
+    if (!conversationId || !messageId) return;
+    const target = Number(messageId);
+    loaded.current
+      ?.then(async () => {
+        chatStorageService.openConversation(Number(conversationId));
+        const storedMessages = await chatStorageService.getAllMessages();
+        followLatest.current = false;
+        setMessages(storedMessages);
+        setHighlightedId(target);
+        refreshBatchStates(storedMessages);
+        const index = storedMessages.findIndex(m => m.id === target);
+        if (index > -1) {
+          setTimeout(() => flatListRef.current?.scrollToIndex({ index, viewPosition: 0.5 }), 100);
+        }
+      })
+      .catch(err => console.error('Failed to open conversation:', err));
+  }, [conversationId, messageId, refreshBatchStates]);
+
   // Access the current theme colours from our context. These values
   // automatically update when the user toggles dark mode from the
   // settings screen.
   const { colors } = useTheme();
+  const { settings } = useSettings();
+  const navigation = useNavigation();
+
+  // Starts a fresh conversation: earlier messages stay in the database
+  // but are no longer shown or given to the model as context.
+  const handleNewConversation = React.useCallback(async () => {
+    if (isSending) return;
+    await chatStorageService.startNewConversation();
+    setMessages([]);
+    setHighlightedId(null);
+    followLatest.current = true;
+    setUndoneBatches(new Set());
+    setMissingBatches(new Set());
+  }, [isSending]);
+
+  React.useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity style={styles.headerButton} onPress={handleNewConversation} disabled={isSending}>
+          <Text style={{ color: colors.userMessageBackground, fontSize: 16 }}>New conversation</Text>
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, handleNewConversation, isSending, colors]);
 
   const handleSend = async () => {
     if (inputText.trim() === '' || isSending) return;
@@ -55,6 +161,8 @@ export default function ChatScreen() {
 
     const currentInput = inputText;
     setInputText('');
+    setHighlightedId(null);
+    followLatest.current = true;
     
     setMessages(prev => {
         const newMessages = [...prev, userMessage];
@@ -62,37 +170,42 @@ export default function ChatScreen() {
         return newMessages;
     });
 
-    // Persist the user message
-    chatStorageService.saveMessage('user', currentInput);
-
     setIsSending(true);
 
     try {
-      const aiResponseText = await AIService.getAIResponse(currentInput);
-      const action = ActionParser.parse(aiResponseText);
+      // Earlier turns are read before the new message is persisted so it
+      // is not included twice.
+      const history = await chatStorageService.getRecentMessages(MAX_HISTORY_MESSAGES);
+      chatStorageService.saveMessage('user', currentInput);
 
-      let actionResult: string | Event[];
-      if (action) {
-        // The result could be a confirmation string or an array of events
-        actionResult = await ActionParser.execute(action);
+      const journalCommand = currentInput.match(JOURNAL_COMMAND);
+      // Common phrases such as "lunch with Sam tomorrow 12:30" are parsed
+      // without the model; anything the parser is unsure of goes to it.
+      const quickAdd = journalCommand
+        ? null
+        : parseQuickAdd(currentInput, {
+            calendars: calendarService.getCalendars().map(calendar => calendar.name),
+            defaultDurationMinutes: settings.defaultDurationMinutes,
+          });
+      if (journalCommand) {
+        const outcome =
+          journalCommand[1].toLowerCase() === 'undo' ? await journalService.undo() : await journalService.redo();
+        appendAssistantMessage(outcome.message);
+      } else if (quickAdd) {
+        await executeActions([quickAdd], ActionParser.format(quickAdd));
       } else {
-        actionResult = aiResponseText; // No action found, just display the AI's text response
-      }
-
-      const assistantMessage: Message = {
-        role: 'assistant',
-        content: actionResult,
-      };
-      
-      setMessages(prev => {
-          const newMessages = [...prev, assistantMessage];
-          setTimeout(() => flatListRef.current?.scrollToEnd({ animated: true }), 100);
-          return newMessages;
-      });
-
-      // Persist the assistant message
-      chatStorageService.saveMessage('assistant', actionResult as any);
+        setStreamingText('');
+        const aiResponseText = await AIService.getAIResponse(currentInput, history, setStreamingText);
+        // Generation is complete: replace the live text with the outcome.
+        setStreamingText(null);
+        const actions = ActionParser.parse(aiResponseText);
 
+        if (actions.length > 0) {
+          await executeActions(actions, aiResponseText);
+        } else {
+          appendAssistantMessage(aiResponseText); // No action found, just display the AI's text response
+        }
+      }
     } catch (error) {
       console.error('Failed to get AI response:', error);
       const errorMessage: Message = {
@@ -101,20 +214,213 @@ export default function ChatScreen() {
       };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
+      setStreamingText(null);
       setIsSending(false);
     }
   };
 
+  // Adds an assistant message to the conversation and persists it.
+  const appendAssistantMessage = (content: ActionResult, extras: MessageExtras = {}) => {
+    const assistantMessage: Message = { role: 'assistant', content, ...extras };
+    setMessages(prev => {
+        const newMessages = [...prev, assistantMessage];
+        setTimeout(() => flatListRef.current?.scrollToEnd({ animated: true }), 100);
+        refreshBatchStates(newMessages);
+        return newMessages;
+    });
+    chatStorageService.saveMessage('assistant', content, extras).then(id => {
+      setMessages(prev => prev.map(m => (m === assistantMessage ? { ...m, id } : m)));
+    });
+  };
+
+  // Runs the actions from one reply and shows the result. The result
+  // could be a confirmation string, an array of events, a prompt or,
+  // for several actions, a summary of each. Changes are journalled as
+  // one batch so that they can be undone together from the bubble.
+  // `modelOutput` is the model reply the actions were parsed from, or
+  // the command a quick add stands for, if any.
+  const executeActions = async (actions: Action[], modelOutput?: string) => {
+    const { result, batchId } = await journalService.runBatch('assistant', () => ActionParser.executeAll(actions));
+    appendAssistantMessage(result, { batchId: batchId ?? undefined, modelOutput });
+  };
+
+  // Marks a prompt as answered so it can't be used twice.
+  const resolvePrompt = (message: Message) => {
+    const content = { ...(message.content as PromptResult), resolved: true };
+    setMessages(prev => prev.map(m => (m === message ? { ...m, content } : m)));
+    if (message.id !== undefined) {
+      chatStorageService.updateMessageContent(message.id, content);
+    }
+  };
+
+  const handlePromptAnswer = async (message: Message, action: Action | null) => {
+    if (isSending) return;
+    resolvePrompt(message);
+    if (!action) {
+      appendAssistantMessage('Okay, I left your calendar unchanged.');
+      return;
+    }
+    // A prompt from one of several actions re-runs them all with the answer in its place.
+    const prompt = message.content as PromptResult;
+    const batch = prompt.kind !== 'slots' ? prompt.batch : undefined;
+    const actions = batch ? batch.actions.map((other, step) => (step === batch.step ? action : other)) : [action];
+    setIsSending(true);
+    try {
+      await executeActions(actions);
+    } catch (error) {
+      console.error('Failed to run action:', error);
+      appendAssistantMessage('Sorry, something went wrong. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleUndo = async (batchId: string) => {
+    const outcome = await journalService.undo(batchId);
+    if (!outcome.ok) {
+      Alert.alert('Undo', outcome.message);
+    }
+    refreshBatchStates(messages);
+  };
+
+  const renderUndo = (item: Message) => {
+    if (!item.batchId || missingBatches.has(item.batchId)) {
+      return null;
+    }
+    if (undoneBatches.has(item.batchId)) {
+      return <Text style={[styles.undoLabel, { color: colors.secondaryText }]}>Undone</Text>;
+    }
+    const batchId = item.batchId;
+    return (
+      <TouchableOpacity onPress={() => handleUndo(batchId)}>
+        <Text style={[styles.undoLabel, { color: colors.userMessageBackground }]}>Undo</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderPrompt = (item: Message, prompt: PromptResult) => {
+    const disabled = !!prompt.resolved || isSending;
+    const optionStyle = [styles.eventItem, { backgroundColor: colors.cardBackground }, disabled && styles.resolved];
+    return (
+      <View>
+        <Text style={{ color: colors.assistantMessageText, fontSize: 16 }}>{prompt.prompt}</Text>
+        {prompt.kind === 'slots' ? (
+          prompt.slots.map(slot => (
+            <TouchableOpacity
+              key={slot.start.getTime()}
+              style={optionStyle}
+              disabled={disabled}
+              onPress={() =>
+                handlePromptAnswer(item, {
+                  command: 'CREATE_EVENT',
+                  params: { title: prompt.title, startTime: slot.start.toISOString(), endTime: slot.end.toISOString() },
+                })
+              }
+            >
+              <Text style={[styles.eventTitle, { color: colors.text }]}>{describeSlot(slot)}</Text>
+            </TouchableOpacity>
+          ))
+        ) : prompt.kind === 'choice' ? (
+          prompt.candidates.map(event => (
+            <TouchableOpacity
+              key={event.id}
+              style={optionStyle}
+              disabled={disabled}
+              onPress={() => handlePromptAnswer(item, { ...prompt.action, targetId: event.id })}
+            >
+              <Text style={[styles.eventTitle, { color: colors.text }]}>{event.title}</Text>
+              <Text style={[styles.eventTime, { color: colors.secondaryText }]}>{describeWhen(event)}</Text>
+            </TouchableOpacity>
+          ))
+        ) : prompt.kind === 'taskChoice' ? (
+          prompt.candidates.map(task => (
+            <TouchableOpacity
+              key={task.id}
+              style={optionStyle}
+              disabled={disabled}
+              onPress={() => handlePromptAnswer(item, { ...prompt.action, targetId: task.id })}
+            >
+              <Text style={[styles.eventTitle, { color: colors.text }]}>{task.title}</Text>
+              <Text style={[styles.eventTime, { color: colors.secondaryText }]}>
+                {task.due ? `Due ${formatDue(task.due)}` : 'No due date'}
+              </Text>
+            </TouchableOpacity>
+          ))
+        ) : (
+          <TouchableOpacity
+            style={optionStyle}
+            disabled={disabled}
+            onPress={() => handlePromptAnswer(item, { ...prompt.action, confirmed: true })}
+          >
+            <Text style={[styles.eventTitle, { color: 'red' }]}>{prompt.confirmLabel}</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={optionStyle} disabled={disabled} onPress={() => handlePromptAnswer(item, null)}>
+          <Text style={[styles.eventTitle, { color: colors.text }]}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // Lists tasks with checkboxes; a task deleted since can no longer be ticked off.
+  const renderTaskList = (result: TaskListResult) => (
+    <View>
+      <Text style={{ color: colors.assistantMessageText, fontSize: 16 }}>{result.prompt}</Text>
+      {result.tasks.map(listed => {
+        const task = tasks.find(t => t.id === listed.id);
+        return (
+          <View key={listed.id} style={[styles.eventItem, { backgroundColor: colors.cardBackground }]}>
+            <TaskRow
+              task={task ?? listed}
+              onToggle={task ? () => taskService.setDone(task.id, !task.done) : undefined}
+            />
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  // Lists what each of several actions did, or why the batch stopped.
+  const renderBatch = (result: BatchResult) => (
+    <View>
+      <Text style={{ color: colors.assistantMessageText, fontSize: 16 }}>{result.prompt}</Text>
+      {result.steps.map((step, index) => (
+        <View
+          key={index}
+          style={[
+            styles.eventItem,
+            { backgroundColor: colors.cardBackground },
+            (step.status === 'undone' || step.status === 'skipped') && styles.resolved,
+          ]}
+        >
+          <Text style={[styles.eventTitle, { color: step.status === 'failed' ? 'red' : colors.text }]}>
+            {STEP_MARKS[step.status]} {step.action}
+          </Text>
+          <Text style={[styles.eventTime, { color: colors.secondaryText }]}>
+            {step.status === 'skipped' ? 'Not run.' : step.status === 'undone' ? `Undone: ${step.result}` : step.result}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
   const renderMessageContent = (item: Message) => {
     const isUser = item.role === 'user';
     const isEventList = Array.isArray(item.content);
 
+    if (typeof item.content === 'object' && !Array.isArray(item.content)) {
+      if (item.content.kind === 'tasks') {
+        return renderTaskList(item.content);
+      }
+      return item.content.kind === 'batch' ? renderBatch(item.content) : renderPrompt(item, item.content);
+    }
+
     if (isEventList) {
       const events = item.content as Event[];
       if (events.length === 0) {
         return (
           <Text style={{ color: colors.assistantMessageText, fontSize: 16 }}>
-            I couldn't find any events matching that description.
+            I couldn&apos;t find any events matching that description.
           </Text>
         );
       }
@@ -128,8 +434,18 @@ export default function ChatScreen() {
             >
               <Text style={[styles.eventTitle, { color: colors.text }]}>{event.title}</Text>
               <Text style={[styles.eventTime, { color: colors.secondaryText }]}> 
-                {new Date(event.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - {new Date(event.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {event.allDay
+                  ? describeWhen(event)
+                  : `${formatTime(new Date(event.startTime), settings.clock)} - ${formatTime(new Date(event.endTime), settings.clock)}`}
               </Text>
+              {event.location && (
+                <Text style={[styles.eventTime, { color: colors.secondaryText }]}>{event.location}</Text>
+              )}
+              {event.attendees && event.attendees.length > 0 && (
+                <Text style={[styles.eventTime, { color: colors.secondaryText }]}>
+                  With {describeAttendees(event.attendees)}
+                </Text>
+              )}
             </View>
           ))}
         </View>
@@ -148,6 +464,22 @@ export default function ChatScreen() {
     );
   };
 
+  // The assistant bubble for a reply that is still being generated.
+  const renderStreaming = () => {
+    if (streamingText === null) {
+      return null;
+    }
+    return (
+      <View style={[styles.message, { backgroundColor: colors.assistantMessageBackground, alignSelf: 'flex-start' }]}>
+        {streamingText.trim() === '' ? (
+          <ActivityIndicator />
+        ) : (
+          <Text style={{ color: colors.assistantMessageText, fontSize: 16 }}>{streamingText.trimStart()}</Text>
+        )}
+      </View>
+    );
+  };
+
   return (
     <KeyboardAvoidingView
       style={[styles.container, { backgroundColor: colors.background }]}
@@ -167,14 +499,25 @@ export default function ChatScreen() {
                   item.role === 'user' ? colors.userMessageBackground : colors.assistantMessageBackground,
                 alignSelf: item.role === 'user' ? 'flex-end' : 'flex-start',
               },
+              item.id !== undefined && item.id === highlightedId && [
+                styles.highlighted,
+                { borderColor: colors.text },
+              ],
             ]}
           >
             {renderMessageContent(item)}
+            {renderUndo(item)}
           </View>
         )}
+        ListFooterComponent={renderStreaming()}
         contentContainerStyle={styles.messagesContainer}
-        onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
-        onLayout={() => flatListRef.current?.scrollToEnd({ animated: true })}
+        onContentSizeChange={() => followLatest.current && flatListRef.current?.scrollToEnd({ animated: true })}
+        onLayout={() => followLatest.current && flatListRef.current?.scrollToEnd({ animated: true })}
+        onScrollToIndexFailed={({ index, averageItemLength }) => {
+          // Rows far from the end may not be measured yet: jump near the row, then try again.
+          flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+          setTimeout(() => flatListRef.current?.scrollToIndex({ index, viewPosition: 0.5 }), 100);
+        }}
       />
       <View
         style={[
@@ -200,7 +543,9 @@ export default function ChatScreen() {
           placeholderTextColor={colors.secondaryText}
           editable={!isSending}
         />
-        {isSending ? (
+        {isSending && streamingText !== null ? (
+          <Button title="Stop" onPress={() => AIService.cancel()} />
+        ) : isSending ? (
           <ActivityIndicator style={styles.sendButton} />
         ) : (
           <Button title="Send" onPress={handleSend} disabled={!inputText.trim()} />
@@ -255,6 +600,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#555',
   },
+  resolved: {
+    opacity: 0.5,
+  },
+  highlighted: {
+    borderWidth: 2,
+  },
+  undoLabel: {
+    marginTop: 6,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   inputContainer: {
     flexDirection: 'row',
     padding: 10,
@@ -276,4 +632,7 @@ const styles = StyleSheet.create({
   sendButton: {
     marginHorizontal: 10,
   },
+  headerButton: {
+    marginRight: 15,
+  },
 });
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, SectionList, TouchableOpacity, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useTheme } from '../../contexts/ThemeContext';
+import HighlightedText from '../../components/HighlightedText';
+import { describeWhen } from '../../services/ActionParser';
+import searchService, { EventSearchResult, MessageSearchResult } from '../../services/SearchService';
+
+// Searching waits until typing pauses for this long.
+const SEARCH_DELAY_MS = 250;
+
+type Section =
+  | { title: string; kind: 'events'; data: EventSearchResult[] }
+  | { title: string; kind: 'messages'; data: MessageSearchResult[] };
+
+/**
+ * Full-text search over events (title and description) and the chat
+ * history of every conversation. Results are ranked and show the
+ * matching words highlighted. Tapping an event opens its details;
+ * tapping a message opens its conversation in the chat, scrolled to it.
+ */
+export default function SearchScreen() {
+  const [query, setQuery] = useState('');
+  const [events, setEvents] = useState<EventSearchResult[]>([]);
+  const [messages, setMessages] = useState<MessageSearchResult[]>([]);
+  const router = useRouter();
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchService
+        .init()
+        .then(() => Promise.all([searchService.searchEvents(query), searchService.searchMessages(query)]))
+        .then(([eventResults, messageResults]) => {
+          if (!cancelled) {
+            setEvents(eventResults);
+            setMessages(messageResults);
+          }
+        })
+        .catch(err => console.error('Search failed:', err));
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const sections: Section[] = [];
+  if (events.length > 0) sections.push({ title: 'Events', kind: 'events', data: events });
+  if (messages.length > 0) sections.push({ title: 'Chat', kind: 'messages', data: messages });
+
+  const renderEvent = ({ event, title, snippet }: EventSearchResult) => (
+    <TouchableOpacity
+      style={[styles.result, { backgroundColor: colors.cardBackground }]}
+      onPress={() => router.push({ pathname: '/modal/event-details', params: { eventId: event.id } })}
+    >
+      <HighlightedText segments={title} style={[styles.resultTitle, { color: colors.text }]} numberOfLines={1} />
+      <Text style={[styles.resultDetail, { color: colors.secondaryText }]}>{describeWhen(event)}</Text>
+      {snippet.length > 0 && (
+        <HighlightedText segments={snippet} style={[styles.resultDetail, { color: colors.secondaryText }]} numberOfLines={2} />
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderMessage = (result: MessageSearchResult) => (
+    <TouchableOpacity
+      style={[styles.result, { backgroundColor: colors.cardBackground }]}
+      onPress={() =>
+        router.navigate({
+          pathname: '/chat',
+          params: { conversationId: String(result.conversationId), messageId: String(result.messageId) },
+        })
+      }
+    >
+      <HighlightedText segments={result.snippet} style={[styles.resultTitle, { color: colors.text }]} numberOfLines={2} />
+      <Text style={[styles.resultDetail, { color: colors.secondaryText }]}>
+        {result.role === 'user' ? 'You' : 'Assistant'}, {result.timestamp.toLocaleString()}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <TextInput
+        style={[
+          styles.input,
+          { borderColor: colors.inputBorder, backgroundColor: colors.inputBackground, color: colors.text },
+        ]}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search events and chat"
+        placeholderTextColor={colors.secondaryText}
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+      />
+      <SectionList<EventSearchResult | MessageSearchResult, Section>
+        sections={sections}
+        keyExtractor={item => ('event' in item ? `event-${item.event.id}` : `message-${item.messageId}`)}
+        renderItem={({ item }) => ('event' in item ? renderEvent(item) : renderMessage(item))}
+        renderSectionHeader={({ section }) => (
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>{section.title}</Text>
+        )}
+        ListEmptyComponent={
+          query.trim() ? <Text style={[styles.empty, { color: colors.emptyText }]}>No results.</Text> : null
+        }
+        keyboardShouldPersistTaps="handled"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 10,
+  },
+  input: {
+    height: 40,
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 15,
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 10,
+    marginBottom: 5,
+  },
+  result: {
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  resultTitle: {
+    fontSize: 16,
+  },
+  resultDetail: {
+    marginTop: 4,
+    fontSize: 14,
+  },
+  empty: {
+    textAlign: 'center',
+    marginTop: 20,
+  },
+});
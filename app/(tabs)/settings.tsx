@@ -1,6 +1,43 @@
-import React from 'react';
-import { View, Text, Switch, StyleSheet } from 'react-native';
+import React, { useState, useEffect } from 'react';
+import { View, Text, Switch, StyleSheet, Button, TouchableOpacity, Alert, TextInput, ScrollView } from 'react-native';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import calendarService from '../../services/CalendarService';
+import icsService, { IcsFile } from '../../services/IcsService';
+import llmSettingsService, { LLMSettings, OpenAIProviderSettings } from '../../services/LLMSettingsService';
+import { LLMProviderId } from '../../services/LLMProvider';
+import { OpenAIProvider } from '../../services/OpenAIProvider';
+import { useRouter } from 'expo-router';
+import { ClockFormat } from '../../services/SettingsService';
+import { Calendar } from '../../types/Calendar';
+
+const PROVIDERS: { id: LLMProviderId; label: string }[] = [
+  { id: 'llama', label: 'On device' },
+  { id: 'openai', label: 'OpenAI-compatible server' },
+];
+
+const WEEK_STARTS: { day: number; label: string }[] = [
+  { day: 1, label: 'Monday' },
+  { day: 0, label: 'Sunday' },
+  { day: 6, label: 'Saturday' },
+];
+const CLOCKS: { clock: ClockFormat; label: string }[] = [
+  { clock: '12h', label: '12-hour' },
+  { clock: '24h', label: '24-hour' },
+];
+const DURATIONS = [15, 30, 45, 60, 90, 120];
+
+// Choices for the on-device model's context window, thread count and the sampling temperature.
+const CONTEXT_SIZES = [1024, 2048, 4096, 8192];
+const THREAD_COUNTS = [0, 2, 4, 6, 8];
+const TEMPERATURES = [0, 0.2, 0.5, 0.8];
+
+// The text fields of the server settings, with their labels.
+const SERVER_FIELDS: { key: 'baseUrl' | 'model' | 'apiKey'; label: string; placeholder: string }[] = [
+  { key: 'baseUrl', label: 'Base URL', placeholder: 'http://192.168.1.20:8080/v1' },
+  { key: 'model', label: 'Model', placeholder: 'default' },
+  { key: 'apiKey', label: 'API key (optional)', placeholder: 'sk-...' },
+];
 
 /**
  * A simple settings screen which exposes a toggle for enabling or
@@ -8,14 +45,120 @@ import { useTheme } from '../../contexts/ThemeContext';
  * ThemeContext and writes changes back via the toggleTheme function. All
  * colours and text styles are derived from the active theme ensuring
  * consistency across light and dark appearances.
+ *
+ * The calendar preferences (first day of the week, clock format and the
+ * length and calendar of new events) are read and changed through
+ * SettingsContext.
+ *
+ * It also hosts calendar import and export: the user picks one of the
+ * .ics files IcsService can see, or writes the whole calendar out, and
+ * the choice of language model: the on-device model or an
+ * OpenAI-compatible server such as llama.cpp or Ollama. For the
+ * on-device model it sets the window size and thread count, and links to
+ * the model manager for choosing which GGUF model runs.
  */
 export default function SettingsScreen() {
   const { isDark, toggleTheme, colors } = useTheme();
+  const { settings, updateSettings } = useSettings();
+  const [calendars, setCalendars] = useState<Calendar[]>(calendarService.getCalendars());
+  const router = useRouter();
+  const [importFiles, setImportFiles] = useState<IcsFile[] | null>(null);
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(llmSettingsService.get());
+  // Server fields as typed; saved when editing ends.
+  const [serverDraft, setServerDraft] = useState<OpenAIProviderSettings>(llmSettingsService.get().openai);
+
+  useEffect(() => {
+    const onSettingsChange = () => {
+      setLlmSettings(llmSettingsService.get());
+      setServerDraft(llmSettingsService.get().openai);
+    };
+    llmSettingsService.subscribe(onSettingsChange);
+    llmSettingsService.init().catch(err => console.error('Failed to load model settings:', err));
+    return () => llmSettingsService.unsubscribe(onSettingsChange);
+  }, []);
+
+  useEffect(() => {
+    const onCalendarsChange = () => setCalendars(calendarService.getCalendars());
+    calendarService.subscribe(onCalendarsChange);
+    return () => calendarService.unsubscribe(onCalendarsChange);
+  }, []);
+
+  const saveServerDraft = () => {
+    llmSettingsService.update({ openai: { ...serverDraft, baseUrl: serverDraft.baseUrl.trim() } });
+  };
+
+  const onTestConnection = async () => {
+    try {
+      await new OpenAIProvider(serverDraft).init();
+      Alert.alert('Connection', 'The server is reachable.');
+    } catch (err) {
+      Alert.alert('Connection failed', (err as Error).message);
+    }
+  };
+
+  const onChooseImport = async () => {
+    try {
+      setImportFiles(await icsService.listImportableFiles());
+    } catch (err) {
+      Alert.alert('Import failed', (err as Error).message);
+    }
+  };
+
+  const onImport = async (file: IcsFile) => {
+    setImportFiles(null);
+    try {
+      const { imported, skipped } = await icsService.importFromUri(file.uri);
+      Alert.alert(
+        'Import complete',
+        `Imported ${imported} event(s)` + (skipped > 0 ? `, skipped ${skipped} already in your calendar.` : '.')
+      );
+    } catch (err) {
+      Alert.alert('Import failed', (err as Error).message);
+    }
+  };
+
+  const onExport = async () => {
+    try {
+      const uri = await icsService.exportAll();
+      Alert.alert('Export complete', `Saved to ${decodeURIComponent(uri)}`);
+    } catch (err) {
+      Alert.alert('Export failed', (err as Error).message);
+    }
+  };
+
+  /** A row of chips for choosing one of `values`. */
+  function renderOptions<T>(
+    values: T[],
+    isSelected: (value: T) => boolean,
+    label: (value: T) => string,
+    onSelect: (value: T) => void
+  ) {
+    return (
+      <View style={styles.options}>
+        {values.map(value => {
+          const selected = isSelected(value);
+          return (
+            <TouchableOpacity
+              key={label(value)}
+              style={[
+                styles.option,
+                { borderColor: colors.inputBorder },
+                selected && { backgroundColor: colors.userMessageBackground },
+              ]}
+              onPress={() => onSelect(value)}
+            >
+              <Text style={{ color: selected ? colors.userMessageText : colors.text }}>{label(value)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  }
 
   return (
-    <View style={[styles.container, { backgroundColor: colors.background }]}> 
+    <ScrollView style={{ backgroundColor: colors.background }} contentContainerStyle={styles.container}>
       <Text style={[styles.title, { color: colors.text }]}>Settings</Text>
-      <View style={styles.row}> 
+      <View style={styles.row}>
         <Text style={[styles.label, { color: colors.text }]}>Dark Mode</Text>
         <Switch
           value={isDark}
@@ -24,13 +167,135 @@ export default function SettingsScreen() {
           thumbColor={isDark ? colors.userMessageBackground : '#f4f3f4'}
         />
       </View>
-    </View>
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Calendar</Text>
+      <Text style={[styles.fieldLabel, { color: colors.secondaryText }]}>Week starts on</Text>
+      {renderOptions(
+        WEEK_STARTS,
+        option => option.day === settings.weekStartsOn,
+        option => option.label,
+        option => updateSettings({ weekStartsOn: option.day })
+      )}
+      <Text style={[styles.fieldLabel, { color: colors.secondaryText }]}>Clock</Text>
+      {renderOptions(
+        CLOCKS,
+        option => option.clock === settings.clock,
+        option => option.label,
+        option => updateSettings({ clock: option.clock })
+      )}
+      <Text style={[styles.fieldLabel, { color: colors.secondaryText }]}>Default event length</Text>
+      {renderOptions(
+        DURATIONS,
+        minutes => minutes === settings.defaultDurationMinutes,
+        minutes => (minutes < 60 ? `${minutes}m` : `${minutes / 60}h`),
+        minutes => updateSettings({ defaultDurationMinutes: minutes })
+      )}
+      <Text style={[styles.fieldLabel, { color: colors.secondaryText }]}>Default calendar</Text>
+      {renderOptions(
+        calendars,
+        calendar => calendar.id === calendarService.getCalendar(settings.defaultCalendarId).id,
+        calendar => calendar.name,
+        calendar => updateSettings({ defaultCalendarId: calendar.id })
+      )}
+      <Button title="Manage calendars" onPress={() => router.push('/calendars')} />
+      <Button title="Travel times" onPress={() => router.push('/travel-times')} />
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Import & Export</Text>
+      <View style={styles.buttonRow}>
+        <Button title="Import .ics file" onPress={onChooseImport} />
+        <Button title="Export calendar" onPress={onExport} />
+      </View>
+      {importFiles && (
+        <View style={[styles.fileList, { borderColor: colors.border }]}>
+          {importFiles.length === 0 ? (
+            <Text style={{ color: colors.emptyText }}>No .ics files found.</Text>
+          ) : (
+            importFiles.map(file => (
+              <TouchableOpacity key={file.uri} style={styles.fileItem} onPress={() => onImport(file)}>
+                <Text style={{ color: colors.text }}>{file.name}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+          <Button title="Cancel" onPress={() => setImportFiles(null)} />
+        </View>
+      )}
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Assistant Model</Text>
+      {renderOptions(
+        PROVIDERS,
+        provider => provider.id === llmSettings.provider,
+        provider => provider.label,
+        provider => llmSettingsService.update({ provider: provider.id })
+      )}
+      {llmSettings.provider === 'llama' && (
+        <View>
+          <View style={styles.row}>
+            <Text style={[styles.label, styles.modelName, { color: colors.text }]} numberOfLines={1}>
+              {llmSettings.llama.model}
+            </Text>
+            <Button title="Manage models" onPress={() => router.push('/models')} />
+          </View>
+          <Text style={[styles.fieldLabel, { color: colors.secondaryText }]}>Context size (tokens)</Text>
+          {renderOptions(
+            CONTEXT_SIZES,
+            nCtx => nCtx === llmSettings.llama.nCtx,
+            nCtx => String(nCtx),
+            nCtx => llmSettingsService.update({ llama: { nCtx } })
+          )}
+          <Text style={[styles.fieldLabel, { color: colors.secondaryText }]}>Threads</Text>
+          {renderOptions(
+            THREAD_COUNTS,
+            threads => threads === llmSettings.llama.threads,
+            threads => (threads === 0 ? 'Auto' : String(threads)),
+            threads => llmSettingsService.update({ llama: { threads } })
+          )}
+        </View>
+      )}
+      {llmSettings.provider === 'openai' && (
+        <View>
+          {SERVER_FIELDS.map(field => (
+            <View key={field.key}>
+              <Text style={[styles.fieldLabel, { color: colors.secondaryText }]}>{field.label}</Text>
+              <TextInput
+                style={[
+                  styles.input,
+                  { borderColor: colors.inputBorder, backgroundColor: colors.inputBackground, color: colors.text },
+                ]}
+                value={serverDraft[field.key]}
+                onChangeText={value => setServerDraft(draft => ({ ...draft, [field.key]: value }))}
+                onEndEditing={saveServerDraft}
+                placeholder={field.placeholder}
+                placeholderTextColor={colors.secondaryText}
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry={field.key === 'apiKey'}
+              />
+            </View>
+          ))}
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: colors.text }]}>Send grammar (llama.cpp)</Text>
+            <Switch
+              value={llmSettings.openai.sendGrammar}
+              onValueChange={sendGrammar => llmSettingsService.update({ openai: { sendGrammar } })}
+              trackColor={{ true: colors.userMessageBackground, false: '#767577' }}
+            />
+          </View>
+          <Button title="Test connection" onPress={onTestConnection} />
+        </View>
+      )}
+      <Text style={[styles.fieldLabel, { color: colors.secondaryText }]}>Temperature</Text>
+      {renderOptions(
+        TEMPERATURES,
+        temperature => temperature === llmSettings.temperature,
+        temperature => String(temperature),
+        temperature => llmSettingsService.update({ temperature })
+      )}
+    </ScrollView>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
     padding: 20,
   },
   title: {
@@ -47,4 +312,50 @@ const styles = StyleSheet.create({
   label: {
     fontSize: 18,
   },
-});
\ No newline at end of file
+  modelName: {
+    flex: 1,
+    marginRight: 10,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  fileList: {
+    marginTop: 10,
+    borderWidth: 1,
+    borderRadius: 5,
+    padding: 10,
+  },
+  fileItem: {
+    paddingVertical: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 10,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 5,
+    padding: 10,
+    marginBottom: 10,
+  },
+});
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Button, TouchableOpacity, Alert, TextInput, ScrollView, Switch } from 'react-native';
+import { useTheme } from '../../contexts/ThemeContext';
+import DateTimeField from '../../components/DateTimeField';
+import TaskRow from '../../components/TaskRow';
+import taskService from '../../services/TaskService';
+import { PRIORITY_LABELS } from '../../services/Tasks';
+import { Task, TaskPriority } from '../../types/Task';
+
+const PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+
+/** Returns tomorrow's date, the due day offered for a new task. */
+function tomorrow(): Date {
+  const day = new Date();
+  day.setHours(0, 0, 0, 0);
+  day.setDate(day.getDate() + 1);
+  return day;
+}
+
+/**
+ * The to-do list: open tasks ordered by due day and priority, with a
+ * form for adding one. Ticking a task off marks it done; completed tasks
+ * are hidden unless "Show completed" is on.
+ */
+export default function TasksScreen() {
+  const { colors } = useTheme();
+  const [tasks, setTasks] = useState<Task[]>(taskService.getTasks());
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [title, setTitle] = useState('');
+  const [hasDue, setHasDue] = useState(false);
+  const [due, setDue] = useState(tomorrow);
+  const [priority, setPriority] = useState<TaskPriority>('medium');
+
+  useEffect(() => {
+    const refresh = () => setTasks(taskService.getTasks());
+    taskService.subscribe(refresh);
+    taskService.init().catch(err => console.error('Failed to load tasks:', err));
+    return () => taskService.unsubscribe(refresh);
+  }, []);
+
+  const onAdd = async () => {
+    try {
+      await taskService.createTask(title, hasDue ? due : undefined, priority);
+      setTitle('');
+      setPriority('medium');
+    } catch (err) {
+      Alert.alert('Add task', (err as Error).message);
+    }
+  };
+
+  const onDelete = (task: Task) => {
+    Alert.alert('Delete task', `Delete '${task.title}'?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => taskService.deleteTask(task.id) },
+    ]);
+  };
+
+  const shown = showCompleted ? tasks : tasks.filter(task => !task.done);
+
+  return (
+    <ScrollView style={{ backgroundColor: colors.background }} contentContainerStyle={styles.container}>
+      <TextInput
+        style={[
+          styles.input,
+          { borderColor: colors.inputBorder, backgroundColor: colors.inputBackground, color: colors.text },
+        ]}
+        value={title}
+        onChangeText={setTitle}
+        placeholder="New task, e.g. Send the report"
+        placeholderTextColor={colors.secondaryText}
+        onSubmitEditing={onAdd}
+      />
+      <View style={styles.row}>
+        <Text style={[styles.label, { color: colors.text }]}>Due date</Text>
+        <Switch value={hasDue} onValueChange={setHasDue} />
+      </View>
+      {hasDue && <DateTimeField label="Due" value={due} onChange={setDue} mode="date" />}
+      <View style={styles.options}>
+        {PRIORITIES.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.option,
+              { borderColor: colors.inputBorder },
+              priority === option && { backgroundColor: colors.userMessageBackground },
+            ]}
+            onPress={() => setPriority(option)}
+          >
+            <Text style={{ color: priority === option ? colors.userMessageText : colors.text }}>
+              {PRIORITY_LABELS[option]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Button title="Add task" onPress={onAdd} />
+
+      <View style={[styles.row, styles.listHeader]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>To do</Text>
+        <View style={styles.row}>
+          <Text style={{ color: colors.secondaryText }}>Show completed</Text>
+          <Switch value={showCompleted} onValueChange={setShowCompleted} />
+        </View>
+      </View>
+      {shown.length === 0 ? (
+        <Text style={{ color: colors.emptyText }}>Nothing to do.</Text>
+      ) : (
+        shown.map(task => (
+          <View key={task.id} style={[styles.task, { borderBottomColor: colors.border }]}>
+            <TaskRow task={task} onToggle={() => taskService.setDone(task.id, !task.done)}>
+              <Button title="Delete" color="red" onPress={() => onDelete(task)} />
+            </TaskRow>
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 5,
+    padding: 10,
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 16,
+  },
+  options: {
+    flexDirection: 'row',
+    marginVertical: 10,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+  },
+  listHeader: {
+    marginTop: 20,
+    marginBottom: 5,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  task: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+});
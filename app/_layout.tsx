@@ -1,18 +1,25 @@
 import { Stack } from 'expo-router';
 import React from 'react';
 import { ThemeProvider } from '../contexts/ThemeContext';
+import { SettingsProvider } from '../contexts/SettingsContext';
 
 export default function RootLayout() {
-  // Wrap the navigation stack in our ThemeProvider so that all child
-  // components have access to theme values and can respond to changes.
+  // Wrap the navigation stack in our SettingsProvider and ThemeProvider so
+  // that all child components have access to the settings and theme
+  // values and can respond to changes.
   return (
-    <ThemeProvider>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="event-modal" options={{ presentation: 'modal', title: 'Add/Edit Event' }} />
-        <Stack.Screen name="modal/event-details" options={{ presentation: 'modal', title: 'Event Details' }} />
-      </Stack>
-    </ThemeProvider>
+    <SettingsProvider>
+      <ThemeProvider>
+        <Stack>
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="event-modal" options={{ presentation: 'modal', title: 'Add/Edit Event' }} />
+          <Stack.Screen name="modal/event-details" options={{ presentation: 'modal', title: 'Event Details' }} />
+          <Stack.Screen name="models" options={{ title: 'Models' }} />
+          <Stack.Screen name="calendars" options={{ title: 'Calendars' }} />
+          <Stack.Screen name="travel-times" options={{ title: 'Travel Times' }} />
+        </Stack>
+      </ThemeProvider>
+    </SettingsProvider>
   );
 }
 
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Button, TouchableOpacity, Alert, TextInput, ScrollView, Switch } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import calendarService, { DEFAULT_CALENDAR_ID } from '../services/CalendarService';
+import { Calendar } from '../types/Calendar';
+
+// Colours offered for calendars; each stays readable on light and dark backgrounds.
+const COLORS = ['#007AFF', '#34C759', '#FF9500', '#FF3B30', '#AF52DE', '#5AC8FA', '#FF2D55', '#A2845E'];
+
+interface ColorSwatchesProps {
+  value: string;
+  onChange: (color: string) => void;
+}
+
+const ColorSwatches: React.FC<ColorSwatchesProps> = ({ value, onChange }) => {
+  const { colors } = useTheme();
+  return (
+    <View style={styles.swatches}>
+      {COLORS.map(color => (
+        <TouchableOpacity
+          key={color}
+          style={[
+            styles.swatch,
+            { backgroundColor: color, borderColor: color === value ? colors.text : 'transparent' },
+          ]}
+          onPress={() => onChange(color)}
+        />
+      ))}
+    </View>
+  );
+};
+
+/**
+ * Lists the calendars and lets the user rename, recolour, hide and
+ * delete them, and add new ones. Deleting a calendar moves its events
+ * to the default calendar.
+ */
+export default function CalendarsScreen() {
+  const { colors } = useTheme();
+  const [calendars, setCalendars] = useState<Calendar[]>(calendarService.getCalendars());
+  // Names being edited, by calendar id; a name is saved when editing ends.
+  const [names, setNames] = useState<{ [id: string]: string }>({});
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(COLORS[1]);
+
+  useEffect(() => {
+    const refresh = () => setCalendars(calendarService.getCalendars());
+    calendarService.subscribe(refresh);
+    return () => calendarService.unsubscribe(refresh);
+  }, []);
+
+  const run = async (title: string, change: () => Promise<unknown>) => {
+    try {
+      await change();
+    } catch (err) {
+      Alert.alert(title, (err as Error).message);
+    }
+  };
+
+  const onRename = (calendar: Calendar) => {
+    const name = names[calendar.id];
+    setNames(({ [calendar.id]: _edited, ...rest }) => rest);
+    if (name !== undefined && name.trim() !== calendar.name) {
+      run('Rename calendar', () => calendarService.updateCalendar(calendar.id, { name }));
+    }
+  };
+
+  const onDelete = (calendar: Calendar) => {
+    const count = calendarService.getStoredEvents().filter(event => event.calendarId === calendar.id).length;
+    const defaultName = calendarService.getCalendar(DEFAULT_CALENDAR_ID).name;
+    const message =
+      count > 0
+        ? `Delete ${calendar.name}? Its ${count === 1 ? 'event moves' : `${count} events move`} to ${defaultName}.`
+        : `Delete ${calendar.name}?`;
+    Alert.alert('Delete calendar', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => calendarService.deleteCalendar(calendar.id) },
+    ]);
+  };
+
+  const onAdd = () => {
+    run('Add calendar', async () => {
+      await calendarService.createCalendar(newName, newColor);
+      setNewName('');
+    });
+  };
+
+  const inputStyle = [
+    styles.input,
+    { borderColor: colors.inputBorder, backgroundColor: colors.inputBackground, color: colors.text },
+  ];
+
+  return (
+    <ScrollView style={{ backgroundColor: colors.background }} contentContainerStyle={styles.container}>
+      {calendars.map(calendar => (
+        <View
+          key={calendar.id}
+          style={[styles.calendar, { borderColor: colors.border, backgroundColor: colors.cardBackground }]}
+        >
+          <View style={styles.row}>
+            <TextInput
+              style={[inputStyle, styles.nameInput]}
+              value={names[calendar.id] ?? calendar.name}
+              onChangeText={name => setNames(prev => ({ ...prev, [calendar.id]: name }))}
+              onEndEditing={() => onRename(calendar)}
+            />
+            <Text style={{ color: colors.secondaryText }}>Shown</Text>
+            <Switch
+              value={calendar.visible}
+              onValueChange={visible => run('Calendar', () => calendarService.updateCalendar(calendar.id, { visible }))}
+            />
+          </View>
+          <View style={styles.row}>
+            <ColorSwatches
+              value={calendar.color}
+              onChange={color => run('Calendar', () => calendarService.updateCalendar(calendar.id, { color }))}
+            />
+            {calendar.id !== DEFAULT_CALENDAR_ID && (
+              <Button title="Delete" color="red" onPress={() => onDelete(calendar)} />
+            )}
+          </View>
+        </View>
+      ))}
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>New calendar</Text>
+      <TextInput
+        style={inputStyle}
+        value={newName}
+        onChangeText={setNewName}
+        placeholder="Name, e.g. Work"
+        placeholderTextColor={colors.secondaryText}
+        onSubmitEditing={onAdd}
+      />
+      <View style={styles.row}>
+        <ColorSwatches value={newColor} onChange={setNewColor} />
+        <Button title="Add" onPress={onAdd} />
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  calendar: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 5,
+    padding: 10,
+    marginBottom: 10,
+  },
+  nameInput: {
+    flex: 1,
+    marginRight: 10,
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    flex: 1,
+  },
+  swatch: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 2,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+});
@@ -1,48 +1,245 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, TextInput, Button, StyleSheet } from 'react-native';
+import { View, Text, TextInput, Button, StyleSheet, ScrollView, TouchableOpacity, Alert, Switch } from 'react-native';
 import { useTheme } from '../contexts/ThemeContext';
+import { useSettings } from '../contexts/SettingsContext';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import calendarService from '../services/CalendarService';
+import { describeConflicts, describeTravelWarnings } from '../services/ActionParser';
+import travelService from '../services/TravelService';
+import RecurrencePicker from '../components/RecurrencePicker';
+import ReminderPicker from '../components/ReminderPicker';
+import CalendarPicker from '../components/CalendarPicker';
+import AttendeeEditor from '../components/AttendeeEditor';
+import DateTimeField from '../components/DateTimeField';
+import TimeZonePicker from '../components/TimeZonePicker';
+import { promptRecurrenceScope } from '../components/promptRecurrenceScope';
+import { convertWallClock, deviceTimeZone } from '../services/TimeZone';
+import { defaultCalendarId, formatTime } from '../services/SettingsService';
+import { Attendee, Event, RecurrenceRule } from '../types/Event';
+
+// Quick picks that set the end time relative to the start time.
+const DURATIONS: { label: string; minutes: number }[] = [
+  { label: '15m', minutes: 15 },
+  { label: '30m', minutes: 30 },
+  { label: '1h', minutes: 60 },
+  { label: '2h', minutes: 120 },
+];
+
+/**
+ * Returns the default start for a new event: the next full hour, moved
+ * onto `dateString` (YYYY-MM-DD) when the modal was opened from a
+ * selected day.
+ */
+function defaultStart(dateString?: string): Date {
+  const start = new Date();
+  start.setHours(start.getHours() + 1, 0, 0, 0);
+  if (dateString) {
+    const [year, month, day] = dateString.split('-').map(Number);
+    start.setFullYear(year, month - 1, day);
+  }
+  return start;
+}
+
+/** Returns local midnight of the given date's day, `days` days later. */
+function midnight(date: Date, days = 0): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  result.setDate(result.getDate() + days);
+  return result;
+}
 
 export default function EventModal() {
+  const params = useLocalSearchParams();
+  const eventId = params.eventId as string | undefined;
+  const { settings } = useSettings();
+  const defaultDuration = settings.defaultDurationMinutes * 60 * 1000;
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [location, setLocation] = useState('');
+  // Minutes of travel before the start, as typed; empty for none.
+  const [travel, setTravel] = useState('');
+  // startTime and endTime hold the wall-clock time in `timeZone`, as device-local Dates for the pickers.
+  const [timeZone, setTimeZone] = useState(deviceTimeZone);
+  const [startTime, setStartTime] = useState(() => defaultStart(params.date as string | undefined));
+  const [endTime, setEndTime] = useState(() => new Date(startTime.getTime() + defaultDuration));
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(undefined);
+  const [reminders, setReminders] = useState<number[] | undefined>(undefined);
+  const [attendees, setAttendees] = useState<Attendee[] | undefined>(undefined);
+  // New events start in the default calendar chosen in the settings.
+  const [calendarId, setCalendarId] = useState<string | undefined>(() => (eventId ? undefined : defaultCalendarId()));
+  // For all-day events startTime and endTime hold the first and last day.
+  const [allDay, setAllDay] = useState(false);
+  const [isOccurrence, setIsOccurrence] = useState(false);
   const router = useRouter();
-  const params = useLocalSearchParams();
-  const eventId = params.eventId as string | undefined;
 
   // Grab colours from the theme context so that the modal respects
   // dark/light mode.
   const { colors } = useTheme();
 
+  useEffect(() => {
+    travelService.init().catch(err => console.error('Failed to load travel times:', err));
+  }, []);
+
   useEffect(() => {
     if (eventId) {
       const event = calendarService.getEventById(eventId as string);
       if (event) {
         setTitle(event.title);
         setDescription(event.description || '');
+        setLocation(event.location ?? '');
+        setTravel(event.travelMinutes ? String(event.travelMinutes) : '');
+        setStartTime(convertWallClock(event.startTime, event.timeZone, undefined));
+        // Stored all-day events end at midnight after their last day.
+        setEndTime(
+          event.allDay ? midnight(event.endTime, -1) : convertWallClock(event.endTime, event.timeZone, undefined)
+        );
+        setAllDay(!!event.allDay);
+        setTimeZone(event.timeZone ?? deviceTimeZone());
+        setRecurrence(event.recurrence);
+        setReminders(event.reminders);
+        setCalendarId(event.calendarId);
+        setAttendees(event.attendees);
+        setIsOccurrence(!!event.seriesId);
       }
     }
   }, [eventId]);
 
-    const handleSave = async () => {
-    if (!title.trim()) {
-      alert('Title is required.');
+  // Moving the start keeps the event's duration.
+  const onChangeStart = (value: Date) => {
+    const duration = endTime.getTime() - startTime.getTime();
+    setStartTime(value);
+    setEndTime(new Date(value.getTime() + Math.max(duration, 0)));
+  };
+
+  const onToggleAllDay = (value: boolean) => {
+    setAllDay(value);
+    if (value) {
+      setStartTime(midnight(startTime));
+      setEndTime(midnight(endTime.getTime() < startTime.getTime() ? startTime : endTime));
+    } else {
+      const start = new Date(startTime);
+      start.setHours(9, 0, 0, 0);
+      setStartTime(start);
+      setEndTime(new Date(start.getTime() + defaultDuration));
+    }
+  };
+
+  // The instants the entered times stand for.
+  const actualStart = () => convertWallClock(startTime, undefined, timeZone);
+  const actualEnd = () => convertWallClock(endTime, undefined, timeZone);
+  const travelMinutes = () => (allDay ? undefined : parseInt(travel, 10) || undefined);
+
+  // The event as entered, for checking it against its neighbours.
+  const draft = (): Event => ({
+    ...(eventId ? calendarService.getEventById(eventId) : undefined),
+    id: eventId ?? '',
+    title,
+    startTime: actualStart(),
+    endTime: actualEnd(),
+    allDay: allDay || undefined,
+    location: location.trim() || undefined,
+    travelMinutes: travelMinutes(),
+  });
+
+  const onLookUpTravel = () => {
+    if (!location.trim()) {
+      Alert.alert('Travel time', 'Enter where the event is first.');
+      return;
+    }
+    const suggestion = calendarService.suggestTravelMinutes(draft());
+    if (suggestion) {
+      setTravel(String(suggestion.minutes));
+    } else {
+      Alert.alert(
+        'Travel time',
+        'There is no saved travel time from where the event before this one is. Add one under Settings > Travel times.'
+      );
+    }
+  };
+
+  const save = async () => {
+    const updates = {
+      title,
+      description,
+      location: location.trim() || undefined,
+      travelMinutes: travelMinutes(),
+      startTime: allDay ? midnight(startTime) : actualStart(),
+      endTime: allDay ? midnight(endTime, 1) : actualEnd(),
+      allDay: allDay || undefined,
+      timeZone: allDay ? undefined : timeZone,
+      recurrence,
+      reminders,
+      calendarId,
+      attendees,
+    };
+    if (eventId && isOccurrence) {
+      promptRecurrenceScope('Save Event', async scope => {
+        await calendarService.updateEvent(eventId as string, updates, scope);
+        router.back();
+      });
       return;
     }
 
     if (eventId) {
-      // Note: Manual update doesn't support changing time yet.
-      await calendarService.updateEvent(eventId as string, title, description);
+      await calendarService.updateEvent(eventId as string, updates);
     } else {
-      const now = new Date();
-      calendarService.createEvent(title, now.toISOString(), now.toISOString(), description);
+      calendarService.createEvent(
+        title,
+        updates.startTime.toISOString(),
+        updates.endTime.toISOString(),
+        description,
+        {
+          recurrence,
+          allDay: updates.allDay,
+          timeZone: updates.timeZone,
+          reminders,
+          calendarId,
+          attendees,
+          location: updates.location,
+          travelMinutes: updates.travelMinutes,
+        }
+      );
     }
     router.back();
   };
 
+  const handleSave = async () => {
+    if (!title.trim()) {
+      alert('Title is required.');
+      return;
+    }
+    const invalidRange = allDay
+      ? midnight(endTime).getTime() < midnight(startTime).getTime()
+      : endTime.getTime() <= startTime.getTime();
+    if (invalidRange) {
+      alert(allDay ? 'The last day cannot be before the first day.' : 'End time must be after the start time.');
+      return;
+    }
+    if (!allDay && travel.trim() && !/^\d+$/.test(travel.trim())) {
+      alert('Travel time must be a whole number of minutes.');
+      return;
+    }
+
+    // Warn before double-booking or leaving no time to get there; the user can still save.
+    // All-day events don't block time.
+    const conflicts = allDay ? [] : calendarService.findConflicts(actualStart(), actualEnd(), eventId, travelMinutes());
+    const travelWarnings = calendarService.findTravelWarnings(draft());
+    const problems = [
+      ...(conflicts.length > 0 ? [`This overlaps with ${describeConflicts(conflicts)}.`] : []),
+      ...(travelWarnings.length > 0 ? [`Travel: ${describeTravelWarnings(travelWarnings)}.`] : []),
+    ];
+    if (problems.length > 0) {
+      Alert.alert('Scheduling conflict', problems.join('\n\n'), [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Save anyway', onPress: save },
+      ]);
+      return;
+    }
+    await save();
+  };
+
   return (
-    <View style={[styles.container, { backgroundColor: colors.background }]}> 
+    <ScrollView style={{ backgroundColor: colors.background }} contentContainerStyle={styles.container}>
       <Text style={[styles.title, { color: colors.text }]}>Add/Edit Event</Text>
       <TextInput
         style={[
@@ -73,14 +270,75 @@ export default function EventModal() {
         onChangeText={setDescription}
         multiline
       />
+      <TextInput
+        style={[
+          styles.input,
+          {
+            borderColor: colors.inputBorder,
+            backgroundColor: colors.inputBackground,
+            color: colors.text,
+          },
+        ]}
+        placeholder="Location"
+        placeholderTextColor={colors.secondaryText}
+        value={location}
+        onChangeText={setLocation}
+      />
+      <CalendarPicker value={calendarId} onChange={setCalendarId} />
+      <View style={styles.allDayRow}>
+        <Text style={[styles.allDayLabel, { color: colors.text }]}>All-day</Text>
+        <Switch value={allDay} onValueChange={onToggleAllDay} />
+      </View>
+      <DateTimeField label="Starts" value={startTime} onChange={onChangeStart} mode={allDay ? 'date' : 'datetime'} />
+      <DateTimeField label="Ends" value={endTime} onChange={setEndTime} mode={allDay ? 'date' : 'datetime'} />
+      {!allDay && (
+        <View style={styles.durations}>
+          {DURATIONS.map(option => (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.duration, { borderColor: colors.inputBorder }]}
+              onPress={() => setEndTime(new Date(startTime.getTime() + option.minutes * 60 * 1000))}
+            >
+              <Text style={{ color: colors.text }}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {!allDay && (
+        <View style={styles.travelRow}>
+          <Text style={[styles.allDayLabel, { color: colors.text }]}>Travel time</Text>
+          <TextInput
+            style={[
+              styles.travelInput,
+              { borderColor: colors.inputBorder, backgroundColor: colors.inputBackground, color: colors.text },
+            ]}
+            placeholder="0"
+            placeholderTextColor={colors.secondaryText}
+            value={travel}
+            onChangeText={setTravel}
+            keyboardType="number-pad"
+          />
+          <Text style={{ color: colors.secondaryText }}>min</Text>
+          <Button title="Look up" onPress={onLookUpTravel} />
+        </View>
+      )}
+      {!allDay && <TimeZonePicker value={timeZone} onChange={setTimeZone} />}
+      {!allDay && timeZone !== deviceTimeZone() && (
+        <Text style={[styles.localHint, { color: colors.secondaryText }]}>
+          Your time: {actualStart().toLocaleDateString([], { weekday: 'short' })} {formatTime(actualStart(), settings.clock)}{' '}
+          - {formatTime(actualEnd(), settings.clock)}
+        </Text>
+      )}
+      <RecurrencePicker value={recurrence} onChange={setRecurrence} />
+      <ReminderPicker value={reminders} onChange={setReminders} />
+      <AttendeeEditor value={attendees} onChange={setAttendees} />
       <Button title="Save Event" onPress={handleSave} />
-    </View>
+    </ScrollView>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
     padding: 20,
   },
   title: {
@@ -95,4 +353,42 @@ const styles = StyleSheet.create({
     borderRadius: 5,
     marginBottom: 15,
   },
+  allDayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 15,
+  },
+  allDayLabel: {
+    fontSize: 16,
+  },
+  travelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  travelInput: {
+    borderWidth: 1,
+    borderRadius: 5,
+    padding: 8,
+    width: 60,
+    marginLeft: 'auto',
+    marginRight: 6,
+    textAlign: 'right',
+  },
+  localHint: {
+    marginTop: -5,
+    marginBottom: 15,
+  },
+  durations: {
+    flexDirection: 'row',
+    marginBottom: 15,
+  },
+  duration: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+  },
 });
@@ -1,8 +1,16 @@
 import React from 'react';
-import { View, Text, StyleSheet, Button } from 'react-native';
+import { View, Text, StyleSheet, Button, Alert } from 'react-native';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useSettings } from '../../contexts/SettingsContext';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import CalendarService from '../../services/CalendarService';
+import { describeRecurrence } from '../../services/Recurrence';
+import icsService from '../../services/IcsService';
+import { describeWhen } from '../../services/ActionParser';
+import { describeOriginalTime } from '../../services/TimeZone';
+import { describeReminder } from '../../services/Reminders';
+import { formatTime } from '../../services/SettingsService';
+import { RSVP_LABELS } from '../../services/Attendees';
 
 export default function EventDetailsModal() {
   const { eventId } = useLocalSearchParams<{ eventId: string }>();
@@ -11,6 +19,7 @@ export default function EventDetailsModal() {
 
   // Grab current theme colours
   const { colors } = useTheme();
+  const { settings } = useSettings();
 
   if (!event) {
     return (
@@ -20,12 +29,59 @@ export default function EventDetailsModal() {
     );
   }
 
+  const originalTime = describeOriginalTime(event, settings.clock === '12h');
+  const formatDateTime = (date: Date) => `${date.toLocaleDateString()} ${formatTime(date, settings.clock)}`;
+  const calendar = CalendarService.getCalendar(event.calendarId);
+
+  const onExport = async () => {
+    try {
+      const uri = await icsService.exportEvent(event.id);
+      Alert.alert('Export complete', `Saved to ${decodeURIComponent(uri)}`);
+    } catch (err) {
+      Alert.alert('Export failed', (err as Error).message);
+    }
+  };
+
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}> 
       <Text style={[styles.title, { color: colors.text }]}>{event.title}</Text>
       <Text style={[styles.time, { color: colors.secondaryText }]}>
-        {event.startTime.toLocaleString()} - {event.endTime.toLocaleString()}
+        {event.allDay ? describeWhen(event) : `${formatDateTime(event.startTime)} - ${formatDateTime(event.endTime)}`}
       </Text>
+      <View style={styles.calendarRow}>
+        <View style={[styles.calendarDot, { backgroundColor: calendar.color }]} />
+        <Text style={{ color: colors.secondaryText }}>{calendar.name}</Text>
+      </View>
+      {!!(event.location || event.travelMinutes) && (
+        <Text style={[styles.location, { color: colors.secondaryText }]}>
+          {[event.location, event.travelMinutes && `${event.travelMinutes} min travel before`].filter(Boolean).join(' · ')}
+        </Text>
+      )}
+      {originalTime && (
+        <Text style={[styles.zone, { color: colors.secondaryText }]}>
+          Scheduled for {originalTime} time
+        </Text>
+      )}
+      {event.recurrence && (
+        <Text style={[styles.recurrence, { color: colors.secondaryText }]}>{describeRecurrence(event.recurrence)}</Text>
+      )}
+      {event.reminders && event.reminders.length > 0 && (
+        <Text style={[styles.reminders, { color: colors.secondaryText }]}>
+          Reminders: {event.reminders.map(describeReminder).join(', ')}
+        </Text>
+      )}
+      {event.attendees && event.attendees.length > 0 && (
+        <View style={styles.attendees}>
+          <Text style={[styles.attendeesTitle, { color: colors.text }]}>Attendees</Text>
+          {event.attendees.map((attendee, index) => (
+            <Text key={index} style={{ color: colors.secondaryText }}>
+              {attendee.name}
+              {attendee.email && attendee.email !== attendee.name ? ` <${attendee.email}>` : ''}
+              {attendee.status ? ` · ${RSVP_LABELS[attendee.status]}` : ''}
+            </Text>
+          ))}
+        </View>
+      )}
       {event.description && (
         <Text style={[styles.description, { color: colors.secondaryText }]}>{event.description}</Text>
       )}
@@ -33,6 +89,7 @@ export default function EventDetailsModal() {
         title="Edit"
         onPress={() => router.push({ pathname: '/event-modal', params: { eventId: event.id } })}
       />
+      <Button title="Export .ics" onPress={onExport} />
     </View>
   );
 }
@@ -53,6 +110,47 @@ const styles = StyleSheet.create({
     color: '#555',
     marginBottom: 20,
   },
+  calendarRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: -10,
+    marginBottom: 20,
+  },
+  calendarDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  location: {
+    fontSize: 14,
+    marginTop: -10,
+    marginBottom: 20,
+  },
+  zone: {
+    fontSize: 14,
+    marginTop: -10,
+    marginBottom: 20,
+  },
+  recurrence: {
+    fontSize: 14,
+    marginTop: -10,
+    marginBottom: 20,
+  },
+  reminders: {
+    fontSize: 14,
+    marginTop: -10,
+    marginBottom: 20,
+  },
+  attendees: {
+    marginTop: -10,
+    marginBottom: 20,
+  },
+  attendeesTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
   description: {
     fontSize: 16,
   },
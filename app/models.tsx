@@ -0,0 +1,273 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Button, TouchableOpacity, Alert, TextInput, ScrollView, Platform } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import llmSettingsService from '../services/LLMSettingsService';
+import modelService, { ImportableModel, ImportProgress, ModelFile } from '../services/ModelService';
+
+const PHASE_LABELS: Record<ImportProgress['phase'], string> = {
+  download: 'Downloading',
+  copy: 'Copying',
+  verify: 'Verifying checksum',
+};
+
+/** Formats a size in bytes as MB or GB. */
+function formatSize(bytes: number): string {
+  const mb = bytes / (1024 * 1024);
+  return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${Math.round(mb)} MB`;
+}
+
+function describeProgress(progress: ImportProgress): string {
+  const label = PHASE_LABELS[progress.phase];
+  return progress.fraction === null ? `${label}…` : `${label}… ${Math.round(progress.fraction * 100)}%`;
+}
+
+/**
+ * Lists the GGUF models installed for the on-device provider and lets
+ * the user choose the active one, delete unused ones and import new ones
+ * from a URL or a file, optionally checked against a published checksum.
+ * The model itself is loaded by AIService when the settings change.
+ */
+export default function ModelsScreen() {
+  const { colors } = useTheme();
+  const [models, setModels] = useState<ModelFile[] | null>(null);
+  const [activeModel, setActiveModel] = useState(llmSettingsService.get().llama.model);
+  const [url, setUrl] = useState('');
+  const [checksum, setChecksum] = useState('');
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [importFiles, setImportFiles] = useState<ImportableModel[] | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setModels(await modelService.listModels());
+    } catch (err) {
+      Alert.alert('Models', `Could not list the models: ${(err as Error).message}`);
+      setModels([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    const onSettingsChange = () => setActiveModel(llmSettingsService.get().llama.model);
+    llmSettingsService.subscribe(onSettingsChange);
+    llmSettingsService.init().catch(err => console.error('Failed to load model settings:', err));
+    refresh();
+    return () => llmSettingsService.unsubscribe(onSettingsChange);
+  }, [refresh]);
+
+  const onSelect = (model: ModelFile) => {
+    llmSettingsService.update({ llama: { model: model.name } });
+  };
+
+  const onDelete = (model: ModelFile) => {
+    Alert.alert('Delete model', `Delete ${model.name} (${formatSize(model.size)})?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await modelService.deleteModel(model.name);
+            await refresh();
+          } catch (err) {
+            Alert.alert('Delete failed', (err as Error).message);
+          }
+        },
+      },
+    ]);
+  };
+
+  /** Runs an import, showing its progress, and refreshes the list afterwards. */
+  const runImport = async (phase: ImportProgress['phase'], start: () => Promise<string | null>) => {
+    setProgress({ phase, fraction: null });
+    try {
+      const name = await start();
+      if (name) {
+        setUrl('');
+        setChecksum('');
+        Alert.alert('Import complete', `${name} is ready to use.`);
+      }
+    } catch (err) {
+      Alert.alert('Import failed', (err as Error).message);
+    } finally {
+      setProgress(null);
+      await refresh();
+    }
+  };
+
+  const onDownload = () => {
+    if (!url.trim()) {
+      Alert.alert('Import', 'Enter the URL of a .gguf file.');
+      return;
+    }
+    runImport('download', () => modelService.importFromUrl(url, checksum, setProgress));
+  };
+
+  const onChooseFile = async () => {
+    try {
+      setImportFiles(await modelService.listImportableFiles());
+    } catch (err) {
+      Alert.alert('Import failed', (err as Error).message);
+    }
+  };
+
+  const onImportFile = (file: ImportableModel) => {
+    setImportFiles(null);
+    runImport('copy', () => modelService.importFromUri(file.uri, checksum, setProgress));
+  };
+
+  const inputStyle = [
+    styles.input,
+    { borderColor: colors.inputBorder, backgroundColor: colors.inputBackground, color: colors.text },
+  ];
+
+  return (
+    <ScrollView style={{ backgroundColor: colors.background }} contentContainerStyle={styles.container}>
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Installed</Text>
+      {models === null ? (
+        <Text style={{ color: colors.emptyText }}>Loading…</Text>
+      ) : models.length === 0 ? (
+        <Text style={{ color: colors.emptyText }}>No models found.</Text>
+      ) : (
+        models.map(model => {
+          const active = model.name === activeModel;
+          const details = [model.parameters, model.architecture, model.quantization, formatSize(model.size)]
+            .filter(Boolean)
+            .join(' · ');
+          return (
+            <TouchableOpacity
+              key={model.name}
+              style={[
+                styles.model,
+                { borderColor: active ? colors.userMessageBackground : colors.border },
+                { backgroundColor: colors.cardBackground },
+              ]}
+              onPress={() => onSelect(model)}
+            >
+              <View style={styles.modelText}>
+                <Text style={[styles.modelName, { color: colors.text }]}>
+                  {model.name}
+                  {active ? ' (active)' : ''}
+                </Text>
+                <Text style={{ color: colors.secondaryText }}>
+                  {details}
+                  {model.bundled ? ' · bundled' : ''}
+                </Text>
+              </View>
+              {!active && !model.bundled && <Button title="Delete" onPress={() => onDelete(model)} />}
+            </TouchableOpacity>
+          );
+        })
+      )}
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Import</Text>
+      <Text style={[styles.fieldLabel, { color: colors.secondaryText }]}>URL of a .gguf file</Text>
+      <TextInput
+        style={inputStyle}
+        value={url}
+        onChangeText={setUrl}
+        placeholder="https://huggingface.co/…/model-Q4_K_M.gguf"
+        placeholderTextColor={colors.secondaryText}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        editable={!progress}
+      />
+      <Text style={[styles.fieldLabel, { color: colors.secondaryText }]}>Checksum (SHA-256 or MD5, optional)</Text>
+      <TextInput
+        style={inputStyle}
+        value={checksum}
+        onChangeText={setChecksum}
+        placeholder="sha256:…"
+        placeholderTextColor={colors.secondaryText}
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!progress}
+      />
+      {progress ? (
+        <View style={styles.buttonRow}>
+          <Text style={{ color: colors.text }}>{describeProgress(progress)}</Text>
+          {progress.phase === 'download' && <Button title="Cancel" onPress={() => modelService.cancelImport()} />}
+        </View>
+      ) : (
+        <View style={styles.buttonRow}>
+          <Button title="Download" onPress={onDownload} />
+          {Platform.OS === 'android' && <Button title="Import from file" onPress={onChooseFile} />}
+        </View>
+      )}
+      {Platform.OS !== 'android' && (
+        <Text style={[styles.hint, { color: colors.secondaryText }]}>
+          Models copied into the app&apos;s folder in the Files app appear in the list above.
+        </Text>
+      )}
+      {importFiles && (
+        <View style={[styles.fileList, { borderColor: colors.border }]}>
+          {importFiles.length === 0 ? (
+            <Text style={{ color: colors.emptyText }}>No .gguf files found.</Text>
+          ) : (
+            importFiles.map(file => (
+              <TouchableOpacity key={file.uri} style={styles.fileItem} onPress={() => onImportFile(file)}>
+                <Text style={{ color: colors.text }}>{file.name}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+          <Button title="Cancel" onPress={() => setImportFiles(null)} />
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  model: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  modelText: {
+    flex: 1,
+  },
+  modelName: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 5,
+    padding: 10,
+    marginBottom: 10,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 10,
+  },
+  fileList: {
+    marginTop: 10,
+    borderWidth: 1,
+    borderRadius: 5,
+    padding: 10,
+  },
+  fileItem: {
+    paddingVertical: 8,
+  },
+});
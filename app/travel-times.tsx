@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Button, Alert, TextInput, ScrollView } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import travelService, { TravelRoute } from '../services/TravelService';
+
+/**
+ * Lists the saved travel times between places and lets the user add,
+ * change and delete them. They fill in the travel time of an event that
+ * follows one at another place.
+ */
+export default function TravelTimesScreen() {
+  const { colors } = useTheme();
+  const [routes, setRoutes] = useState<TravelRoute[]>(travelService.getRoutes());
+  const [origin, setOrigin] = useState('');
+  const [destination, setDestination] = useState('');
+  const [minutes, setMinutes] = useState('');
+
+  useEffect(() => {
+    const refresh = () => setRoutes(travelService.getRoutes());
+    travelService.subscribe(refresh);
+    travelService.init().catch(err => console.error('Failed to load travel times:', err));
+    return () => travelService.unsubscribe(refresh);
+  }, []);
+
+  const onAdd = async () => {
+    try {
+      await travelService.setRoute(origin, destination, /^\d+$/.test(minutes.trim()) ? parseInt(minutes, 10) : NaN);
+      setOrigin('');
+      setDestination('');
+      setMinutes('');
+    } catch (err) {
+      Alert.alert('Add travel time', (err as Error).message);
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    { borderColor: colors.inputBorder, backgroundColor: colors.inputBackground, color: colors.text },
+  ];
+
+  return (
+    <ScrollView style={{ backgroundColor: colors.background }} contentContainerStyle={styles.container}>
+      {routes.length === 0 && (
+        <Text style={[styles.empty, { color: colors.secondaryText }]}>
+          No travel times yet. Add how long it takes to get between the places you go to, and events that follow
+          one somewhere else can look it up.
+        </Text>
+      )}
+      {routes.map(route => (
+        <View
+          key={`${route.origin}\n${route.destination}`}
+          style={[styles.route, { borderColor: colors.border, backgroundColor: colors.cardBackground }]}
+        >
+          <Text style={[styles.routeText, { color: colors.text }]}>
+            {route.origin} ↔ {route.destination}
+          </Text>
+          <Text style={{ color: colors.secondaryText }}>{route.minutes} min</Text>
+          <Button
+            title="Delete"
+            color="red"
+            onPress={() => travelService.deleteRoute(route.origin, route.destination)}
+          />
+        </View>
+      ))}
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>New travel time</Text>
+      <TextInput
+        style={inputStyle}
+        value={origin}
+        onChangeText={setOrigin}
+        placeholder="From, e.g. Home"
+        placeholderTextColor={colors.secondaryText}
+      />
+      <TextInput
+        style={inputStyle}
+        value={destination}
+        onChangeText={setDestination}
+        placeholder="To, e.g. Office"
+        placeholderTextColor={colors.secondaryText}
+      />
+      <View style={styles.row}>
+        <TextInput
+          style={[inputStyle, styles.minutesInput]}
+          value={minutes}
+          onChangeText={setMinutes}
+          placeholder="Minutes"
+          placeholderTextColor={colors.secondaryText}
+          keyboardType="number-pad"
+          onSubmitEditing={onAdd}
+        />
+        <Button title="Save" onPress={onAdd} />
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+  },
+  empty: {
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  route: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  routeText: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 5,
+    padding: 10,
+    marginBottom: 10,
+  },
+  minutesInput: {
+    flex: 1,
+    marginRight: 10,
+  },
+});
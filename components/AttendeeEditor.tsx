@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Button, StyleSheet } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { isEmail, mergeAttendees, RSVP_LABELS } from '../services/Attendees';
+import { Attendee, RsvpStatus } from '../types/Event';
+
+interface AttendeeEditorProps {
+  value?: Attendee[];
+  onChange: (attendees: Attendee[] | undefined) => void;
+}
+
+// Tapping an attendee's status moves to the next one; no status means it is not tracked.
+const STATUS_CYCLE: (RsvpStatus | undefined)[] = [undefined, 'pending', 'accepted', 'tentative', 'declined'];
+
+/**
+ * Lists an event's attendees with their RSVP status and lets the user
+ * add people by name and optional email address, change a status or
+ * remove someone.
+ */
+const AttendeeEditor: React.FC<AttendeeEditorProps> = ({ value = [], onChange }) => {
+  const { colors } = useTheme();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (attendees: Attendee[]) => onChange(attendees.length > 0 ? attendees : undefined);
+
+  const onAdd = () => {
+    const trimmedEmail = email.trim();
+    if (trimmedEmail && !isEmail(trimmedEmail)) {
+      setError(`'${trimmedEmail}' is not an email address.`);
+      return;
+    }
+    const trimmedName = name.trim() || trimmedEmail;
+    if (!trimmedName) {
+      setError('Enter a name or an email address.');
+      return;
+    }
+    update(mergeAttendees(value, [{ name: trimmedName, email: trimmedEmail || undefined }]));
+    setName('');
+    setEmail('');
+    setError(null);
+  };
+
+  const cycleStatus = (index: number) => {
+    const next = STATUS_CYCLE[(STATUS_CYCLE.indexOf(value[index].status) + 1) % STATUS_CYCLE.length];
+    update(value.map((attendee, i) => (i === index ? { ...attendee, status: next } : attendee)));
+  };
+
+  const inputStyle = [
+    styles.input,
+    { borderColor: colors.inputBorder, backgroundColor: colors.inputBackground, color: colors.text },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: colors.text }]}>Attendees</Text>
+      {value.map((attendee, index) => (
+        <View key={`${attendee.email ?? attendee.name}-${index}`} style={[styles.row, { borderBottomColor: colors.border }]}>
+          <View style={styles.person}>
+            <Text style={{ color: colors.text }}>{attendee.name}</Text>
+            {attendee.email && attendee.email !== attendee.name && (
+              <Text style={[styles.email, { color: colors.secondaryText }]}>{attendee.email}</Text>
+            )}
+          </View>
+          <TouchableOpacity style={[styles.status, { borderColor: colors.inputBorder }]} onPress={() => cycleStatus(index)}>
+            <Text style={{ color: colors.text }}>{attendee.status ? RSVP_LABELS[attendee.status] : 'No RSVP'}</Text>
+          </TouchableOpacity>
+          <Button title="Remove" color="red" onPress={() => update(value.filter((_, i) => i !== index))} />
+        </View>
+      ))}
+      <View style={styles.addRow}>
+        <TextInput
+          style={inputStyle}
+          value={name}
+          onChangeText={setName}
+          placeholder="Name"
+          placeholderTextColor={colors.secondaryText}
+        />
+        <TextInput
+          style={inputStyle}
+          value={email}
+          onChangeText={setEmail}
+          placeholder="Email (optional)"
+          placeholderTextColor={colors.secondaryText}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="email-address"
+          onSubmitEditing={onAdd}
+        />
+        <Button title="Add" onPress={onAdd} />
+      </View>
+      {error && <Text style={styles.error}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  person: {
+    flex: 1,
+  },
+  email: {
+    fontSize: 12,
+  },
+  status: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginRight: 4,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 5,
+    padding: 8,
+    marginRight: 8,
+  },
+  error: {
+    color: 'red',
+    marginTop: 4,
+  },
+});
+
+export default AttendeeEditor;
@@ -3,17 +3,23 @@ import { View, StyleSheet } from 'react-native';
 import { Calendar, DateData } from 'react-native-calendars';
 import { MarkingProps } from 'react-native-calendars/src/calendar/day/marking';
 import { useTheme } from '../contexts/ThemeContext';
+import { useSettings } from '../contexts/SettingsContext';
 
 interface CalendarGridProps {
   markedDates: { [key: string]: MarkingProps };
   onDayPress: (day: DateData) => void;
+  /** A date (YYYY-MM-DD) in the month to show; defaults to today. */
+  current?: string;
+  /** Called when the user pages to another month. */
+  onMonthChange?: (month: DateData) => void;
 }
 
-const CalendarGrid: React.FC<CalendarGridProps> = ({ markedDates, onDayPress }) => {
+const CalendarGrid: React.FC<CalendarGridProps> = ({ current, markedDates, onDayPress, onMonthChange }) => {
   // Pull theme colours to customise the calendar appearance. Without
   // specifying a theme the calendar always renders with a light
   // background which looks out of place when dark mode is enabled.
   const { colors } = useTheme();
+  const { weekStartsOn } = useSettings().settings;
 
   const calendarTheme = {
     calendarBackground: colors.background,
@@ -30,10 +36,16 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({ markedDates, onDayPress })
   return (
     <View style={styles.container}>
       <Calendar
+        current={current}
         onDayPress={onDayPress}
+        onMonthChange={onMonthChange}
         monthFormat={'MMMM yyyy'}
         hideExtraDays={true}
-        firstDay={1} // Monday
+        firstDay={weekStartsOn}
+        // Multi-period rather than multi-dot: all-day and multi-day events
+        // need bars that join across days, and the calendar cannot mix
+        // bars with dots, so timed events get a short bar per calendar.
+        markingType="multi-period"
         markedDates={markedDates}
         theme={calendarTheme}
       />
@@ -0,0 +1,73 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import calendarService, { DEFAULT_CALENDAR_ID } from '../services/CalendarService';
+
+interface CalendarPickerProps {
+  /** Id of the chosen calendar; undefined for the default calendar. */
+  value?: string;
+  onChange: (calendarId: string | undefined) => void;
+}
+
+/** A row of buttons for choosing which calendar an event belongs to, each with the calendar's colour. */
+const CalendarPicker: React.FC<CalendarPickerProps> = ({ value, onChange }) => {
+  const { colors } = useTheme();
+  const selectedId = calendarService.getCalendar(value).id;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: colors.text }]}>Calendar</Text>
+      <View style={styles.options}>
+        {calendarService.getCalendars().map(calendar => {
+          const selected = calendar.id === selectedId;
+          return (
+            <TouchableOpacity
+              key={calendar.id}
+              style={[
+                styles.option,
+                { borderColor: calendar.color },
+                selected && { backgroundColor: calendar.color },
+              ]}
+              onPress={() => onChange(calendar.id === DEFAULT_CALENDAR_ID ? undefined : calendar.id)}
+            >
+              {!selected && <View style={[styles.dot, { backgroundColor: calendar.color }]} />}
+              <Text style={{ color: selected ? '#fff' : colors.text }}>{calendar.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+});
+
+export default CalendarPicker;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerAndroid, DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { useTheme } from '../contexts/ThemeContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { formatTime } from '../services/SettingsService';
+
+interface DateTimeFieldProps {
+  label: string;
+  value: Date;
+  onChange: (value: Date) => void;
+  /** 'date' hides the time, e.g. for all-day events. Defaults to 'datetime'. */
+  mode?: 'date' | 'datetime';
+}
+
+/**
+ * A labelled date and time input. iOS renders the compact inline
+ * picker; Android has no inline picker, so the date and time are shown
+ * as buttons that open the native dialogs.
+ */
+const DateTimeField: React.FC<DateTimeFieldProps> = ({ label, value, onChange, mode = 'datetime' }) => {
+  const { colors, isDark } = useTheme();
+  const { clock } = useSettings().settings;
+
+  const openAndroid = (pickerMode: 'date' | 'time') => {
+    DateTimePickerAndroid.open({
+      value,
+      mode: pickerMode,
+      is24Hour: clock === '24h',
+      onChange: (event: DateTimePickerEvent, selected?: Date) => {
+        if (event.type === 'set' && selected) {
+          onChange(selected);
+        }
+      },
+    });
+  };
+
+  return (
+    <View style={styles.row}>
+      <Text style={[styles.label, { color: colors.text }]}>{label}</Text>
+      {Platform.OS === 'android' ? (
+        <View style={styles.androidButtons}>
+          <TouchableOpacity
+            style={[styles.androidButton, { borderColor: colors.inputBorder, backgroundColor: colors.inputBackground }]}
+            onPress={() => openAndroid('date')}
+          >
+            <Text style={{ color: colors.text }}>{value.toLocaleDateString()}</Text>
+          </TouchableOpacity>
+          {mode === 'datetime' && (
+            <TouchableOpacity
+              style={[styles.androidButton, { borderColor: colors.inputBorder, backgroundColor: colors.inputBackground }]}
+              onPress={() => openAndroid('time')}
+            >
+              <Text style={{ color: colors.text }}>{formatTime(value, clock)}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : (
+        <DateTimePicker
+          value={value}
+          mode={mode}
+          display="compact"
+          themeVariant={isDark ? 'dark' : 'light'}
+          onChange={(_event: DateTimePickerEvent, selected?: Date) => selected && onChange(selected)}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+  },
+  androidButtons: {
+    flexDirection: 'row',
+  },
+  androidButton: {
+    borderWidth: 1,
+    borderRadius: 5,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+});
+
+export default DateTimeField;
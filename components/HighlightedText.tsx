@@ -0,0 +1,34 @@
+import React from 'react';
+import { Text, StyleProp, TextStyle } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { HighlightSegment } from '../services/SearchService';
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[];
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+/** Renders search result text with the parts that matched the query marked. */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ segments, style, numberOfLines }) => {
+  const { colors } = useTheme();
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <Text
+            key={index}
+            style={{ fontWeight: 'bold', color: colors.userMessageText, backgroundColor: colors.userMessageBackground }}
+          >
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </Text>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { RecurrenceFrequency, RecurrenceRule } from '../types/Event';
+
+interface RecurrencePickerProps {
+  value?: RecurrenceRule;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+const OPTIONS: { label: string; freq?: RecurrenceFrequency }[] = [
+  { label: 'Never' },
+  { label: 'Daily', freq: 'DAILY' },
+  { label: 'Weekly', freq: 'WEEKLY' },
+  { label: 'Monthly', freq: 'MONTHLY' },
+  { label: 'Yearly', freq: 'YEARLY' },
+];
+
+/**
+ * A row of toggle buttons for choosing how often an event repeats.
+ * Selecting the frequency the rule already has keeps its other parts
+ * (interval, BYDAY, COUNT, UNTIL); switching frequency starts a fresh
+ * rule that repeats on the event's own start day.
+ */
+const RecurrencePicker: React.FC<RecurrencePickerProps> = ({ value, onChange }) => {
+  const { colors } = useTheme();
+
+  const select = (freq?: RecurrenceFrequency) => {
+    if (!freq) {
+      onChange(undefined);
+    } else if (value?.freq !== freq) {
+      onChange({ freq });
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: colors.text }]}>Repeat</Text>
+      <View style={styles.options}>
+        {OPTIONS.map(option => {
+          const selected = (value?.freq ?? undefined) === option.freq;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[
+                styles.option,
+                { borderColor: colors.inputBorder },
+                selected && { backgroundColor: colors.userMessageBackground },
+              ]}
+              onPress={() => select(option.freq)}
+            >
+              <Text style={{ color: selected ? colors.userMessageText : colors.text }}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+});
+
+export default RecurrencePicker;
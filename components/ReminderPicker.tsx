@@ -0,0 +1,87 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { describeReminder, normalizeReminders } from '../services/Reminders';
+
+interface ReminderPickerProps {
+  value?: number[];
+  onChange: (reminders: number[] | undefined) => void;
+}
+
+// Offsets offered in the editor, in minutes before the start.
+const OPTIONS: { label: string; minutes: number }[] = [
+  { label: 'At start', minutes: 0 },
+  { label: '5m', minutes: 5 },
+  { label: '10m', minutes: 10 },
+  { label: '30m', minutes: 30 },
+  { label: '1h', minutes: 60 },
+  { label: '1d', minutes: 24 * 60 },
+];
+
+/**
+ * A row of toggle buttons for an event's reminders; any number can be
+ * on at once. Offsets set elsewhere (e.g. by the assistant) that are not
+ * among the options are listed too so that they can be turned off.
+ */
+const ReminderPicker: React.FC<ReminderPickerProps> = ({ value = [], onChange }) => {
+  const { colors } = useTheme();
+  const options = [
+    ...OPTIONS,
+    ...value
+      .filter(minutes => !OPTIONS.some(option => option.minutes === minutes))
+      .map(minutes => ({ label: describeReminder(minutes), minutes })),
+  ];
+
+  const toggle = (minutes: number) => {
+    const next = value.includes(minutes) ? value.filter(m => m !== minutes) : normalizeReminders([...value, minutes]);
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: colors.text }]}>Remind me</Text>
+      <View style={styles.options}>
+        {options.map(option => {
+          const selected = value.includes(option.minutes);
+          return (
+            <TouchableOpacity
+              key={option.minutes}
+              style={[
+                styles.option,
+                { borderColor: colors.inputBorder },
+                selected && { backgroundColor: colors.userMessageBackground },
+              ]}
+              onPress={() => toggle(option.minutes)}
+            >
+              <Text style={{ color: selected ? colors.userMessageText : colors.text }}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+});
+
+export default ReminderPicker;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { formatDue, isOverdue, PRIORITY_LABELS } from '../services/Tasks';
+import { Task } from '../types/Task';
+
+interface TaskRowProps {
+  task: Task;
+  /** Called when the checkbox is tapped; the checkbox is disabled without it. */
+  onToggle?: () => void;
+  /** Hides the due day, e.g. in a list of the tasks due on one day. */
+  hideDue?: boolean;
+  /** Shown at the end of the row, e.g. a delete button. */
+  children?: React.ReactNode;
+}
+
+/**
+ * One task with a checkbox, its title (struck through once done), its
+ * due day (red when overdue) and its priority unless that is medium.
+ */
+const TaskRow: React.FC<TaskRowProps> = ({ task, onToggle, hideDue, children }) => {
+  const { colors } = useTheme();
+  const overdue = isOverdue(task);
+  const details = [
+    !hideDue && task.due ? `Due ${formatDue(task.due)}` : undefined,
+    task.priority !== 'medium' ? `${PRIORITY_LABELS[task.priority]} priority` : undefined,
+  ].filter(Boolean);
+
+  return (
+    <View style={styles.row}>
+      <TouchableOpacity style={styles.checkbox} onPress={onToggle} disabled={!onToggle}>
+        <FontAwesome
+          name={task.done ? 'check-square-o' : 'square-o'}
+          size={22}
+          color={task.done ? colors.secondaryText : colors.userMessageBackground}
+        />
+      </TouchableOpacity>
+      <View style={styles.text}>
+        <Text style={[{ color: task.done ? colors.secondaryText : colors.text }, task.done && styles.done]}>
+          {task.title}
+        </Text>
+        {details.length > 0 && (
+          <Text style={[styles.details, { color: overdue ? 'red' : colors.secondaryText }]}>{details.join(' · ')}</Text>
+        )}
+      </View>
+      {children}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  checkbox: {
+    width: 32,
+  },
+  text: {
+    flex: 1,
+  },
+  done: {
+    textDecorationLine: 'line-through',
+  },
+  details: {
+    fontSize: 12,
+  },
+});
+
+export default TaskRow;
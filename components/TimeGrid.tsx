@@ -0,0 +1,297 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useTheme } from '../contexts/ThemeContext';
+import { useSettings } from '../contexts/SettingsContext';
+import calendarService from '../services/CalendarService';
+import { ClockFormat, formatTime } from '../services/SettingsService';
+import { Event } from '../types/Event';
+import { layoutBanner, layoutDay } from './timeGridLayout';
+
+// Height of one hour in the grid.
+export const HOUR_HEIGHT = 48;
+// Short events are drawn at least this tall so that they stay tappable.
+const MIN_BLOCK_HEIGHT = 18;
+// Blocks shorter than this only show the title.
+const TIME_LABEL_MIN_HEIGHT = 36;
+const GUTTER_WIDTH = 50;
+// Height of one row of the all-day banner strip.
+const BANNER_HEIGHT = 22;
+// Width of the stripe in the calendar's colour on the left of each block.
+const CALENDAR_STRIPE_WIDTH = 4;
+// Distance between the diagonal lines of a travel block.
+const HATCH_SPACING = 8;
+// Travel blocks are hatched across this width, enough for the widest day column.
+const HATCH_WIDTH = 360;
+
+interface TimeGridProps {
+  /** The days shown side by side, each as any time on that day. */
+  days: Date[];
+  /** Events to lay out; those outside the days are ignored. */
+  events: Event[];
+  /** Called when the header of a day is tapped; headers are shown for more than one day. */
+  onDayPress?: (day: Date) => void;
+}
+
+// Hour labels, e.g. "3 PM" or "15:00".
+const formatHour = (hour: number, clock: ClockFormat) => {
+  const date = new Date();
+  date.setHours(hour, 0, 0, 0);
+  return clock === '12h'
+    ? date.toLocaleTimeString('en-US', { hour: 'numeric', hour12: true })
+    : `${String(hour).padStart(2, '0')}:00`;
+};
+
+interface TravelBlockProps {
+  top: number;
+  height: number;
+  left: `${number}%`;
+  width: `${number}%`;
+  color: string;
+}
+
+/** The time set aside to travel to an event, hatched with diagonal lines in the event's calendar colour. */
+const TravelBlock: React.FC<TravelBlockProps> = ({ top, height, left, width, color }) => (
+  <View pointerEvents="none" style={[styles.travelBlock, { top, height, left, width, borderColor: color }]}>
+    {Array.from({ length: Math.ceil((HATCH_WIDTH + height) / HATCH_SPACING) }, (_, i) => (
+      <View
+        key={i}
+        style={[
+          styles.hatch,
+          { left: i * HATCH_SPACING - height / 2, top: -height, height: height * 3, backgroundColor: color },
+        ]}
+      />
+    ))}
+  </View>
+);
+
+/**
+ * A time grid with one column per day. Events are drawn with heights
+ * proportional to their duration, and overlapping events are placed
+ * side by side (see layoutDay). All-day and multi-day events are shown
+ * as bars in a strip above the grid instead. Each block has a stripe in
+ * its calendar's colour, and a hatched block above it for any travel
+ * time. Tapping an event opens its details.
+ */
+const TimeGrid: React.FC<TimeGridProps> = ({ days, events, onDayPress }) => {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { clock } = useSettings().settings;
+  const hours = Array.from({ length: 24 }, (_, i) => i);
+  const today = new Date().toDateString();
+  const banners = layoutBanner(events, days);
+  const bannerLanes = banners.reduce((lanes, banner) => Math.max(lanes, banner.lane + 1), 0);
+  const openDetails = (eventId: string) => router.push({ pathname: '/modal/event-details', params: { eventId } });
+
+  return (
+    <View>
+      {days.length > 1 && (
+        <View style={[styles.headerRow, { borderBottomColor: colors.border }]}>
+          <View style={styles.gutter} />
+          {days.map(day => (
+            <TouchableOpacity key={day.toDateString()} style={styles.dayHeader} onPress={() => onDayPress?.(day)}>
+              <Text style={[styles.weekday, { color: colors.secondaryText }]}>
+                {day.toLocaleDateString([], { weekday: 'short' })}
+              </Text>
+              <Text
+                style={[
+                  styles.dayNumber,
+                  { color: day.toDateString() === today ? colors.userMessageBackground : colors.text },
+                ]}
+              >
+                {day.getDate()}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {banners.length > 0 && (
+        <View style={[styles.bannerRow, { borderBottomColor: colors.border }]}>
+          <View style={styles.gutter}>
+            <Text style={[styles.allDayLabel, { color: colors.secondaryText }]}>all-day</Text>
+          </View>
+          <View style={[styles.bannerLanes, { height: bannerLanes * BANNER_HEIGHT }]}>
+            {banners.map(({ event, startColumn, span, lane, continuesBefore, continuesAfter }) => (
+              <TouchableOpacity
+                key={event.id}
+                style={[
+                  styles.banner,
+                  {
+                    top: lane * BANNER_HEIGHT,
+                    left: `${(startColumn / days.length) * 100}%`,
+                    width: `${(span / days.length) * 100}%`,
+                    backgroundColor: colors.eventBlockBackground,
+                    borderColor: colors.background,
+                    borderLeftColor: calendarService.getCalendar(event.calendarId).color,
+                  },
+                ]}
+                onPress={() => openDetails(event.id)}
+              >
+                <Text style={[styles.eventTitle, { color: colors.eventBlockText }]} numberOfLines={1}>
+                  {continuesBefore ? '‹ ' : ''}
+                  {event.title}
+                  {continuesAfter ? ' ›' : ''}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+      <View style={[styles.grid, { height: 24 * HOUR_HEIGHT }]}>
+        <View style={styles.gutter}>
+          {hours.map(hour => (
+            <Text key={hour} style={[styles.hourLabel, { top: hour * HOUR_HEIGHT, color: colors.secondaryText }]}>
+              {formatHour(hour, clock)}
+            </Text>
+          ))}
+        </View>
+        {days.map(day => (
+          <View key={day.toDateString()} style={[styles.dayColumn, { borderLeftColor: colors.border }]}>
+            {hours.map(hour => (
+              <View
+                key={hour}
+                style={[styles.hourLine, { top: hour * HOUR_HEIGHT, borderTopColor: colors.border }]}
+              />
+            ))}
+            {layoutDay(events, day).map(({ event, top, height, travel, column, columns }) => {
+              const blockHeight = Math.max(((height - travel) / 60) * HOUR_HEIGHT, MIN_BLOCK_HEIGHT);
+              const left = `${(column / columns) * 100}%` as const;
+              const width = `${100 / columns}%` as const;
+              const color = calendarService.getCalendar(event.calendarId).color;
+              return (
+                <React.Fragment key={event.id}>
+                  {travel > 0 && (
+                    <TravelBlock
+                      top={(top / 60) * HOUR_HEIGHT}
+                      height={(travel / 60) * HOUR_HEIGHT}
+                      left={left}
+                      width={width}
+                      color={color}
+                    />
+                  )}
+                  <TouchableOpacity
+                    style={[
+                      styles.eventBlock,
+                      {
+                        top: ((top + travel) / 60) * HOUR_HEIGHT,
+                        height: blockHeight,
+                        left,
+                        width,
+                        backgroundColor: colors.eventBlockBackground,
+                        borderColor: colors.background,
+                        borderLeftColor: color,
+                      },
+                    ]}
+                    onPress={() => openDetails(event.id)}
+                  >
+                    <Text style={[styles.eventTitle, { color: colors.eventBlockText }]} numberOfLines={1}>
+                      {event.title}
+                    </Text>
+                    {blockHeight >= TIME_LABEL_MIN_HEIGHT && (
+                      <Text style={[styles.eventTime, { color: colors.secondaryText }]} numberOfLines={1}>
+                        {formatTime(event.startTime, clock)} - {formatTime(event.endTime, clock)}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                </React.Fragment>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  headerRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    paddingBottom: 5,
+  },
+  dayHeader: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  weekday: {
+    fontSize: 12,
+  },
+  dayNumber: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  bannerRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    paddingVertical: 2,
+  },
+  allDayLabel: {
+    fontSize: 11,
+    textAlign: 'right',
+    paddingRight: 6,
+  },
+  bannerLanes: {
+    flex: 1,
+  },
+  banner: {
+    position: 'absolute',
+    height: BANNER_HEIGHT - 2,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderLeftWidth: CALENDAR_STRIPE_WIDTH,
+    paddingHorizontal: 4,
+    justifyContent: 'center',
+  },
+  grid: {
+    flexDirection: 'row',
+  },
+  gutter: {
+    width: GUTTER_WIDTH,
+  },
+  hourLabel: {
+    position: 'absolute',
+    right: 6,
+    fontSize: 11,
+    marginTop: -7,
+  },
+  dayColumn: {
+    flex: 1,
+    borderLeftWidth: 1,
+  },
+  hourLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  eventBlock: {
+    position: 'absolute',
+    borderRadius: 4,
+    borderWidth: 1,
+    borderLeftWidth: CALENDAR_STRIPE_WIDTH,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  travelBlock: {
+    position: 'absolute',
+    borderRadius: 4,
+    borderWidth: 1,
+    overflow: 'hidden',
+    opacity: 0.5,
+  },
+  hatch: {
+    position: 'absolute',
+    width: 1,
+    transform: [{ rotate: '45deg' }],
+  },
+  eventTitle: {
+    fontWeight: 'bold',
+    fontSize: 12,
+  },
+  eventTime: {
+    fontSize: 11,
+  },
+});
+
+export default TimeGrid;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { COMMON_TIME_ZONES, deviceTimeZone, zoneLabel } from '../services/TimeZone';
+
+interface TimeZonePickerProps {
+  value?: string;
+  onChange: (timeZone: string) => void;
+}
+
+/**
+ * A scrolling row of zones to schedule an event in. The device's zone
+ * comes first, and a zone the event already has is kept in the list
+ * even when it is not one of the common ones.
+ */
+const TimeZonePicker: React.FC<TimeZonePickerProps> = ({ value, onChange }) => {
+  const { colors } = useTheme();
+  const device = deviceTimeZone();
+  const zones = [device, value, ...COMMON_TIME_ZONES].filter(
+    (zone, index, all): zone is string => !!zone && all.indexOf(zone) === index
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: colors.text }]}>Time zone</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {zones.map(zone => {
+          const selected = zone === value;
+          return (
+            <TouchableOpacity
+              key={zone}
+              style={[
+                styles.option,
+                { borderColor: colors.inputBorder },
+                selected && { backgroundColor: colors.userMessageBackground },
+              ]}
+              onPress={() => onChange(zone)}
+            >
+              <Text style={{ color: selected ? colors.userMessageText : colors.text }}>
+                {zone === device ? `${zoneLabel(zone)} (device)` : zoneLabel(zone)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+  },
+});
+
+export default TimeZonePicker;
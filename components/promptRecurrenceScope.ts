@@ -0,0 +1,21 @@
+import { Alert } from 'react-native';
+import { RecurrenceEditScope } from '../types/Event';
+
+/**
+ * Asks the user which part of a recurring series an edit or delete
+ * should apply to. `onSelect` is only called when a scope is chosen;
+ * dismissing the alert cancels the operation.
+ */
+export function promptRecurrenceScope(
+  title: string,
+  onSelect: (scope: RecurrenceEditScope) => void,
+  destructive = false
+) {
+  const style = destructive ? 'destructive' : 'default';
+  Alert.alert(title, 'This is a repeating event.', [
+    { text: 'This event', style, onPress: () => onSelect('this') },
+    { text: 'This and following events', style, onPress: () => onSelect('following') },
+    { text: 'All events', style, onPress: () => onSelect('series') },
+    { text: 'Cancel', style: 'cancel' },
+  ]);
+}
@@ -0,0 +1,153 @@
+import { Event } from '../types/Event';
+import { travelStart } from '../services/Travel';
+
+export const MINUTES_PER_DAY = 24 * 60;
+const DAY_MS = MINUTES_PER_DAY * 60 * 1000;
+
+/**
+ * Returns true for events shown in the banner strip above the time grid
+ * rather than in it: all-day events and events lasting a day or more.
+ */
+export function isBannerEvent(event: Event): boolean {
+  return !!event.allDay || event.endTime.getTime() - event.startTime.getTime() >= DAY_MS;
+}
+
+/**
+ * Where a banner event sits in the strip: it covers `span` day columns
+ * from `startColumn`, in row `lane`. The `continues` flags are set when
+ * it runs on beyond the days shown.
+ */
+export type PositionedBanner = {
+  event: Event;
+  startColumn: number;
+  span: number;
+  lane: number;
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+};
+
+/**
+ * Where an event sits in one day's column of a time grid. `top` and
+ * `height` are in minutes from midnight, clipped to the day, and include
+ * the event's travel buffer, which takes up the first `travel` minutes.
+ * Events that overlap share the width: the event occupies column
+ * `column` of `columns` equal columns.
+ */
+export type PositionedEvent = {
+  event: Event;
+  top: number;
+  height: number;
+  travel: number;
+  column: number;
+  columns: number;
+};
+
+/** Wall-clock minutes since midnight of `date`, clamped to [dayStart, dayEnd]. */
+function minutesIntoDay(date: Date, dayStart: Date, dayEnd: Date): number {
+  if (date.getTime() <= dayStart.getTime()) return 0;
+  if (date.getTime() >= dayEnd.getTime()) return MINUTES_PER_DAY;
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+/**
+ * Lays out the events that overlap `day` for a proportional time grid.
+ * Events that overlap, directly or through a chain of other events, form
+ * a cluster; each event takes the leftmost column that is free at its
+ * start, and every event in a cluster is given the cluster's column
+ * count so that their widths line up.
+ */
+export function layoutDay(events: Event[], day: Date): PositionedEvent[] {
+  const dayStart = new Date(day);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+
+  const items = events
+    .filter(
+      event =>
+        !isBannerEvent(event) &&
+        travelStart(event).getTime() < dayEnd.getTime() &&
+        event.endTime.getTime() > dayStart.getTime()
+    )
+    .map(event => {
+      const top = minutesIntoDay(travelStart(event), dayStart, dayEnd);
+      const start = minutesIntoDay(event.startTime, dayStart, dayEnd);
+      const bottom = Math.max(minutesIntoDay(event.endTime, dayStart, dayEnd), start);
+      return { event, top, height: bottom - top, travel: start - top, column: 0, columns: 1 };
+    })
+    // Earlier first; of two starting together the longer goes left.
+    .sort((a, b) => a.top - b.top || b.height - a.height);
+
+  let cluster: PositionedEvent[] = [];
+  // The end (in minutes) of the last event placed in each column of the current cluster.
+  let columnEnds: number[] = [];
+  const closeCluster = () => {
+    cluster.forEach(item => (item.columns = columnEnds.length));
+    cluster = [];
+    columnEnds = [];
+  };
+
+  for (const item of items) {
+    const bottom = item.top + item.height;
+    if (cluster.length > 0 && columnEnds.every(end => end <= item.top)) {
+      closeCluster();
+    }
+    let column = columnEnds.findIndex(end => end <= item.top);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(bottom);
+    } else {
+      columnEnds[column] = bottom;
+    }
+    item.column = column;
+    cluster.push(item);
+  }
+  closeCluster();
+  return items;
+}
+
+/**
+ * Lays out the banner events overlapping `days` (consecutive days, one
+ * column each). Each event takes the first lane that is free for all of
+ * its days, so a multi-day event stays on one row.
+ */
+export function layoutBanner(events: Event[], days: Date[]): PositionedBanner[] {
+  const dayRanges = days.map(day => {
+    const start = new Date(day);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+    return { start: start.getTime(), end: end.getTime() };
+  });
+  const items: PositionedBanner[] = [];
+  events.filter(isBannerEvent).forEach(event => {
+    const columns = dayRanges
+      .map((range, index) =>
+        event.startTime.getTime() < range.end && event.endTime.getTime() > range.start ? index : -1
+      )
+      .filter(index => index !== -1);
+    if (columns.length === 0) return;
+    items.push({
+      event,
+      startColumn: columns[0],
+      span: columns[columns.length - 1] - columns[0] + 1,
+      lane: 0,
+      continuesBefore: event.startTime.getTime() < dayRanges[0].start,
+      continuesAfter: event.endTime.getTime() > dayRanges[dayRanges.length - 1].end,
+    });
+  });
+
+  items.sort((a, b) => a.startColumn - b.startColumn || b.span - a.span);
+  // The last column used in each lane.
+  const laneEnds: number[] = [];
+  items.forEach(item => {
+    let lane = laneEnds.findIndex(end => end < item.startColumn);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(0);
+    }
+    laneEnds[lane] = item.startColumn + item.span - 1;
+    item.lane = lane;
+  });
+  return items;
+}
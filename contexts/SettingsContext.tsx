@@ -0,0 +1,38 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import settingsService, { AppSettings, DEFAULT_APP_SETTINGS } from '../services/SettingsService';
+
+interface SettingsContextValue {
+  /** The current settings; defaults until the stored ones have loaded. */
+  settings: AppSettings;
+  /** Changes some of the settings and persists them. */
+  updateSettings: (changes: Partial<AppSettings>) => Promise<void>;
+}
+
+const SettingsContext = createContext<SettingsContextValue>({
+  settings: DEFAULT_APP_SETTINGS,
+  updateSettings: async () => {},
+});
+
+const updateSettings = (changes: Partial<AppSettings>) => settingsService.update(changes);
+
+/**
+ * Loads the settings stored by SettingsService and re-renders its
+ * children whenever they change, whoever changed them.
+ */
+export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState(settingsService.get());
+
+  useEffect(() => {
+    const onChange = () => setSettings(settingsService.get());
+    settingsService.subscribe(onChange);
+    settingsService.init().catch(err => console.error('Failed to load settings:', err));
+    return () => settingsService.unsubscribe(onChange);
+  }, []);
+
+  return <SettingsContext.Provider value={{ settings, updateSettings }}>{children}</SettingsContext.Provider>;
+};
+
+/** Hook to access the app settings and change them. */
+export function useSettings() {
+  return useContext(SettingsContext);
+}
@@ -1,8 +1,10 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, ReactNode } from 'react';
+import { useSettings } from './SettingsContext';
 
 /**
  * A simple theme context that exposes whether the dark theme is currently
- * enabled along with a toggle function. The context also provides a
+ * enabled along with a toggle function. The choice is kept in the app
+ * settings, so ThemeProvider must be inside a SettingsProvider. The context also provides a
  * collection of color values that are consumed by the UI to style
  * components consistently. If you need to add more tokens for future
  * screens just append them to the lightColors/darkColors objects below
@@ -78,9 +80,12 @@ const ThemeContext = createContext<ThemeContextValue>({
 });
 
 export const ThemeProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [isDark, setIsDark] = useState(false);
+  const { settings, updateSettings } = useSettings();
+  const isDark = settings.darkMode;
 
-  const toggleTheme = () => setIsDark(prev => !prev);
+  const toggleTheme = () => {
+    updateSettings({ darkMode: !isDark });
+  };
 
   const colors = isDark ? darkColors : lightColors;
 
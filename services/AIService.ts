@@ -1,148 +1,220 @@
 
 
-import { initLlama } from 'llama.rn';
-import { Asset } from 'expo-asset';
-import * as FileSystem from 'expo-file-system';
+import { ChatMessage } from './ChatStorageService';
+import { describeResult } from './ActionParser';
+import { ACTION_GRAMMAR } from './ActionGrammar';
+import { buildSystemPrompt } from './SystemPrompt';
+import { LLMMessage, LLMProvider } from './LLMProvider';
+import { LlamaProvider } from './LlamaProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import llmSettingsService, { LLMSettings } from './LLMSettingsService';
+import calendarService from './CalendarService';
+import settingsService from './SettingsService';
+
+// Maximum number of tokens generated per reply; reserved in the window.
+// Enough for a few commands when the user asks for several things at once.
+const N_PREDICT = 512;
+// The smallest reply budget worth generating with: about one command.
+const MIN_PREDICT = 128;
+/** How many earlier messages the chat offers as context; older turns are dropped first when they do not fit. */
+export const MAX_HISTORY_MESSAGES = 12;
 
 /**
- * AIService has been rewritten to use an on‑device language model via
- * llama.rn rather than making network requests to a remote API.  It
- * initialises a Llama context lazily when the first chat request
- * arrives.  The GGUF model is bundled under assets/models and is
- * copied into a writable location at runtime before being loaded.
+ * Converts a stored chat message into a turn for the model. Assistant
+ * turns repeat the model's own command followed by what it did, so
+ * follow-ups such as "actually make it 4pm" can refer back to it.
+ */
+function toLLMMessage(message: ChatMessage): LLMMessage {
+  if (message.role === 'user') {
+    return { role: 'user', content: describeResult(message.content) };
+  }
+  const result = describeResult(message.content);
+  return {
+    role: 'assistant',
+    content: message.modelOutput ? `${message.modelOutput}\nResult: ${result}` : result,
+  };
+}
+
+/** Thrown when the system prompt and the new message alone leave no room for a reply; the message is the reply. */
+class ContextOverflow extends Error {}
+
+/** Creates the provider the settings choose. */
+function createProvider(settings: LLMSettings): LLMProvider {
+  return settings.provider === 'openai' ? new OpenAIProvider(settings.openai) : new LlamaProvider(settings.llama);
+}
+
+/**
+ * AIService turns a chat message into the model's reply. The model is
+ * reached through an LLMProvider: by default the bundled GGUF model on
+ * the device (LlamaProvider), or any OpenAI-compatible server
+ * (OpenAIProvider), as chosen in Settings. The provider is replaced
+ * whenever those settings change.
  */
 class AIService {
-  private context: any | null = null;
-  private initPromise: Promise<void> | null = null;
+  private provider: LLMProvider | null = null;
+  private providerKey = '';
+  // Settles once every replaced provider has been released, so that a
+  // new model is never loaded while the previous one is still in memory.
+  private released: Promise<void> = Promise.resolve();
+
+  constructor() {
+    llmSettingsService.subscribe(() => {
+      this.getProvider();
+    });
+  }
 
   /**
-   * Ensures the Llama context has been initialised.  If not yet
-   * initialised, this method will download the bundled model asset,
-   * copy it into a document directory and call initLlama().  Subsequent
-   * calls reuse the existing context.
+   * Returns the provider for the current settings, releasing the
+   * previous one when the settings it depends on have changed. Changing
+   * only the temperature keeps the loaded model.
    */
-  private async ensureInitialized(): Promise<void> {
-    if (this.context) {
-      return;
-    }
-    if (this.initPromise) {
-      await this.initPromise;
-      return;
+  private getProvider(): LLMProvider {
+    const settings = llmSettingsService.get();
+    const key = JSON.stringify(
+      settings.provider === 'openai'
+        ? { provider: settings.provider, openai: settings.openai }
+        : { provider: settings.provider, llama: settings.llama }
+    );
+    if (!this.provider || key !== this.providerKey) {
+      const previous = this.provider;
+      if (previous) {
+        this.released = Promise.all([
+          this.released,
+          previous.release().catch(err => console.warn('Failed to release the previous model provider:', err)),
+        ]).then(() => undefined);
+      }
+      this.provider = createProvider(settings);
+      this.providerKey = key;
     }
-    this.initPromise = this.initializeContext();
-    await this.initPromise;
+    return this.provider;
+  }
+
+  /** Returns the current provider once any it replaced has been released. */
+  private async readyProvider(): Promise<LLMProvider> {
+    await llmSettingsService.init();
+    const provider = this.getProvider();
+    await this.released;
+    return provider;
   }
 
   /**
    * Public initialisation method.  Components can call this when
-   * mounting to warm up the Llama context in the background.  It
-   * returns a promise that resolves once the model is ready.  Calling
-   * init() multiple times is safe: subsequent calls will await the
-   * existing initialisation.
+   * mounting to load the settings and warm up the provider in the
+   * background.  A provider that fails to start is only logged here;
+   * the error is reported when a reply is requested.  Calling init()
+   * multiple times is safe.
    */
-  init(): Promise<void> {
-    return this.ensureInitialized();
+  async init(): Promise<void> {
+    try {
+      await (await this.readyProvider()).init();
+    } catch (err) {
+      console.warn('Failed to initialise the model provider:', err);
+    }
+  }
+
+  /** Stops the reply being generated; getAIResponse resolves with what was generated so far. */
+  cancel(): Promise<void> {
+    return this.provider?.cancel() ?? Promise.resolve();
   }
 
   /**
-   * Handles the actual initialisation of the Llama context.  It
-   * resolves the model asset URI using Expo's Asset system, downloads
-   * the asset if necessary, copies it to a writable path and then
-   * calls initLlama() with a suitable configuration.  Adjust n_ctx
-   * according to your performance requirements.
+   * Builds the message list for a completion, keeping as many of the most
+   * recent history turns as fit in the context window alongside the
+   * system prompt, the new message and the reply budget. When even the
+   * bare prompt leaves less than N_PREDICT, the reply gets what is left;
+   * when that is under MIN_PREDICT it throws ContextOverflow.
    */
-  private async initializeContext(): Promise<void> {
-    // Resolve and download the bundled model asset
-    const modelAsset = Asset.fromModule(
-      require('../assets/models/SmolLM2-135M-Instruct-Q4_K_M.gguf')
-    );
-    await modelAsset.downloadAsync();
-    const assetPath = modelAsset.localUri || modelAsset.uri;
-    // Determine destination path in the app's document directory
-    const destPath = FileSystem.documentDirectory + 'SmolLM2-135M-Instruct-Q4_K_M.gguf';
-    try {
-      const info = await FileSystem.getInfoAsync(destPath);
-      if (!info.exists) {
-        await FileSystem.copyAsync({ from: assetPath, to: destPath });
+  private async buildMessages(
+    provider: LLMProvider,
+    systemPrompt: string,
+    history: ChatMessage[],
+    message: string
+  ): Promise<{ messages: LLMMessage[]; maxTokens: number }> {
+    let turns = history.slice(-MAX_HISTORY_MESSAGES).map(toLLMMessage);
+    for (;;) {
+      const messages: LLMMessage[] = [
+        { role: 'system', content: systemPrompt },
+        ...turns,
+        { role: 'user', content: message },
+      ];
+      const promptTokens = await provider.countTokens(messages);
+      if (promptTokens + N_PREDICT <= provider.contextSize) {
+        return { messages, maxTokens: N_PREDICT };
+      }
+      if (turns.length === 0) {
+        const maxTokens = provider.contextSize - promptTokens;
+        if (maxTokens < MIN_PREDICT) {
+          throw new ContextOverflow(
+            `The message needs ${promptTokens + MIN_PREDICT} tokens but the ${provider.label} has a context of ${provider.contextSize}. Choose a larger context size in Settings or shorten the message.`
+          );
+        }
+        return { messages, maxTokens };
+      }
+      // Drop the oldest turn, and a reply left without its question.
+      turns = turns.slice(1);
+      while (turns.length > 0 && turns[0].role === 'assistant') {
+        turns = turns.slice(1);
       }
-    } catch (copyErr) {
-      console.warn('Failed to copy GGUF model to document directory:', copyErr);
     }
-    // Now initialise the Llama context
-    this.context = await initLlama({
-      model: destPath,
-      // Limit context window to 2048 tokens to reduce memory usage.  Larger
-      // values increase accuracy but consume more RAM.
-      n_ctx: 2048,
-      // On iOS you can specify n_gpu_layers for GPU offload.  It is
-      // ignored on Android.
-      n_gpu_layers: 0,
-      use_mlock: false,
-    });
   }
 
   /**
-   * Returns a response from the AI model given the user's message.  The
-   * local model is instructed with a system prompt identical to the
-   * previous remote agent.  The Llama context is initialised on first
-   * call.  Stop words ensure the model stops generating when it hits
-   * known end‑of‑turn tokens.
+   * Returns a response from the AI model given the user's message and
+   * the recent conversation (oldest first).  The model is instructed
+   * with a system prompt holding the sections the conversation needs
+   * (see SystemPrompt).  Stop
+   * words ensure the model stops generating when it hits known
+   * end‑of‑turn tokens.  `onToken`, if given, is called with the text
+   * generated so far each time the model produces a token, so the reply
+   * can be shown while it is still being written.
    */
-  async getAIResponse(message: string): Promise<string> {
-    await this.ensureInitialized();
+  async getAIResponse(
+    message: string,
+    history: ChatMessage[] = [],
+    onToken?: (partialText: string) => void,
+  ): Promise<string> {
+    const provider = await this.readyProvider();
     const today = new Date().toISOString().split('T')[0];
-    const systemPrompt = `You are an AI assistant for a calendar application. Your goal is to help users manage their schedule. You MUST respond ONLY with a command in the format ACTION:<COMMAND_NAME>(...). The current date is ${today}.
-
-Supported Actions:
-- ACTION:CREATE_EVENT(title="<event_title>", startTime="<YYYY-MM-DDTHH:mm:ss>", endTime="<YYYY-MM-DDTHH:mm:ss>", description="<optional_description>")
-- ACTION:READ_EVENTS(title="<event_title_query>")
-- ACTION:UPDATE_EVENT(title="<event_title_to_find>", updates="<json_string_of_updates>")
-- ACTION:DELETE_EVENT(title="<event_title_to_find>")
-
-Key instructions for UPDATE_EVENT:
-- The 'title' parameter is for finding the event. Be flexible; the user might not say the exact title.
-- The 'updates' parameter MUST be a valid JSON string. The keys in the JSON can be 'title', 'startTime', 'endTime', or 'description'.
-- 'startTime' and 'endTime' values in the JSON MUST be in "YYYY-MM-DDTHH:mm:ss" format.
-
-Examples for UPDATE_EVENT:
-- User: "change the team meeting to 5pm"
-  AI: ACTION:UPDATE_EVENT(title="team meeting", updates="{\"startTime\":\"${today}T17:00:00\"}")
-- User: "update the project deadline's description to 'Final submission'"
-  AI: ACTION:UPDATE_EVENT(title="project deadline", updates="{\"description\":\"Final submission\"}")
-- User: "rename 'lunch' to 'Lunch with Bob'"
-  AI: ACTION:UPDATE_EVENT(title="lunch", updates="{\"title\":\"Lunch with Bob\"}")
-- User: "move the doctor appointment on July 28th from 2pm to 3:30pm"
-  AI: ACTION:UPDATE_EVENT(title="doctor appointment", updates="{\"startTime\":\"2025-07-28T15:30:00\",\"endTime\":\"2025-07-28T16:30:00\"}")
-
-General Rules:
-- Do not include any other text, greetings, or explanations in your response. Just the ACTION.
-- If the user does not specify an end time for a new event, assume it is one hour after the start time.
-- If the user's request is not about managing events, provide a helpful, conversational response without using an ACTION.`;
+    const { defaultDurationMinutes } = settingsService.get();
+    const previous = [...history].reverse().find(turn => turn.role === 'user');
+    const systemPrompt = buildSystemPrompt({
+      today,
+      defaultDurationMinutes,
+      calendarNames: calendarService.getCalendars().map(calendar => calendar.name),
+      // The previous message carries follow-ups such as "actually make it 4pm".
+      messages: previous ? [message, describeResult(previous.content)] : [message],
+    });
 
     // A list of stop tokens to prevent the model from generating beyond
     // the end of the assistant's turn.  These tokens are taken from
     // common chat templates and may vary between models.
     const stopWords = ['</s>', '<|end|>', '<|im_end|>', '<|endoftext|>'];
     try {
-      const result = await this.context.completion(
-        {
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: message },
-          ],
-          n_predict: 256,
-          temperature: 0.2,
-          stop: stopWords,
-        },
-        () => {
-          /* We ignore partial tokens in this implementation. */
-        },
-      );
-      const responseText = result && result.text ? result.text.toString().trim() : '';
+      await provider.init();
+      const { messages, maxTokens } = await this.buildMessages(provider, systemPrompt, history, message);
+      const request = {
+        messages,
+        maxTokens,
+        temperature: llmSettingsService.get().temperature,
+        stop: stopWords,
+        // Only a well-formed ACTION or a plain reply can be sampled.
+        grammar: ACTION_GRAMMAR,
+      };
+      let partialText = '';
+      const text = onToken
+        ? await provider.stream(request, token => {
+            partialText += token;
+            onToken(partialText);
+          })
+        : await provider.complete(request);
+      const responseText = text.trim();
       return responseText.length > 0 ? responseText : 'Sorry, I did not understand.';
     } catch (err) {
-      console.error('Local LLM failed to generate completion:', err);
-      return 'Error: Could not generate a response from the on‑device model.';
+      if (err instanceof ContextOverflow) {
+        return err.message;
+      }
+      console.error(`The ${provider.label} failed to generate a completion:`, err);
+      return `Error: Could not generate a response from the ${provider.label}.`;
     }
   }
 }
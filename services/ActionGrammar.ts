@@ -0,0 +1,54 @@
+/**
+ * GBNF grammar that constrains the model's output to either one or more
+ * well-formed ACTION commands, one per line, or a plain conversational
+ * reply. Every
+ * parameter is a quoted string with `\"` and `\\` as the only escapes,
+ * dates follow YYYY-MM-DD[THH:mm[:ss]] and recurrence values are RRULEs,
+ * so ActionParser.parse never sees a malformed command.
+ *
+ * Keep the commands in step with the Action type and the system prompt
+ * in SystemPrompt when adding one.
+ */
+export const ACTION_GRAMMAR = String.raw`
+root ::= action ("\n" action)* | reply
+
+action ::= "ACTION:" (create | read | update | delete | shift | duplicate | clear | find | create-task | complete-task | list-tasks)
+
+create ::= "CREATE_EVENT(" "title=" string ", startTime=" datetime ", endTime=" datetime (", allDay=" boolean)? (", timeZone=" zone)? (", description=" string)? (", recurrence=" rrule)? (", reminders=" reminders)? (", calendar=" string)? (", attendees=" string)? (", location=" string)? (", travelMinutes=" minutes)? ")"
+read ::= "READ_EVENTS(" "title=" string (", attendee=" string)? (", rangeStart=" datetime ", rangeEnd=" datetime)? ")"
+update ::= "UPDATE_EVENT(" "title=" string (", newTitle=" string)? (", startTime=" datetime)? (", endTime=" datetime)? (", description=" string)? (", reminders=" reminders)? (", addAttendees=" string)? (", removeAttendees=" string)? (", location=" string)? (", travelMinutes=" minutes)? ")"
+delete ::= "DELETE_EVENT(" "title=" string ")"
+shift ::= "SHIFT_EVENT(" "title=" string (", days=" offset)? (", minutes=" offset)? ")"
+duplicate ::= "DUPLICATE_EVENT(" "title=" string ", date=" date ")"
+clear ::= "CLEAR_DAY(" "date=" date (", endDate=" date)? (", moveTo=" date)? ")"
+find ::= "FIND_FREE_TIME(" "rangeStart=" datetime ", rangeEnd=" datetime (", duration=" minutes)? (", title=" string)? ")"
+create-task ::= "CREATE_TASK(" "title=" string (", due=" datetime)? (", priority=" priority)? ")"
+complete-task ::= "COMPLETE_TASK(" "title=" string ")"
+list-tasks ::= "LIST_TASKS(" ("dueBy=" datetime)? ")"
+
+string ::= "\"" char* "\""
+char ::= [^"\\\n] | "\\" ["\\]
+
+# The time may be left out for all-day events.
+datetime ::= "\"" digit digit digit digit "-" digit digit "-" digit digit ("T" digit digit ":" digit digit (":" digit digit)?)? "\""
+# A day without a time.
+date ::= "\"" digit digit digit digit "-" digit digit "-" digit digit "\""
+boolean ::= "\"" ("true" | "false") "\""
+priority ::= "\"" ("low" | "medium" | "high") "\""
+digit ::= [0-9]
+minutes ::= "\"" digit+ "\""
+# A whole number of days or minutes to move by, negative for earlier.
+offset ::= "\"" "-"? digit+ "\""
+# Minutes before the start, e.g. "10,1440".
+reminders ::= "\"" digit+ ("," digit+)* "\""
+# An IANA zone name such as "Europe/London".
+zone ::= "\"" [A-Za-z_]+ ("/" [A-Za-z0-9_+-]+)* "\""
+
+rrule ::= "\"FREQ=" ("DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY") (";" rrule-part)* "\""
+rrule-part ::= "INTERVAL=" digit+ | "COUNT=" digit+ | "UNTIL=" digit digit digit digit digit digit digit digit | "BYDAY=" byday ("," byday)*
+byday ::= ("-"? [1-5])? ("MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU")
+
+# A reply may not begin with "ACTION", so a command is always complete.
+reply ::= [^A \t\n] text | "A" ([^C] text)? | "AC" ([^T] text)? | "ACT" ([^I] text)? | "ACTI" ([^O] text)? | "ACTIO" ([^N] text)? | "ACTION" ([^:] text)?
+text ::= [^\x00]*
+`;
@@ -1,98 +1,819 @@
-import { Event } from '../types/Event';
-import calendarService from './CalendarService';
+import { Event, RecurrenceEditScope, TimeSlot } from '../types/Event';
+import { Action, ActionCommand, ActionResult, BatchStep, ChoiceResult } from '../types/Action';
+import calendarService, { DEFAULT_CALENDAR_ID, TravelWarning } from './CalendarService';
+import journalService from './JournalService';
+import { parseRRule } from './Recurrence';
+import { describeOriginalTime, deviceTimeZone, fromWallClock, isValidTimeZone } from './TimeZone';
+import { parseReminders } from './Reminders';
+import { describeAttendees, matchesAttendee, mergeAttendees, parseAttendees } from './Attendees';
+import searchService from './SearchService';
+import settingsService, { defaultCalendarId, formatTime } from './SettingsService';
+import travelService from './TravelService';
+import taskService from './TaskService';
+import { describeTask, formatDue, parsePriority } from './Tasks';
+import { daysBetween, daysUntil, shiftEvent } from './Reschedule';
 
-// Defines the structure of a parsed AI command
-interface Action {
-  command: 'CREATE_EVENT' | 'READ_EVENTS' | 'UPDATE_EVENT' | 'DELETE_EVENT';
-  params: { [key: string]: any };
+/** Returns local midnight of the given date's day, `days` days later. */
+function midnight(date: Date, days = 0): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/** Formats a day for prompts, e.g. "Tue, Jul 1". */
+function formatDay(date: Date): string {
+  return date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/** Formats an event's date and time for prompts, e.g. "Tue, Jul 1 at 09:00 AM". */
+export function describeWhen(event: Event): string {
+  const date = formatDay(event.startTime);
+  if (event.allDay) {
+    const lastDay = midnight(event.endTime, -1);
+    return lastDay.getTime() > event.startTime.getTime() ? `${date} - ${formatDay(lastDay)} (all day)` : `${date} (all day)`;
+  }
+  const time = formatTime(event.startTime);
+  const original = describeOriginalTime(event, settingsService.get().clock === '12h');
+  return original ? `${date} at ${time} (${original})` : `${date} at ${time}`;
+}
+
+/** Formats a slot for prompts, e.g. "Thu, Jul 3, 02:00 PM - 03:00 PM". */
+export function describeSlot(slot: TimeSlot): string {
+  const date = formatDay(slot.start);
+  const start = formatTime(slot.start);
+  const end = formatTime(slot.end);
+  return `${date}, ${start} - ${end}`;
+}
+
+/** Describes double-bookings for a warning, e.g. "'Lunch' (Tue, Jul 1 at 12:00 PM)". */
+export function describeConflicts(conflicts: Event[]): string {
+  return conflicts.map(event => `'${event.title}' (${describeWhen(event)})`).join(', ');
+}
+
+/** Appends a double-booking warning to an assistant reply when there are conflicts. */
+function withConflictWarning(message: string, conflicts: Event[]): string {
+  return conflicts.length > 0 ? `${message} Note: it overlaps with ${describeConflicts(conflicts)}.` : message;
+}
+
+/**
+ * Describes travel problems for a warning, e.g. "there are 10 minutes to
+ * get from 'Standup' at Office to 'Dentist' at Clinic, which takes 25".
+ */
+export function describeTravelWarnings(warnings: TravelWarning[]): string {
+  return warnings
+    .map(({ from, to, gapMinutes, neededMinutes }) => {
+      const route = `'${from.title}' at ${from.location} to '${to.title}' at ${to.location}`;
+      return neededMinutes !== undefined
+        ? `there are ${gapMinutes} minutes to get from ${route}, which takes ${neededMinutes}`
+        : `there is no time to get from ${route}`;
+    })
+    .join('; ');
+}
+
+/** Appends a travel time warning to an assistant reply when there are problems. */
+function withTravelWarning(message: string, warnings: TravelWarning[]): string {
+  return warnings.length > 0 ? `${message} Note: ${describeTravelWarnings(warnings)}.` : message;
+}
+
+/** Parses a days or minutes offset, returning null when it is not a whole number. */
+function parseOffset(value: string): number | null {
+  return /^-?\d+$/.test(value.trim()) ? parseInt(value, 10) : null;
+}
+
+/** Parses a travelMinutes parameter, returning null when it is not a whole number of minutes. */
+function parseTravelMinutes(value: string): number | null {
+  return /^\d+$/.test(value.trim()) ? parseInt(value, 10) : null;
+}
+
+/**
+ * Returns how far an edit of `event` reaches: an occurrence of a
+ * recurring event changes on its own, anything else as a whole.
+ */
+function editScope(event: Event): RecurrenceEditScope {
+  return event.seriesId ? 'this' : 'series';
+}
+
+/** Describes an event found by READ_EVENTS, e.g. "Standup (Tue, Jul 1 at 09:00 AM) at Office with Priya, Tom". */
+function describeFound(event: Event): string {
+  const when = `${event.title} (${describeWhen(event)})`;
+  const found = event.location ? `${when} at ${event.location}` : when;
+  return event.attendees && event.attendees.length > 0 ? `${found} with ${describeAttendees(event.attendees)}` : found;
+}
+
+/**
+ * Renders an action result as plain text, e.g. for giving the model the
+ * outcome of its earlier commands as conversation context.
+ */
+export function describeResult(result: ActionResult): string {
+  if (typeof result === 'string') {
+    return result;
+  }
+  if (Array.isArray(result)) {
+    return result.length === 0
+      ? 'No matching events were found.'
+      : `Found: ${result.map(describeFound).join('; ')}`;
+  }
+  if (result.kind === 'choice') {
+    return `${result.prompt} Options: ${result.candidates.map(event => `${event.title} (${describeWhen(event)})`).join('; ')}`;
+  }
+  if (result.kind === 'taskChoice') {
+    return `${result.prompt} Options: ${result.candidates.map(describeTask).join('; ')}`;
+  }
+  if (result.kind === 'slots') {
+    return `${result.prompt} Options: ${result.slots.map(describeSlot).join('; ')}`;
+  }
+  if (result.kind === 'tasks') {
+    return `${result.prompt} ${result.tasks.map(describeTask).join('; ')}`;
+  }
+  if (result.kind === 'batch') {
+    const steps = result.steps.map(
+      (step, index) =>
+        `${index + 1}. ${step.action}: ${step.result ?? 'not run.'}${step.status === 'undone' ? ' (undone)' : ''}`
+    );
+    return `${result.prompt} ${steps.join(' ')}`;
+  }
+  return result.prompt;
+}
+
+// How each command is named in the steps of a batch.
+const COMMAND_LABELS: { [C in ActionCommand]: string } = {
+  CREATE_EVENT: 'Create',
+  READ_EVENTS: 'Find events',
+  UPDATE_EVENT: 'Update',
+  DELETE_EVENT: 'Delete',
+  SHIFT_EVENT: 'Move',
+  DUPLICATE_EVENT: 'Copy',
+  CLEAR_DAY: 'Clear days',
+  FIND_FREE_TIME: 'Find free time',
+  CREATE_TASK: 'Add task',
+  COMPLETE_TASK: 'Complete task',
+  LIST_TASKS: 'List tasks',
+};
+
+/** Describes what an action asks for, e.g. "Delete 'Dentist'". */
+function describeAction(action: Action): string {
+  const label = COMMAND_LABELS[action.command];
+  // FIND_FREE_TIME's title names the event to book, not one to find.
+  const title = action.command !== 'FIND_FREE_TIME' ? (action.params as { title?: string }).title : undefined;
+  return title ? `${label} '${title}'` : label;
+}
+
+// The parameters each command accepts; anything else the model writes is dropped.
+const PARAM_KEYS: { [C in ActionCommand]: string[] } = {
+  CREATE_EVENT: [
+    'title',
+    'startTime',
+    'endTime',
+    'allDay',
+    'timeZone',
+    'description',
+    'recurrence',
+    'reminders',
+    'calendar',
+    'attendees',
+    'location',
+    'travelMinutes',
+  ],
+  READ_EVENTS: ['title', 'attendee', 'rangeStart', 'rangeEnd'],
+  UPDATE_EVENT: [
+    'title',
+    'newTitle',
+    'startTime',
+    'endTime',
+    'description',
+    'reminders',
+    'addAttendees',
+    'removeAttendees',
+    'location',
+    'travelMinutes',
+  ],
+  DELETE_EVENT: ['title'],
+  SHIFT_EVENT: ['title', 'days', 'minutes'],
+  DUPLICATE_EVENT: ['title', 'date'],
+  CLEAR_DAY: ['date', 'endDate', 'moveTo'],
+  FIND_FREE_TIME: ['rangeStart', 'rangeEnd', 'duration', 'title'],
+  CREATE_TASK: ['title', 'due', 'priority'],
+  COMPLETE_TASK: ['title'],
+  LIST_TASKS: ['dueBy'],
+};
+
+/** A command as parse() reads it, before it is known to be one the assistant supports. */
+type ParsedAction = { command: string; params: { [key: string]: string } };
+
+/**
+ * True when the command is one the assistant supports. Its parameters
+ * are then a subset of that command's, since parse() keeps only the keys
+ * in PARAM_KEYS; required ones are checked when the action is executed.
+ */
+function isAction(action: ParsedAction): action is ParsedAction & Action {
+  // An own-property check, so that names such as "toString" are not commands.
+  return Object.prototype.hasOwnProperty.call(PARAM_KEYS, action.command);
+}
+
+/** Thrown while executing an action that cannot be carried out; the message is the reply. */
+class ActionFailure extends Error {}
+
+// Actions that name an existing event by title.
+type TargetedAction = Extract<
+  Action,
+  { command: 'UPDATE_EVENT' | 'DELETE_EVENT' | 'SHIFT_EVENT' | 'DUPLICATE_EVENT' }
+>;
+
+/**
+ * Parses a YYYY-MM-DDTHH:mm:ss parameter as a wall-clock time in
+ * `timeZone`, or in the device zone when none is given, returning null
+ * when it is not a valid date. A plain YYYY-MM-DD is midnight. Values
+ * with a UTC offset, such as toISOString output, are exact instants.
+ */
+function parseTime(value: string, timeZone?: string): Date | null {
+  if (/(Z|[+-]\d{2}:\d{2})$/.test(value)) {
+    const instant = new Date(value);
+    return isNaN(instant.getTime()) ? null : instant;
+  }
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1).map(part => Number(part ?? 0));
+  const date = fromWallClock({ year, month: month - 1, day, hour, minute, second, millisecond: 0 }, timeZone);
+  return isNaN(date.getTime()) ? null : date;
 }
 
 class ActionParser {
-  // Tries to parse a raw text response from the AI into a structured Action
-  static parse(text: string): Action | null {
-    const match = text.match(/ACTION:(\w+)\((.*)\)/s); // Use 's' flag for dotall
-    if (!match) {
-      return null;
+  /**
+   * Parses the commands in a raw text response from the AI, in the order
+   * they appear. Returns an empty list when there are none; commands
+   * that are not known are left out.
+   */
+  static parse(text: string): Action[] {
+    const actions: Action[] = [];
+    // The parentheses may appear inside quoted values, which are matched whole.
+    const actionRegex = /ACTION:(\w+)\(((?:"(?:\\.|[^"\\])*"|[^"()])*)\)/g;
+    let match;
+    while ((match = actionRegex.exec(text)) !== null) {
+      const action: ParsedAction = { command: match[1], params: {} };
+      if (!isAction(action)) {
+        continue;
+      }
+      const paramsStr = match[2];
+      const keys: string[] = PARAM_KEYS[action.command];
+      // key="value" pairs; values may contain \" and \\ escapes (see ActionGrammar).
+      const paramRegex = /(\w+)="((?:\\.|[^"\\])*)"/g;
+      let paramMatch;
+      while ((paramMatch = paramRegex.exec(paramsStr)) !== null) {
+        if (keys.includes(paramMatch[1])) {
+          action.params[paramMatch[1]] = paramMatch[2].replace(/\\(.)/g, '$1');
+        }
+      }
+      // Required parameters are checked when the action is executed.
+      actions.push(action);
     }
+    return actions;
+  }
 
-    const [, command, paramsStr] = match;
-    const params: { [key: string]: any } = {};
+  /**
+   * Writes an action out in the model's command format, the inverse of
+   * parse(), so that actions found without the model can stand in the
+   * history as if the model had written them.
+   */
+  static format(action: Action): string {
+    const params: { [key: string]: string | undefined } = { ...action.params };
+    const pairs = PARAM_KEYS[action.command]
+      .filter(key => params[key] !== undefined && params[key] !== '')
+      .map(key => `${key}="${params[key]!.replace(/["\\]/g, '\\$&')}"`);
+    return `ACTION:${action.command}(${pairs.join(', ')})`;
+  }
 
+  /**
+   * Finds the event an UPDATE/DELETE/SHIFT/DUPLICATE should act on: the user's pick when
+   * `targetId` is set, otherwise the events matching the title. Returns
+   * a choice for the chat instead when more than one matches, and fails
+   * when nothing does.
+   */
+  private static resolveTarget(action: TargetedAction, prompt: string): { event: Event } | { result: ChoiceResult } {
+    if (action.targetId) {
+      const event = calendarService.getEventById(action.targetId);
+      if (!event) {
+        throw new ActionFailure('That event no longer exists.');
+      }
+      return { event };
+    }
+    const { title } = action.params;
+    const candidates = calendarService.findEventCandidates(title);
+    if (candidates.length === 0) {
+      throw new ActionFailure(`Could not find an event with the title '${title}'.`);
+    }
+    if (candidates.length > 1) {
+      return { result: { kind: 'choice', prompt, action, candidates } };
+    }
+    return { event: candidates[0] };
+  }
+
+  // Executes the parsed action by calling the appropriate service
+  static async execute(action: Action): Promise<ActionResult> {
     try {
-      if (paramsStr) {
-        // This regex handles key="value" pairs, including escaped quotes within the value.
-        const paramRegex = /(\w+)="((?:\\"|[^"])*)"/g;
-        let paramMatch;
-        while ((paramMatch = paramRegex.exec(paramsStr)) !== null) {
-          // The value is the second capture group, unescape quotes
-          params[paramMatch[1]] = paramMatch[2].replace(/\\"/g, '"');
-        }
-      }
-    } catch (e) {
-      console.error('Failed to parse action parameters:', e);
-      return null; // Don't proceed if params are malformed
+      return await ActionParser.run(action);
+    } catch (err) {
+      if (err instanceof ActionFailure) {
+        return err.message;
+      }
+      throw err;
     }
+  }
 
-    return {
-      command: command as Action['command'],
-      params,
-    };
+  /**
+   * Executes the actions from one reply in order as a single batch: when
+   * one fails, the changes made by those before it are rolled back and
+   * the rest are skipped. Run it inside journalService.runBatch, which
+   * holds the calendar changes to roll back. A step that needs the user
+   * to pick an event or confirm also rolls back, and returns its prompt
+   * with the actions attached so that answering runs them all again. A
+   * single action behaves as in execute().
+   */
+  static async executeAll(actions: Action[]): Promise<ActionResult> {
+    if (actions.length === 1) {
+      return ActionParser.execute(actions[0]);
+    }
+    // Tasks are not journalled, so they are put back from a snapshot.
+    await taskService.init();
+    const tasksBefore = taskService.getTasks();
+    const rollback = () => Promise.all([journalService.rollbackBatch(), taskService.restore(tasksBefore)]);
+    const steps: BatchStep[] = actions.map(action => ({ action: describeAction(action), status: 'skipped' }));
+    for (const [index, action] of actions.entries()) {
+      const position = `Step ${index + 1} of ${actions.length}`;
+      let result: ActionResult;
+      try {
+        result = await ActionParser.run(action);
+      } catch (err) {
+        if (!(err instanceof ActionFailure)) {
+          console.error('Action failed:', err);
+        }
+        await rollback();
+        const message = err instanceof ActionFailure ? err.message : 'Something went wrong.';
+        return {
+          kind: 'batch',
+          prompt: `${position} failed, so nothing was changed.`,
+          steps: steps.map((step, i) =>
+            i < index ? { ...step, status: 'undone' } : i === index ? { ...step, status: 'failed', result: message } : step
+          ),
+        };
+      }
+      if (
+        typeof result === 'object' &&
+        !Array.isArray(result) &&
+        (result.kind === 'choice' || result.kind === 'taskChoice' || result.kind === 'confirm')
+      ) {
+        await rollback();
+        return { ...result, prompt: `${position}: ${result.prompt}`, batch: { actions, step: index } };
+      }
+      steps[index] = { ...steps[index], status: 'done', result: describeResult(result) };
+    }
+    return { kind: 'batch', prompt: `All ${actions.length} steps done.`, steps };
   }
 
-  // Executes the parsed action by calling the appropriate service
-  static async execute(action: Action): Promise<string | Event[]> {
+  // Does the work of execute(); an action that cannot be carried out throws an ActionFailure.
+  private static async run(action: Action): Promise<ActionResult> {
     switch (action.command) {
       case 'CREATE_EVENT': {
-        const { title, startTime, endTime, description } = action.params;
+        const { title, startTime, endTime, description, recurrence } = action.params;
         if (title && startTime && endTime) {
-          calendarService.createEvent(title, startTime, endTime, description || '');
-          return 'Event created successfully.';
+          // An empty recurrence string means a one-off event.
+          const rule = recurrence ? parseRRule(recurrence) : null;
+          if (recurrence && !rule) {
+            throw new ActionFailure(`Create event failed: Could not understand the recurrence rule '${recurrence}'.`);
+          }
+          const reminders = parseReminders(action.params.reminders ?? '');
+          if (!reminders) {
+            throw new ActionFailure(
+              `Create event failed: Could not understand the reminders '${action.params.reminders}'.`
+            );
+          }
+          const attendees = parseAttendees(action.params.attendees ?? '');
+          if (!attendees) {
+            throw new ActionFailure(
+              `Create event failed: Could not understand the attendees '${action.params.attendees}'.`
+            );
+          }
+          const calendar = action.params.calendar ? calendarService.findCalendarByName(action.params.calendar) : undefined;
+          if (action.params.calendar && !calendar) {
+            const names = calendarService.getCalendars().map(c => c.name).join(', ');
+            throw new ActionFailure(
+              `Create event failed: There is no calendar called '${action.params.calendar}'. The calendars are: ${names}.`
+            );
+          }
+          const travel = action.params.travelMinutes ? parseTravelMinutes(action.params.travelMinutes) : undefined;
+          if (travel === null) {
+            throw new ActionFailure(`Create event failed: '${action.params.travelMinutes}' is not a number of minutes.`);
+          }
+          const allDay = action.params.allDay === 'true';
+          // All-day events cover whole local days and have no zone.
+          const timeZone = allDay ? undefined : action.params.timeZone || deviceTimeZone();
+          if (timeZone && !isValidTimeZone(timeZone)) {
+            throw new ActionFailure(`Create event failed: Unknown time zone '${timeZone}'.`);
+          }
+          let start = parseTime(startTime, timeZone);
+          let end = parseTime(endTime, timeZone);
+          if (!start || !end) {
+            throw new ActionFailure('Create event failed: Invalid start or end time.');
+          }
+          if (allDay) {
+            // endTime names the last day; the stored end is the midnight after it.
+            start = midnight(start);
+            end = midnight(end.getTime() < start.getTime() ? start : end, 1);
+          }
+          const location = action.params.location?.trim() || undefined;
+          await travelService.init();
+          // Without a travel time of its own, take the one from the previous event's location.
+          const suggested =
+            location && travel === undefined && !allDay
+              ? calendarService.suggestTravelMinutes({ id: '', title, startTime: start, endTime: end, location })
+              : undefined;
+          const travelMinutes = travel || suggested?.minutes || undefined;
+          const event = calendarService.createEvent(title, start.toISOString(), end.toISOString(), description || '', {
+            recurrence: rule ?? undefined,
+            allDay: allDay || undefined,
+            timeZone,
+            reminders: reminders.length > 0 ? reminders : undefined,
+            calendarId: calendar ? (calendar.id !== DEFAULT_CALENDAR_ID ? calendar.id : undefined) : defaultCalendarId(),
+            attendees: attendees.length > 0 ? attendees : undefined,
+            location,
+            travelMinutes: allDay ? undefined : travelMinutes,
+          });
+          const conflicts = allDay
+            ? []
+            : calendarService.findConflicts(event.startTime, event.endTime, event.id, event.travelMinutes);
+          const created = rule ? 'Recurring event created' : 'Event created';
+          const message = calendar ? `${created} in ${calendar.name}.` : `${created} successfully.`;
+          const withTravel = suggested
+            ? `${message} Allowed ${suggested.minutes} minutes to get there from ${suggested.from.location}.`
+            : message;
+          return withTravelWarning(withConflictWarning(withTravel, conflicts), calendarService.findTravelWarnings(event));
         } else {
-          return 'Create event failed: Missing required parameters.';
+          throw new ActionFailure('Create event failed: Missing required parameters.');
         }
       }
 
       case 'READ_EVENTS': {
-        const { title } = action.params;
-        // If title is an empty string or undefined, find all events.
-        const events = (title && title.length > 0) ? calendarService.findEventsByTitle(title) : calendarService.getAllEvents();
+        const { title, attendee, rangeStart, rangeEnd } = action.params;
+        const start = rangeStart ? parseTime(rangeStart) : null;
+        const end = rangeEnd ? parseTime(rangeEnd) : null;
+        if ((rangeStart || rangeEnd) && (!start || !end || end.getTime() <= start.getTime())) {
+          throw new ActionFailure('Read events failed: Invalid date range.');
+        }
+        // If title is an empty string or undefined, find all events; otherwise search titles and descriptions.
+        let events = (title && title.length > 0) ? await searchService.findEvents(title) : calendarService.getAllEvents();
+        if (start && end) {
+          // Search results are stored events; keep the occurrences in the window of those that matched.
+          const matched = title ? new Set(events.map(event => event.id)) : null;
+          events = calendarService
+            .getEventsInRange(start, end)
+            .filter(event => !matched || matched.has(event.seriesId ?? event.id));
+        }
+        if (attendee) {
+          events = events.filter(event => event.attendees?.some(person => matchesAttendee(person, attendee)));
+        }
         return events;
       }
 
       case 'UPDATE_EVENT': {
-        const { title, updates } = action.params;
-        if (!title || !updates) {
-          return 'Update failed: Missing title or update information.';
-        }
-        try {
-          const parsedUpdates = JSON.parse(updates);
-          
-          if (parsedUpdates.startTime) {
-            parsedUpdates.startTime = new Date(parsedUpdates.startTime);
+        const {
+          title,
+          newTitle,
+          startTime,
+          endTime,
+          description,
+          reminders,
+          addAttendees,
+          removeAttendees,
+          location,
+          travelMinutes,
+        } = action.params;
+        const changes: Partial<Event> = {};
+        if (newTitle) changes.title = newTitle;
+        if (description !== undefined) changes.description = description;
+        if (location !== undefined) changes.location = location.trim() || undefined;
+        if (travelMinutes !== undefined) {
+          const minutes = parseTravelMinutes(travelMinutes);
+          if (minutes === null) {
+            throw new ActionFailure(`Update failed: '${travelMinutes}' is not a number of minutes.`);
           }
-          if (parsedUpdates.endTime) {
-            parsedUpdates.endTime = new Date(parsedUpdates.endTime);
+          changes.travelMinutes = minutes || undefined;
+        }
+        if (reminders !== undefined) {
+          const offsets = parseReminders(reminders);
+          if (!offsets) {
+            throw new ActionFailure(`Update failed: Could not understand the reminders '${reminders}'.`);
           }
+          changes.reminders = offsets.length > 0 ? offsets : undefined;
+        }
+        const added = parseAttendees(addAttendees ?? '');
+        const removed = parseAttendees(removeAttendees ?? '');
+        if (!added || !removed) {
+          throw new ActionFailure(
+            `Update failed: Could not understand the attendees '${!added ? addAttendees : removeAttendees}'.`
+          );
+        }
+        if (
+          (!title && !action.targetId) ||
+          (Object.keys(changes).length === 0 && !startTime && !endTime && added.length + removed.length === 0)
+        ) {
+          throw new ActionFailure('Update failed: Missing title or update information.');
+        }
 
-          const success = calendarService.updateEventByTitle(title, parsedUpdates);
-          return success ? `Event '${title}' updated successfully.` : `Could not find an event with the title '${title}'.`;
-        } catch (e) {
-          console.error('Failed to parse updates for UPDATE_EVENT:', e);
-          return 'There was an error updating the event. The update details were not formatted correctly.';
+        const target = ActionParser.resolveTarget(action, `Several events match '${title}'. Which one should I update?`);
+        if ('result' in target) {
+          return target.result;
+        }
+        // New times are wall-clock times where the event takes place.
+        for (const [key, value] of [['startTime', startTime], ['endTime', endTime]] as const) {
+          if (value) {
+            const time = parseTime(value, target.event.timeZone);
+            if (!time) {
+              throw new ActionFailure(`Update failed: '${value}' is not a valid date and time.`);
+            }
+            changes[key] = time;
+          }
         }
+        if (added.length + removed.length > 0) {
+          const current = target.event.attendees ?? [];
+          const missing = removed.find(person => !current.some(other => matchesAttendee(other, person.email ?? person.name)));
+          if (missing) {
+            throw new ActionFailure(`Update failed: ${missing.name} is not attending '${target.event.title}'.`);
+          }
+          const remaining = mergeAttendees(current, added).filter(
+            other => !removed.some(person => matchesAttendee(other, person.email ?? person.name))
+          );
+          changes.attendees = remaining.length > 0 ? remaining : undefined;
+        }
+        const updated = await calendarService.updateEvent(target.event.id, changes, editScope(target.event));
+        if (!updated) {
+          throw new ActionFailure('That event no longer exists.');
+        }
+        // Check the time the user asked for, which for a series is that of the occurrence they named.
+        const start = changes.startTime ?? target.event.startTime;
+        const end = changes.endTime ?? target.event.endTime;
+        const moved = !!(changes.startTime || changes.endTime || 'travelMinutes' in changes);
+        const conflicts =
+          moved && end.getTime() > start.getTime()
+            ? calendarService.findConflicts(start, end, updated.id, updated.travelMinutes)
+            : [];
+        const travelWarnings =
+          moved || 'location' in changes
+            ? calendarService.findTravelWarnings({ ...target.event, ...changes, startTime: start, endTime: end })
+            : [];
+        return withTravelWarning(
+          withConflictWarning(`Event '${target.event.title}' updated successfully.`, conflicts),
+          travelWarnings
+        );
       }
 
       case 'DELETE_EVENT': {
         const { title } = action.params;
-        if (!title) {
-            return 'Delete failed: Missing title information.';
+        if (!title && !action.targetId) {
+            throw new ActionFailure('Delete failed: Missing title information.');
+        }
+        const target = ActionParser.resolveTarget(action, `Several events match '${title}'. Which one should I delete?`);
+        if ('result' in target) {
+          return target.result;
+        }
+        const { event } = target;
+        // Deleting is destructive, so the user confirms before it runs.
+        if (!action.confirmed) {
+          return {
+            kind: 'confirm',
+            prompt: event.recurrence
+              ? `Delete every occurrence of '${event.title}'?`
+              : `Delete '${event.title}' on ${describeWhen(event)}?`,
+            confirmLabel: 'Delete',
+            action: { ...action, targetId: event.id },
+            event,
+          };
+        }
+        const success = await calendarService.deleteEvent(event.id);
+        if (!success) {
+          throw new ActionFailure('That event no longer exists.');
+        }
+        return `Event '${event.title}' deleted successfully.`;
+      }
+
+      case 'SHIFT_EVENT': {
+        const { title, days, minutes } = action.params;
+        const dayOffset = days ? parseOffset(days) : 0;
+        const minuteOffset = minutes ? parseOffset(minutes) : 0;
+        if (dayOffset === null || minuteOffset === null) {
+          throw new ActionFailure(`Move failed: '${dayOffset === null ? days : minutes}' is not a whole number.`);
+        }
+        if ((!title && !action.targetId) || (dayOffset === 0 && minuteOffset === 0)) {
+          throw new ActionFailure('Move failed: Missing title or how far to move the event.');
+        }
+        const target = ActionParser.resolveTarget(action, `Several events match '${title}'. Which one should I move?`);
+        if ('result' in target) {
+          return target.result;
+        }
+        const { event } = target;
+        // All-day events move by whole days only.
+        if (event.allDay && minuteOffset % (24 * 60) !== 0) {
+          throw new ActionFailure(`Move failed: '${event.title}' is an all-day event, so it can only move by whole days.`);
+        }
+        const shift = event.allDay
+          ? { days: dayOffset + minuteOffset / (24 * 60), minutes: 0 }
+          : { days: dayOffset, minutes: minuteOffset };
+        const changes = shiftEvent(event, shift);
+        const updated = await calendarService.updateEvent(event.id, changes, editScope(event));
+        if (!updated) {
+          throw new ActionFailure('That event no longer exists.');
+        }
+        const moved = { ...event, ...changes };
+        const conflicts = event.allDay
+          ? []
+          : calendarService.findConflicts(moved.startTime, moved.endTime, updated.id, updated.travelMinutes);
+        return withTravelWarning(
+          withConflictWarning(`Moved '${event.title}' to ${describeWhen(moved)}.`, conflicts),
+          calendarService.findTravelWarnings(moved)
+        );
+      }
+
+      case 'DUPLICATE_EVENT': {
+        const { title, date } = action.params;
+        const day = date ? parseTime(date) : null;
+        if ((!title && !action.targetId) || !day) {
+          throw new ActionFailure('Copy failed: Missing title or a valid date.');
+        }
+        const target = ActionParser.resolveTarget(action, `Several events match '${title}'. Which one should I copy?`);
+        if ('result' in target) {
+          return target.result;
+        }
+        const { event } = target;
+        const { startTime, endTime } = shiftEvent(event, { days: daysUntil(event, day), minutes: 0 });
+        // The copy is a one-off, even of a recurring event.
+        const copy = calendarService.createEvent(event.title, startTime.toISOString(), endTime.toISOString(), event.description, {
+          allDay: event.allDay,
+          timeZone: event.timeZone,
+          reminders: event.reminders,
+          calendarId: event.calendarId,
+          attendees: event.attendees,
+          location: event.location,
+          travelMinutes: event.travelMinutes,
+        });
+        const conflicts = copy.allDay
+          ? []
+          : calendarService.findConflicts(copy.startTime, copy.endTime, copy.id, copy.travelMinutes);
+        return withTravelWarning(
+          withConflictWarning(`Copied '${event.title}' to ${describeWhen(copy)}.`, conflicts),
+          calendarService.findTravelWarnings(copy)
+        );
+      }
+
+      case 'CLEAR_DAY': {
+        const { date, endDate, moveTo } = action.params;
+        const first = date ? parseTime(date) : null;
+        const last = endDate ? parseTime(endDate) : first;
+        const destination = moveTo ? parseTime(moveTo) : undefined;
+        if (!first || !last || destination === null || last.getTime() < first.getTime()) {
+          throw new ActionFailure('Clear failed: Missing or invalid dates.');
+        }
+        const rangeStart = midnight(first);
+        const rangeEnd = midnight(last, 1);
+        const days = destination ? daysBetween(rangeStart, destination) : 0;
+        if (destination && days === 0) {
+          throw new ActionFailure(`Clear failed: The events are already on ${formatDay(destination)}.`);
+        }
+        const period =
+          midnight(last).getTime() > rangeStart.getTime()
+            ? `${formatDay(rangeStart)} - ${formatDay(last)}`
+            : formatDay(rangeStart);
+        // Only what starts in the range is cleared; an event running into it from before stays.
+        const events = calendarService
+          .getEventsInRange(rangeStart, rangeEnd)
+          .filter(event => event.startTime.getTime() >= rangeStart.getTime());
+        if (events.length === 0) {
+          return `There is nothing on ${period} to clear.`;
+        }
+        const count = `${events.length} event${events.length === 1 ? '' : 's'}`;
+        // Clearing changes many events at once, so the user confirms before it runs.
+        if (!action.confirmed) {
+          const list = events.map(event => `'${event.title}' (${describeWhen(event)})`).join(', ');
+          return {
+            kind: 'confirm',
+            prompt: destination
+              ? `Move ${count} from ${period} to ${formatDay(destination)}? ${list}`
+              : `Delete ${count} on ${period}? ${list}`,
+            confirmLabel: destination ? 'Move' : 'Delete',
+            action,
+          };
+        }
+        // Occurrences of recurring events change on their own, not the rest of the series.
+        if (!destination) {
+          for (const event of events) {
+            await calendarService.deleteEvent(event.id, 'this');
+          }
+          return `Deleted ${count} on ${period}.`;
+        }
+        const moved: Event[] = [];
+        for (const event of events) {
+          const updated = await calendarService.updateEvent(event.id, shiftEvent(event, { days, minutes: 0 }), 'this');
+          if (updated) {
+            moved.push(updated);
+          }
+        }
+        const movedIds = new Set(moved.map(event => event.id));
+        const conflicts = moved
+          .filter(event => !event.allDay)
+          .flatMap(event => calendarService.findConflicts(event.startTime, event.endTime, event.id, event.travelMinutes))
+          .filter((event, index, all) => !movedIds.has(event.id) && all.findIndex(other => other.id === event.id) === index);
+        return withConflictWarning(`Moved ${count} from ${period} to ${formatDay(destination)}.`, conflicts);
+      }
+
+      case 'FIND_FREE_TIME': {
+        const { rangeStart, rangeEnd, duration, title } = action.params;
+        const start = rangeStart ? parseTime(rangeStart) : null;
+        const end = rangeEnd ? parseTime(rangeEnd) : null;
+        if (!start || !end || end.getTime() <= start.getTime()) {
+          throw new ActionFailure('Find free time failed: Missing or invalid date range.');
+        }
+        // Without a duration the slots are as long as a new event.
+        const minutes = parseInt(duration ?? '', 10) || settingsService.get().defaultDurationMinutes;
+        const slots = calendarService.findFreeSlots(start, end, minutes);
+        if (slots.length === 0) {
+          return `I couldn't find a free ${minutes}-minute slot in that time.`;
+        }
+        return {
+          kind: 'slots',
+          prompt: `Here are free ${minutes}-minute slots. Tap one to book it.`,
+          title: title?.trim() || 'New event',
+          slots,
+        };
+      }
+
+      case 'CREATE_TASK': {
+        const { title } = action.params;
+        if (!title?.trim()) {
+          throw new ActionFailure('Create task failed: Missing title.');
+        }
+        const due = action.params.due ? parseTime(action.params.due) : undefined;
+        if (due === null) {
+          throw new ActionFailure(`Create task failed: '${action.params.due}' is not a valid date.`);
+        }
+        const priority = action.params.priority ? parsePriority(action.params.priority) : 'medium';
+        if (!priority) {
+          throw new ActionFailure(`Create task failed: Unknown priority '${action.params.priority}'.`);
+        }
+        const task = await taskService.createTask(title, due, priority);
+        return task.due ? `Task '${task.title}' added, due ${formatDue(task.due)}.` : `Task '${task.title}' added.`;
+      }
+
+      case 'COMPLETE_TASK': {
+        const { title } = action.params;
+        if (!title?.trim()) {
+          throw new ActionFailure('Complete task failed: Missing title.');
+        }
+        await taskService.init();
+        if (action.targetId) {
+          const task = taskService.getTaskById(action.targetId);
+          if (!task) {
+            throw new ActionFailure('That task no longer exists.');
+          }
+          await taskService.setDone(task.id, true);
+          return `Marked '${task.title}' as done.`;
+        }
+        const candidates = taskService.findTaskCandidates(title);
+        if (candidates.length === 0) {
+          throw new ActionFailure(`Could not find an open task called '${title}'.`);
+        }
+        if (candidates.length > 1) {
+          return {
+            kind: 'taskChoice',
+            prompt: `Several tasks match '${title}'. Which one did you finish?`,
+            action,
+            candidates,
+          };
+        }
+        await taskService.setDone(candidates[0].id, true);
+        return `Marked '${candidates[0].title}' as done.`;
+      }
+
+      case 'LIST_TASKS': {
+        const { dueBy } = action.params;
+        const limit = dueBy ? parseTime(dueBy) : undefined;
+        if (limit === null) {
+          throw new ActionFailure(`List tasks failed: '${dueBy}' is not a valid date.`);
+        }
+        await taskService.init();
+        const open = taskService.getTasks().filter(task => !task.done);
+        const tasks = limit ? open.filter(task => task.due && task.due.getTime() <= midnight(limit).getTime()) : open;
+        if (tasks.length === 0) {
+          return limit ? `Nothing is due by ${formatDue(limit)}.` : 'You have no open tasks.';
         }
-        const success = calendarService.deleteEventByTitle(title);
-        return success ? `Event '${title}' deleted successfully.` : `Could not find an event with the title '${title}'.`;
+        return {
+          kind: 'tasks',
+          prompt: limit ? `Tasks due by ${formatDue(limit)}:` : 'Your open tasks:',
+          tasks,
+        };
       }
 
       default:
-        return `Unknown command: ${action.command}`;
+        throw new ActionFailure(`Unknown command: ${(action as Action).command}`);
     }
   }
 }
@@ -0,0 +1,110 @@
+import { Attendee, RsvpStatus } from '../types/Event';
+
+/**
+ * Helpers for event attendees. The assistant names attendees as a
+ * comma-separated list such as "Priya, Tom <tom@example.com>"; an
+ * attendee is recognised by email address when both sides have one,
+ * otherwise by name.
+ */
+
+export const RSVP_LABELS: Record<RsvpStatus, string> = {
+  pending: 'Invited',
+  accepted: 'Going',
+  tentative: 'Maybe',
+  declined: 'Not going',
+};
+
+const EMAIL = /^[^\s@<>,]+@[^\s@<>,]+\.[^\s@<>,]+$/;
+
+/** Returns true if `email` looks like an email address. */
+export function isEmail(email: string): boolean {
+  return EMAIL.test(email);
+}
+
+/**
+ * Parses a list of attendees separated by commas or "and", each a name,
+ * an email address or "Name <email>". Returns null when an entry has a
+ * malformed address; an empty string is an empty list.
+ */
+export function parseAttendees(text: string): Attendee[] | null {
+  const attendees: Attendee[] = [];
+  const parts = text
+    .split(/\s*(?:[,;&]|\band\b)\s*/i)
+    .map(part => part.trim())
+    .filter(part => part.length > 0);
+  for (const part of parts) {
+    const named = /^(.*?)\s*<([^>]*)>$/.exec(part);
+    if (named) {
+      if (!isEmail(named[2].trim())) {
+        return null;
+      }
+      attendees.push({ name: named[1].replace(/^"|"$/g, '').trim() || named[2].trim(), email: named[2].trim() });
+    } else if (part.includes('@')) {
+      if (!isEmail(part)) {
+        return null;
+      }
+      attendees.push({ name: part, email: part });
+    } else {
+      attendees.push({ name: part });
+    }
+  }
+  return mergeAttendees([], attendees);
+}
+
+/** Writes an attendee as "Name <email>", or just the name or address when that is all there is. */
+export function formatAttendee(attendee: Attendee): string {
+  return attendee.email && attendee.email !== attendee.name ? `${attendee.name} <${attendee.email}>` : attendee.name;
+}
+
+/** Describes attendees for prompts, e.g. "Priya, Tom (not going)". */
+export function describeAttendees(attendees: Attendee[]): string {
+  return attendees
+    .map(attendee =>
+      attendee.status && attendee.status !== 'pending'
+        ? `${attendee.name} (${RSVP_LABELS[attendee.status].toLowerCase()})`
+        : attendee.name
+    )
+    .join(', ');
+}
+
+/**
+ * Returns true if `query` names the attendee: their email address, or
+ * the start of their name or of any word in it ("Priya" matches "Priya
+ * Shah"), ignoring case.
+ */
+export function matchesAttendee(attendee: Attendee, query: string): boolean {
+  const wanted = query.trim().toLowerCase();
+  if (!wanted) {
+    return false;
+  }
+  if (attendee.email && attendee.email.toLowerCase() === wanted) {
+    return true;
+  }
+  const name = attendee.name.toLowerCase();
+  return name.startsWith(wanted) || name.split(/\s+/).some(word => word.startsWith(wanted));
+}
+
+/** Returns true if the two entries stand for the same person. */
+function samePerson(a: Attendee, b: Attendee): boolean {
+  if (a.email && b.email) {
+    return a.email.toLowerCase() === b.email.toLowerCase();
+  }
+  return a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+}
+
+/**
+ * Adds `added` to `existing`, skipping people already present. An added
+ * entry fills in the address of an existing one known only by name.
+ */
+export function mergeAttendees(existing: Attendee[], added: Attendee[]): Attendee[] {
+  const result = [...existing];
+  added.forEach(attendee => {
+    const index = result.findIndex(other => samePerson(other, attendee));
+    if (index === -1) {
+      result.push(attendee);
+    } else if (attendee.email && !result[index].email) {
+      result[index] = { ...result[index], email: attendee.email };
+    }
+  });
+  return result;
+}
@@ -1,22 +1,142 @@
-import { Event } from '../types/Event';
+import { Attendee, Event, EventExtras, RecurrenceEditScope, TimeSlot } from '../types/Event';
+import { Calendar } from '../types/Calendar';
 import * as SQLite from 'expo-sqlite';
+import { getDatabase } from './Database';
+import {
+  buildOccurrence,
+  countOccurrencesBefore,
+  expandEvent,
+  formatRRule,
+  parseOccurrenceId,
+  parseRRule,
+} from './Recurrence';
+import { findFreeSlots, overlaps } from './FreeTime';
+import { samePlace, travelStart } from './Travel';
+import travelService from './TravelService';
 
 /**
  * Subscriber type for clients interested in changes to the events list.
  */
 type Subscriber = () => void;
 
+/**
+ * Describes one stored event changing: `before` is absent for a
+ * creation and `after` is absent for a deletion.
+ */
+export type EventChange = {
+  before?: Event;
+  after?: Event;
+};
+
+/**
+ * Listener for clients that need to know exactly what changed, such as
+ * the undo journal. Each call carries the changes made by one operation.
+ */
+type ChangeListener = (changes: EventChange[]) => void;
+
+/**
+ * Two consecutive events at different places with too little time
+ * between them to get from one to the other. `neededMinutes` comes from
+ * the travel times table and is absent when the route is unknown, in
+ * which case the events are back to back.
+ */
+export type TravelWarning = {
+  from: Event;
+  to: Event;
+  gapMinutes: number;
+  neededMinutes?: number;
+};
+
+// How far into the future getAllEvents() expands recurring events.
+const RECURRENCE_HORIZON_DAYS = 365;
+// How far either side of an event to look for the events before and after it.
+const NEIGHBOUR_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+/** Id of the calendar created with the table; events without a calendarId belong to it. */
+export const DEFAULT_CALENDAR_ID = 'default';
+
+/** Converts a database row into an Event. */
+function rowToEvent(row: any): Event {
+  return {
+    id: row.id,
+    title: row.title,
+    startTime: new Date(row.startTime),
+    endTime: new Date(row.endTime),
+    description: row.description ?? undefined,
+    location: row.location ?? undefined,
+    travelMinutes: row.travelMinutes ?? undefined,
+    allDay: row.allDay ? true : undefined,
+    timeZone: row.timeZone ?? undefined,
+    reminders: row.reminders ? (JSON.parse(row.reminders) as number[]) : undefined,
+    recurrence: row.rrule ? parseRRule(row.rrule) ?? undefined : undefined,
+    exceptionDates: row.exdates ? (JSON.parse(row.exdates) as number[]).map(ms => new Date(ms)) : undefined,
+    uid: row.uid ?? undefined,
+    calendarId: row.calendarId ?? undefined,
+  };
+}
+
+/** Returns the column values shared by INSERT and UPDATE statements. */
+function eventToParams(event: Event): SQLite.SQLiteBindValue[] {
+  return [
+    event.title,
+    event.startTime.getTime(),
+    event.endTime.getTime(),
+    event.description ?? null,
+    event.recurrence ? formatRRule(event.recurrence) : null,
+    event.exceptionDates && event.exceptionDates.length > 0
+      ? JSON.stringify(event.exceptionDates.map(d => d.getTime()))
+      : null,
+    event.uid ?? null,
+    event.allDay ? 1 : 0,
+    event.timeZone ?? null,
+    event.reminders && event.reminders.length > 0 ? JSON.stringify(event.reminders) : null,
+    event.calendarId ?? null,
+    event.location ?? null,
+    event.travelMinutes ?? null,
+  ];
+}
+
+// Stands in for the default calendar until the calendars have been loaded.
+const FALLBACK_CALENDAR: Calendar = { id: DEFAULT_CALENDAR_ID, name: 'Personal', color: '#007AFF', visible: true };
+
+/** Converts a row of the attendees table into an Attendee. */
+function rowToAttendee(row: any): Attendee {
+  return { name: row.name, email: row.email ?? undefined, status: row.status ?? undefined };
+}
+
+/** Converts a database row into a Calendar. */
+function rowToCalendar(row: any): Calendar {
+  return { id: row.id, name: row.name, color: row.color, visible: !!row.visible };
+}
+
+/** Strips the occurrence-only fields so that the event can stand alone. */
+function detach(event: Event): Event {
+  const { seriesId, originalStart, ...rest } = event;
+  return rest;
+}
+
 /**
  * CalendarService persists events to a SQLite database so that they
  * survive app restarts. It maintains an in-memory cache of events for
  * fast access and notifies subscribers whenever the events list
  * changes. Most operations synchronously update the cache and
  * asynchronously write to the database.
+ *
+ * Recurring events are stored once and expanded into occurrences by the
+ * query methods. Occurrences carry a composite id (see
+ * Recurrence.occurrenceId) which every id-based method also accepts.
+ *
+ * The service also keeps the calendars events are grouped into.
+ * Changing a calendar notifies the same subscribers as changing an
+ * event, since it changes how events are shown.
  */
 class CalendarService {
   private db!: SQLite.SQLiteDatabase;
   private events: Event[] = [];
+  private calendars: Calendar[] = [];
   private subscribers: Subscriber[] = [];
+  private changeListeners: ChangeListener[] = [];
 
   constructor() {
     // The database is opened asynchronously in the init() method.
@@ -24,15 +144,13 @@ class CalendarService {
   }
 
   /**
-   * Initialises the events table if it does not exist and loads any
-   * existing events into memory. Returns a promise that resolves once
-   * the events have been loaded.
+   * Obtains the shared database connection (creating or migrating the
+   * schema as needed) and loads any existing events into memory.
+   * Returns a promise that resolves once the events have been loaded.
    */
   async init(): Promise<void> {
-    this.db = await SQLite.openDatabaseAsync('calendar.db');
-    await this.db.execAsync(
-      'CREATE TABLE IF NOT EXISTS events (id TEXT PRIMARY KEY NOT NULL, title TEXT NOT NULL, startTime INTEGER NOT NULL, endTime INTEGER NOT NULL, description TEXT)'
-    );
+    this.db = await getDatabase();
+    this.calendars = (await this.db.getAllAsync<any>('SELECT * FROM calendars ORDER BY rowid')).map(rowToCalendar);
     await this.loadEvents();
   }
 
@@ -43,17 +161,70 @@ class CalendarService {
    */
   private async loadEvents(): Promise<void> {
     const result = await this.db.getAllAsync<any>('SELECT * FROM events');
-    const loaded: Event[] = result.map(row => ({
-      id: row.id,
-      title: row.title,
-      startTime: new Date(row.startTime),
-      endTime: new Date(row.endTime),
-      description: row.description ?? undefined,
-    }));
-    this.events = loaded;
+    const attendeeRows = await this.db.getAllAsync<any>('SELECT * FROM attendees ORDER BY eventId, position');
+    const attendees = new Map<string, Attendee[]>();
+    attendeeRows.forEach(row => {
+      const list = attendees.get(row.eventId) ?? [];
+      list.push(rowToAttendee(row));
+      attendees.set(row.eventId, list);
+    });
+    this.events = result.map(row => {
+      const event = rowToEvent(row);
+      return attendees.has(event.id) ? { ...event, attendees: attendees.get(event.id) } : event;
+    });
     this.notify();
   }
 
+  private async insertRow(event: Event): Promise<void> {
+    await this.db.runAsync(
+      'INSERT INTO events (title, startTime, endTime, description, rrule, exdates, uid, allDay, timeZone, reminders, calendarId, location, travelMinutes, id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [...eventToParams(event), event.id]
+    );
+    await this.writeAttendees(event);
+  }
+
+  private async updateRow(event: Event): Promise<void> {
+    await this.db.runAsync(
+      'UPDATE events SET title = ?, startTime = ?, endTime = ?, description = ?, rrule = ?, exdates = ?, uid = ?, allDay = ?, timeZone = ?, reminders = ?, calendarId = ?, location = ?, travelMinutes = ? WHERE id = ?',
+      [...eventToParams(event), event.id]
+    );
+    await this.writeAttendees(event);
+  }
+
+  /**
+   * Replaces the stored attendees of an event. Rows are overwritten in
+   * place and the surplus removed afterwards, so that overlapping writes
+   * for the same event cannot collide.
+   */
+  private async writeAttendees(event: Event): Promise<void> {
+    const attendees = event.attendees ?? [];
+    for (const [position, attendee] of attendees.entries()) {
+      await this.db.runAsync(
+        'INSERT OR REPLACE INTO attendees (eventId, position, name, email, status) VALUES (?, ?, ?, ?, ?)',
+        [event.id, position, attendee.name, attendee.email ?? null, attendee.status ?? null]
+      );
+    }
+    await this.db.runAsync('DELETE FROM attendees WHERE eventId = ? AND position >= ?', [event.id, attendees.length]);
+  }
+
+  /** Deletes an event's row and its attendees. */
+  private async deleteRow(id: string): Promise<void> {
+    await this.db.runAsync('DELETE FROM events WHERE id = ?', [id]);
+    await this.db.runAsync('DELETE FROM attendees WHERE eventId = ?', [id]);
+  }
+
+  /**
+   * Generates an identifier from the current timestamp, bumping it when
+   * several events are created within the same millisecond.
+   */
+  private generateId(): string {
+    let millis = Date.now();
+    while (this.events.some(event => event.id === millis.toString())) {
+      millis++;
+    }
+    return millis.toString();
+  }
+
   subscribe(callback: Subscriber) {
     this.subscribers.push(callback);
   }
@@ -66,23 +237,154 @@ class CalendarService {
     this.subscribers.forEach(callback => callback());
   }
 
-  /** Returns a snapshot of all events currently in memory. */
+  addChangeListener(listener: ChangeListener) {
+    this.changeListeners.push(listener);
+  }
+
+  removeChangeListener(listener: ChangeListener) {
+    this.changeListeners = this.changeListeners.filter(l => l !== listener);
+  }
+
+  private emitChanges(changes: EventChange[]) {
+    this.changeListeners.forEach(listener => listener(changes));
+  }
+
+  /**
+   * Returns a snapshot of all events currently in memory. Recurring
+   * events are expanded into their occurrences up to a year ahead.
+   */
   getAllEvents(): Event[] {
+    const horizon = new Date();
+    horizon.setDate(horizon.getDate() + RECURRENCE_HORIZON_DAYS);
+    return this.events.flatMap(event => (event.recurrence ? expandEvent(event, event.startTime, horizon) : [event]));
+  }
+
+  /**
+   * Returns the stored events without expanding recurring ones, e.g. for
+   * exporting whole series.
+   */
+  getStoredEvents(): Event[] {
     return this.events;
   }
 
   /**
-   * Returns all events that occur on the given date. The provided
-   * parameter can be any Date; the time part is ignored.
+   * Returns every event or occurrence overlapping [start, end), sorted
+   * by start time.
+   */
+  getEventsInRange(start: Date, end: Date): Event[] {
+    return this.events
+      .flatMap(event => expandEvent(event, start, end))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  /**
+   * Returns the timed events or occurrences whose busy time, including
+   * any travel buffer, overlaps [start, end). Events starting up to the
+   * longest travel buffer after `end` are included for that reason.
+   */
+  private getBusyEventsInRange(start: Date, end: Date): Event[] {
+    const longestTravel = Math.max(0, ...this.events.map(event => event.travelMinutes ?? 0));
+    return this.getEventsInRange(start, new Date(end.getTime() + longestTravel * MINUTE)).filter(
+      event => !event.allDay && overlaps(start, end, travelStart(event), event.endTime)
+    );
+  }
+
+  /**
+   * Returns the events or occurrences that would overlap an event at
+   * [start, end) preceded by `travelMinutes` of travel. Other events'
+   * travel buffers count as busy too. `ignoreId` excludes the event being
+   * moved: pass its id, or a series id to exclude the whole series. For a
+   * new recurring event only the first occurrence is checked. All-day
+   * events do not block time and never conflict.
+   */
+  findConflicts(start: Date, end: Date, ignoreId?: string, travelMinutes = 0): Event[] {
+    return this.getBusyEventsInRange(new Date(start.getTime() - travelMinutes * MINUTE), end).filter(
+      event => event.id !== ignoreId && event.seriesId !== ignoreId
+    );
+  }
+
+  /**
+   * Returns up to `limit` free slots of `durationMinutes` between
+   * rangeStart and rangeEnd, best first (see FreeTime.findFreeSlots).
+   * Travel buffers count as busy.
+   */
+  findFreeSlots(rangeStart: Date, rangeEnd: Date, durationMinutes: number, limit?: number): TimeSlot[] {
+    const busy = this.getBusyEventsInRange(rangeStart, rangeEnd).map(event => ({
+      start: travelStart(event),
+      end: event.endTime,
+    }));
+    return findFreeSlots(busy, rangeStart, rangeEnd, durationMinutes, limit);
+  }
+
+  /**
+   * Returns the timed events just before and just after `event` that do
+   * not overlap it, within a day either side. Other occurrences of the
+   * same series are skipped.
+   */
+  private findNeighbours(event: Event): { previous?: Event; next?: Event } {
+    const series = event.seriesId ?? event.id;
+    const nearby = this.getEventsInRange(
+      new Date(event.startTime.getTime() - NEIGHBOUR_WINDOW_MS),
+      new Date(event.endTime.getTime() + NEIGHBOUR_WINDOW_MS)
+    ).filter(other => !other.allDay && (other.seriesId ?? other.id) !== series);
+    const previous = nearby
+      .filter(other => other.endTime.getTime() <= event.startTime.getTime())
+      .sort((a, b) => b.endTime.getTime() - a.endTime.getTime())[0];
+    const next = nearby.find(other => other.startTime.getTime() >= event.endTime.getTime());
+    return { previous, next };
+  }
+
+  /**
+   * Looks up the travel time to `event` from the location of the event
+   * before it in the travel times table. Returns undefined when either
+   * has no location, they are at the same place or the route is unknown.
+   */
+  suggestTravelMinutes(event: Event): { from: Event; minutes: number } | undefined {
+    const { previous } = this.findNeighbours(event);
+    if (event.allDay || !event.location || !previous?.location || samePlace(previous.location, event.location)) {
+      return undefined;
+    }
+    const minutes = travelService.lookup(previous.location, event.location);
+    return minutes !== undefined ? { from: previous, minutes } : undefined;
+  }
+
+  /**
+   * Returns the travel problems `event`, stored or proposed, would have
+   * with the events before and after it: a different location with less
+   * time between them than the travel times table gives, or none at all
+   * when the route is unknown. A pair is skipped when the later event
+   * has its own travel buffer, since findConflicts covers it.
+   */
+  findTravelWarnings(event: Event): TravelWarning[] {
+    if (event.allDay || !event.location) {
+      return [];
+    }
+    const { previous, next } = this.findNeighbours(event);
+    const warnings: TravelWarning[] = [];
+    for (const [from, to] of [[previous, event], [event, next]]) {
+      if (!from?.location || !to?.location || to.travelMinutes || samePlace(from.location, to.location)) {
+        continue;
+      }
+      const gapMinutes = Math.round((to.startTime.getTime() - from.endTime.getTime()) / MINUTE);
+      const neededMinutes = travelService.lookup(from.location, to.location);
+      if (neededMinutes !== undefined ? gapMinutes < neededMinutes : gapMinutes <= 0) {
+        warnings.push({ from, to, gapMinutes, neededMinutes });
+      }
+    }
+    return warnings;
+  }
+
+  /**
+   * Returns all events that occur on the given date, including all-day
+   * and multi-day events that started earlier. The provided parameter
+   * can be any Date; the time part is ignored.
    */
   getEventsForDate(date: Date): Event[] {
-    const selectedDate = new Date(date);
-    selectedDate.setHours(0, 0, 0, 0);
-    return this.events.filter(event => {
-      const eventDate = new Date(event.startTime);
-      eventDate.setHours(0, 0, 0, 0);
-      return eventDate.getTime() === selectedDate.getTime();
-    });
+    const dayStart = new Date(date);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+    return this.getEventsInRange(dayStart, dayEnd);
   }
 
   /**
@@ -90,10 +392,16 @@ class CalendarService {
    * newly created event. The identifier is generated from the current
    * timestamp to ensure uniqueness across sessions.
    */
-  createEvent(title: string, startTime: string, endTime: string, description?: string): Event {
-    const id = Date.now().toString();
+  createEvent(
+    title: string,
+    startTime: string,
+    endTime: string,
+    description?: string,
+    extras: EventExtras = {}
+  ): Event {
     const newEvent: Event = {
-      id,
+      ...extras,
+      id: this.generateId(),
       title,
       description,
       startTime: new Date(startTime),
@@ -102,13 +410,9 @@ class CalendarService {
     // Update the in-memory cache first so that UI updates immediately
     this.events.push(newEvent);
     this.notify();
+    this.emitChanges([{ after: newEvent }]);
     // Persist asynchronously
-    const startMillis = new Date(startTime).getTime();
-    const endMillis = new Date(endTime).getTime();
-    this.db.runAsync(
-      'INSERT INTO events (id, title, startTime, endTime, description) VALUES (?, ?, ?, ?, ?)',
-      [id, title, startMillis, endMillis, description ?? null]
-    );
+    this.insertRow(newEvent);
     return newEvent;
   }
 
@@ -119,83 +423,296 @@ class CalendarService {
   }
 
   /**
-   * Updates the first event matching the provided title (case-insensitive).
-   * Applies any updates to the in-memory cache and then writes the
-   * changes to the database. Returns the updated event, if any.
-   */
-  updateEventByTitle(titleQuery: string, updates: Partial<Event>): Event | undefined {
-    const eventToUpdate = this.events.find(event => event.title.toLowerCase().includes(titleQuery.toLowerCase()));
-    if (eventToUpdate) {
-      Object.assign(eventToUpdate, updates);
-      this.notify();
-      // Persist asynchronously
-      const { id } = eventToUpdate;
-      const { title, startTime, endTime, description } = eventToUpdate;
-      const startMillis = startTime instanceof Date ? startTime.getTime() : new Date(startTime!).getTime();
-      const endMillis = endTime instanceof Date ? endTime.getTime() : new Date(endTime!).getTime();
-      this.db.runAsync(
-        'UPDATE events SET title = ?, startTime = ?, endTime = ?, description = ? WHERE id = ?',
-        [title, startMillis, endMillis, description ?? null, id]
-      );
-      return eventToUpdate;
+   * Returns the events an assistant command naming `titleQuery` could
+   * mean: the events whose title matches exactly (ignoring case) if there
+   * are any, otherwise every event whose title contains the query.
+   * Callers must ask the user to choose when more than one is returned.
+   */
+  findEventCandidates(titleQuery: string): Event[] {
+    const lowercasedQuery = titleQuery.trim().toLowerCase();
+    const exact = this.events.filter(event => event.title.trim().toLowerCase() === lowercasedQuery);
+    return exact.length > 0 ? exact : this.findEventsByTitle(lowercasedQuery);
+  }
+
+  /** Finds a stored event by its iCalendar UID. */
+  getEventByUid(uid: string): Event | undefined {
+    return this.events.find(event => event.uid === uid);
+  }
+
+  /** Finds an event or a recurring event's occurrence by its ID. */
+  getEventById(id: string): Event | undefined {
+    const event = this.events.find(e => e.id === id);
+    if (event) {
+      return event;
     }
-    return undefined;
+    const ref = parseOccurrenceId(id);
+    const series = ref ? this.events.find(e => e.id === ref.seriesId) : undefined;
+    return ref && series ? buildOccurrence(series, ref.originalStart) : undefined;
   }
 
   /**
-   * Deletes the first event whose title matches the query.
+   * Updates the event with the given ID, persisting every field present
+   * in `changes`. When the ID refers to an occurrence of a recurring
+   * event, `scope` decides whether only that occurrence, it and all
+   * later ones, or the whole series changes. Returns the updated event
+   * if successful.
    */
-  deleteEventByTitle(titleQuery: string): boolean {
-    const eventToDelete = this.findEventsByTitle(titleQuery)[0];
-    if (eventToDelete) {
-      this.events = this.events.filter(event => event.id !== eventToDelete.id);
-      this.notify();
-      // Persist asynchronously
-      this.db.runAsync('DELETE FROM events WHERE id = ?', [eventToDelete.id]);
-      return true;
+  async updateEvent(
+    id: string,
+    changes: Partial<Event>,
+    scope: RecurrenceEditScope = 'series'
+  ): Promise<Event | undefined> {
+    const ref = parseOccurrenceId(id);
+    const eventIndex = this.events.findIndex(event => event.id === (ref ? ref.seriesId : id));
+    if (eventIndex === -1) {
+      return undefined;
+    }
+    const existing = this.events[eventIndex];
+    const { id: _ignored, seriesId, originalStart, ...fields } = changes;
+
+    if (ref && existing.recurrence && scope !== 'series') {
+      const occurrence = buildOccurrence(existing, ref.originalStart);
+      const before = countOccurrencesBefore(existing, ref.originalStart);
+      if (scope === 'this' || before > 0) {
+        const updatedSeries: Event =
+          scope === 'this'
+            ? { ...existing, exceptionDates: [...(existing.exceptionDates ?? []), ref.originalStart] }
+            : this.truncateSeries(existing, ref.originalStart, before);
+        const split: Event = {
+          ...detach(occurrence),
+          ...fields,
+          id: this.generateId(),
+          recurrence:
+            scope === 'this'
+              ? undefined
+              : this.remainingRule(existing, before, 'recurrence' in fields ? fields.recurrence : existing.recurrence),
+          exceptionDates:
+            scope === 'this'
+              ? undefined
+              : existing.exceptionDates?.filter(d => d.getTime() >= ref.originalStart.getTime()),
+        };
+        this.events[eventIndex] = updatedSeries;
+        this.events.push(split);
+        this.notify();
+        this.emitChanges([{ before: existing, after: updatedSeries }, { after: split }]);
+        await Promise.all([this.updateRow(updatedSeries), this.insertRow(split)]);
+        return split;
+      }
+      // "This and following" from the first occurrence is the whole series.
+    }
+
+    const updatedEvent: Event = { ...existing, ...fields };
+    if (ref) {
+      // Times edited on an occurrence shift the whole series by the same amount.
+      const occurrence = buildOccurrence(existing, ref.originalStart);
+      if (fields.startTime) {
+        const delta = fields.startTime.getTime() - occurrence.startTime.getTime();
+        updatedEvent.startTime = new Date(existing.startTime.getTime() + delta);
+      }
+      if (fields.endTime) {
+        const delta = fields.endTime.getTime() - occurrence.endTime.getTime();
+        updatedEvent.endTime = new Date(existing.endTime.getTime() + delta);
+      }
     }
-    return false;
+    this.events[eventIndex] = updatedEvent;
+    this.notify();
+    this.emitChanges([{ before: existing, after: updatedEvent }]);
+    // Persist asynchronously
+    await this.updateRow(updatedEvent);
+    return updatedEvent;
   }
 
-  /** Finds an event by its ID. */
-  getEventById(id: string): Event | undefined {
-    return this.events.find(event => event.id === id);
+  /**
+   * Returns a copy of the series ending just before `at`. `before` is the
+   * number of occurrences preceding `at`, which becomes the new COUNT
+   * for counted series.
+   */
+  private truncateSeries(event: Event, at: Date, before: number): Event {
+    const rule = event.recurrence!;
+    return {
+      ...event,
+      recurrence: rule.count
+        ? { ...rule, count: before }
+        : { ...rule, until: new Date(at.getTime() - 1) },
+      exceptionDates: event.exceptionDates?.filter(d => d.getTime() < at.getTime()),
+    };
+  }
+
+  /** Carries a rule over to the tail of a split series, reducing COUNT by the occurrences already used. */
+  private remainingRule(event: Event, before: number, rule: Event['recurrence']): Event['recurrence'] {
+    if (!rule) {
+      return undefined;
+    }
+    if (rule === event.recurrence && rule.count) {
+      return { ...rule, count: Math.max(1, rule.count - before) };
+    }
+    return rule;
   }
 
   /**
-   * Updates the event with the given ID. Returns the updated event if
+   * Deletes the event with the given ID. For an occurrence of a
+   * recurring event, `scope` decides whether only that occurrence, it
+   * and all later ones, or the whole series is removed. Returns true if
    * successful.
    */
-  async updateEvent(id: string, title: string, description?: string): Promise<Event | undefined> {
-    const eventIndex = this.events.findIndex(event => event.id === id);
-    if (eventIndex > -1) {
-      const existing = this.events[eventIndex];
-      const updatedEvent: Event = { ...existing, title, description };
-      this.events[eventIndex] = updatedEvent;
-      this.notify();
-      // Persist asynchronously
-      await this.db.runAsync(
-        'UPDATE events SET title = ?, description = ? WHERE id = ?',
-        [title, description ?? null, id]
-      );
-      return updatedEvent;
+  async deleteEvent(id: string, scope: RecurrenceEditScope = 'series'): Promise<boolean> {
+    const ref = parseOccurrenceId(id);
+    const eventIndex = this.events.findIndex(event => event.id === (ref ? ref.seriesId : id));
+    if (eventIndex === -1) {
+      return false;
+    }
+    const existing = this.events[eventIndex];
+
+    if (ref && existing.recurrence && scope !== 'series') {
+      const before = countOccurrencesBefore(existing, ref.originalStart);
+      if (scope === 'this' || before > 0) {
+        const updatedSeries: Event =
+          scope === 'this'
+            ? { ...existing, exceptionDates: [...(existing.exceptionDates ?? []), ref.originalStart] }
+            : this.truncateSeries(existing, ref.originalStart, before);
+        this.events[eventIndex] = updatedSeries;
+        this.notify();
+        this.emitChanges([{ before: existing, after: updatedSeries }]);
+        await this.updateRow(updatedSeries);
+        return true;
+      }
     }
-    return undefined;
+
+    this.events.splice(eventIndex, 1);
+    this.notify();
+    this.emitChanges([{ before: existing }]);
+    // Persist asynchronously
+    await this.deleteRow(existing.id);
+    return true;
+  }
+
+  /**
+   * Stores the given event exactly as provided, replacing any event with
+   * the same ID. Change listeners are not notified: this exists for the
+   * journal to restore snapshots when undoing and redoing.
+   */
+  async putEvent(event: Event): Promise<void> {
+    const index = this.events.findIndex(e => e.id === event.id);
+    if (index > -1) {
+      this.events[index] = event;
+    } else {
+      this.events.push(event);
+    }
+    this.notify();
+    await (index > -1 ? this.updateRow(event) : this.insertRow(event));
+  }
+
+  /** Removes the event with the given ID without notifying change listeners. See putEvent. */
+  async removeEvent(id: string): Promise<void> {
+    this.events = this.events.filter(e => e.id !== id);
+    this.notify();
+    await this.deleteRow(id);
+  }
+
+  /** Returns the calendars in the order they were created, the default one first. */
+  getCalendars(): Calendar[] {
+    return this.calendars.length > 0 ? this.calendars : [FALLBACK_CALENDAR];
+  }
+
+  /** Returns the calendar with the given ID, or the default calendar for events without one. */
+  getCalendar(id?: string): Calendar {
+    const calendars = this.getCalendars();
+    return (
+      calendars.find(calendar => calendar.id === (id ?? DEFAULT_CALENDAR_ID)) ??
+      calendars.find(calendar => calendar.id === DEFAULT_CALENDAR_ID) ??
+      FALLBACK_CALENDAR
+    );
+  }
+
+  /** Finds a calendar by name, ignoring case and surrounding spaces. */
+  findCalendarByName(name: string): Calendar | undefined {
+    const wanted = name.trim().toLowerCase();
+    return this.calendars.find(calendar => calendar.name.trim().toLowerCase() === wanted);
+  }
+
+  /** Returns false for events in a hidden calendar. */
+  isEventVisible(event: Event): boolean {
+    return this.getCalendar(event.calendarId).visible;
+  }
+
+  /** Throws if `name` is empty or already used by another calendar. */
+  private checkCalendarName(name: string, ignoreId?: string) {
+    if (!name.trim()) {
+      throw new Error('A calendar needs a name.');
+    }
+    const existing = this.findCalendarByName(name);
+    if (existing && existing.id !== ignoreId) {
+      throw new Error(`There is already a calendar called '${existing.name}'.`);
+    }
+  }
+
+  /** Creates a visible calendar. Throws if the name is empty or taken. */
+  async createCalendar(name: string, color: string): Promise<Calendar> {
+    this.checkCalendarName(name);
+    let millis = Date.now();
+    while (this.calendars.some(calendar => calendar.id === millis.toString())) {
+      millis++;
+    }
+    const calendar: Calendar = { id: millis.toString(), name: name.trim(), color, visible: true };
+    this.calendars = [...this.calendars, calendar];
+    this.notify();
+    await this.db.runAsync('INSERT INTO calendars (id, name, color, visible) VALUES (?, ?, ?, 1)', [
+      calendar.id,
+      calendar.name,
+      calendar.color,
+    ]);
+    return calendar;
+  }
+
+  /**
+   * Renames, recolours, hides or shows a calendar. Throws if the new
+   * name is empty or taken. Returns the updated calendar if successful.
+   */
+  async updateCalendar(id: string, changes: Partial<Omit<Calendar, 'id'>>): Promise<Calendar | undefined> {
+    const existing = this.calendars.find(calendar => calendar.id === id);
+    if (!existing) {
+      return undefined;
+    }
+    if (changes.name !== undefined) {
+      this.checkCalendarName(changes.name, id);
+    }
+    const updated: Calendar = { ...existing, ...changes, id, name: (changes.name ?? existing.name).trim() };
+    this.calendars = this.calendars.map(calendar => (calendar.id === id ? updated : calendar));
+    this.notify();
+    await this.db.runAsync('UPDATE calendars SET name = ?, color = ?, visible = ? WHERE id = ?', [
+      updated.name,
+      updated.color,
+      updated.visible ? 1 : 0,
+      id,
+    ]);
+    return updated;
   }
 
   /**
-   * Deletes the event with the given ID. Returns true if successful.
+   * Deletes a calendar, moving its events to the default calendar. The
+   * default calendar cannot be deleted. Returns true if successful.
    */
-  async deleteEvent(id: string): Promise<boolean> {
-    const eventIndex = this.events.findIndex(event => event.id === id);
-    if (eventIndex > -1) {
-      this.events.splice(eventIndex, 1);
-      this.notify();
-      // Persist asynchronously
-      await this.db.runAsync('DELETE FROM events WHERE id = ?', [id]);
-      return true;
+  async deleteCalendar(id: string): Promise<boolean> {
+    if (id === DEFAULT_CALENDAR_ID || !this.calendars.some(calendar => calendar.id === id)) {
+      return false;
+    }
+    const changes: EventChange[] = [];
+    this.events = this.events.map(event => {
+      if (event.calendarId !== id) {
+        return event;
+      }
+      const { calendarId, ...moved } = event;
+      changes.push({ before: event, after: moved });
+      return moved;
+    });
+    this.calendars = this.calendars.filter(calendar => calendar.id !== id);
+    this.notify();
+    if (changes.length > 0) {
+      this.emitChanges(changes);
     }
-    return false;
+    await this.db.runAsync('UPDATE events SET calendarId = NULL WHERE calendarId = ?', [id]);
+    await this.db.runAsync('DELETE FROM calendars WHERE id = ?', [id]);
+    return true;
   }
 }
 
@@ -1,78 +1,118 @@
 import * as SQLite from 'expo-sqlite';
 import { Event } from '../types/Event';
+import { Task } from '../types/Task';
+import { ActionResult } from '../types/Action';
+import { getDatabase } from './Database';
+import { describeResult } from './ActionParser';
 
 export type ChatMessage = {
+  /** Row id, present once the message has been saved. */
+  id?: number;
   role: 'user' | 'assistant';
-  content: string | Event[];
+  content: ActionResult;
+  /** Journal batch of the calendar changes the assistant made for this message. */
+  batchId?: string;
+  /** The model's raw reply (e.g. the ACTION line) behind an assistant message. */
+  modelOutput?: string;
 };
 
+/** Optional details saved alongside a message. */
+export type MessageExtras = Pick<ChatMessage, 'batchId' | 'modelOutput'>;
+
 /**
  * ChatStorageService persists chat messages to the same SQLite database
  * used for event storage. Messages are stored as JSON strings along
  * with their role and a timestamp. On retrieval the JSON is parsed
- * back into either a string or an array of events with Date objects
- * restored for event times.
+ * back into either a string, an array of events, a task list or a
+ * choice, confirmation or free-slot prompt, with Date objects restored.
+ *
+ * Messages belong to a conversation. Starting a new conversation hides
+ * the previous messages from the chat and from the model's context
+ * while keeping them in the database.
+ *
+ * Each message also stores its plain text in `searchText`, which the
+ * full-text index (see SearchService) is built from.
  */
 class ChatStorageService {
   private db!: SQLite.SQLiteDatabase;
+  private conversationId = 1;
 
   constructor() {
     // Database is opened asynchronously in init()
   }
 
   /**
-   * Ensures the messages table exists. Should be called before any
-   * other operations.
+   * Obtains the shared database connection; the messages table is
+   * created by the schema migrations. Should be called before any other
+   * operations.
    */
   async init(): Promise<void> {
-    this.db = await SQLite.openDatabaseAsync('calendar.db');
-    await this.db.execAsync(
-      'CREATE TABLE IF NOT EXISTS messages (id INTEGER PRIMARY KEY AUTOINCREMENT, role TEXT NOT NULL, content TEXT NOT NULL, timestamp INTEGER NOT NULL)'
-    );
+    this.db = await getDatabase();
+    const row = await this.db.getFirstAsync<{ id: number | null }>('SELECT MAX(id) AS id FROM conversations');
+    this.conversationId = row?.id ?? 1;
+  }
+
+  /** Starts a new, empty conversation; later messages are saved to it. */
+  async startNewConversation(): Promise<void> {
+    const result = await this.db.runAsync('INSERT INTO conversations (startedAt) VALUES (?)', [Date.now()]);
+    this.conversationId = result.lastInsertRowId;
+  }
+
+  /**
+   * Makes an earlier conversation the current one, e.g. to show a search
+   * result in context; later messages are saved to it.
+   */
+  openConversation(conversationId: number): void {
+    this.conversationId = conversationId;
   }
 
   /**
-   * Saves a message to the database. The content can be a string or an
-   * array of events; it will be serialised to JSON. The timestamp
-   * defaults to the current time.
+   * Saves a message to the database. The content can be a string, an
+   * array of events or a prompt; it will be serialised to JSON. The
+   * timestamp defaults to the current time. `extras.batchId` links an
+   * assistant message to the journal batch of the changes it made.
+   * Resolves to the new message's id.
    */
-  async saveMessage(role: 'user' | 'assistant', content: string | Event[]): Promise<void> {
+  async saveMessage(role: 'user' | 'assistant', content: ActionResult, extras: MessageExtras = {}): Promise<number> {
     const json = typeof content === 'string' ? JSON.stringify({ text: content }) : JSON.stringify(content);
     const ts = Date.now();
-    await this.db.runAsync(
-      'INSERT INTO messages (role, content, timestamp) VALUES (?, ?, ?)',
-      [role, json, ts]
+    const result = await this.db.runAsync(
+      'INSERT INTO messages (role, content, timestamp, batchId, modelOutput, conversationId, searchText) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [role, json, ts, extras.batchId ?? null, extras.modelOutput ?? null, this.conversationId, describeResult(content)]
     );
+    return result.lastInsertRowId;
+  }
+
+  /** Replaces the content of a saved message, e.g. to mark a prompt as resolved. */
+  async updateMessageContent(id: number, content: ActionResult): Promise<void> {
+    const json = typeof content === 'string' ? JSON.stringify({ text: content }) : JSON.stringify(content);
+    await this.db.runAsync('UPDATE messages SET content = ?, searchText = ? WHERE id = ?', [
+      json,
+      describeResult(content),
+      id,
+    ]);
   }
 
   /**
-   * Retrieves all messages from the database sorted by timestamp in
+   * Retrieves the current conversation's messages sorted by timestamp in
    * ascending order. Each message's content is parsed back into its
    * original shape.
    */
   async getAllMessages(): Promise<ChatMessage[]> {
-    const result = await this.db.getAllAsync<any>('SELECT role, content FROM messages ORDER BY timestamp ASC');
-    return result.map(row => {
-      let parsed: any;
-      try {
-        parsed = JSON.parse(row.content);
-      } catch (e) {
-        parsed = row.content;
-      }
-      // If the parsed result has a `text` property treat it as a plain string
-      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && 'text' in parsed) {
-        parsed = parsed.text;
-      }
-      // If it's an array assume it's events and convert times back to Date objects
-      if (Array.isArray(parsed)) {
-        parsed = parsed.map((ev: any) => ({
-          ...ev,
-          startTime: ev.startTime ? new Date(ev.startTime) : undefined,
-          endTime: ev.endTime ? new Date(ev.endTime) : undefined,
-        })) as Event[];
-      }
-      return { role: row.role as 'user' | 'assistant', content: parsed };
-    });
+    const result = await this.db.getAllAsync<any>(
+      'SELECT id, role, content, batchId, modelOutput FROM messages WHERE conversationId = ? ORDER BY timestamp ASC, id ASC',
+      [this.conversationId]
+    );
+    return result.map(rowToMessage);
+  }
+
+  /** Returns the last `limit` messages of the current conversation, oldest first. */
+  async getRecentMessages(limit: number): Promise<ChatMessage[]> {
+    const result = await this.db.getAllAsync<any>(
+      'SELECT id, role, content, batchId, modelOutput FROM messages WHERE conversationId = ? ORDER BY timestamp DESC, id DESC LIMIT ?',
+      [this.conversationId, limit]
+    );
+    return result.reverse().map(rowToMessage);
   }
 
   /**
@@ -84,5 +124,61 @@ class ChatStorageService {
   }
 }
 
+/** Parses a messages row back into a ChatMessage. */
+function rowToMessage(row: any): ChatMessage {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(row.content);
+  } catch (e) {
+    parsed = row.content;
+  }
+  // If the parsed result has a `text` property treat it as a plain string
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && 'text' in parsed) {
+    parsed = parsed.text;
+  }
+  // If it's an array assume it's events and convert times back to Date objects
+  if (Array.isArray(parsed)) {
+    parsed = parsed.map(reviveEvent);
+  } else if (parsed && typeof parsed === 'object' && parsed.kind === 'choice') {
+    parsed = { ...parsed, candidates: parsed.candidates.map(reviveEvent) };
+  } else if (parsed && typeof parsed === 'object' && parsed.kind === 'taskChoice') {
+    parsed = { ...parsed, candidates: parsed.candidates.map(reviveTask) };
+  } else if (parsed && typeof parsed === 'object' && parsed.kind === 'confirm') {
+    parsed = { ...parsed, event: parsed.event && reviveEvent(parsed.event) };
+  } else if (parsed && typeof parsed === 'object' && parsed.kind === 'tasks') {
+    parsed = { ...parsed, tasks: parsed.tasks.map(reviveTask) };
+  } else if (parsed && typeof parsed === 'object' && parsed.kind === 'slots') {
+    parsed = {
+      ...parsed,
+      slots: parsed.slots.map((slot: any) => ({ start: new Date(slot.start), end: new Date(slot.end) })),
+    };
+  }
+  return {
+    id: row.id,
+    role: row.role as 'user' | 'assistant',
+    content: parsed,
+    batchId: row.batchId ?? undefined,
+    modelOutput: row.modelOutput ?? undefined,
+  };
+}
+
+/** Restores the Date fields of an event read back from JSON. */
+function reviveEvent(ev: any): Event {
+  return {
+    ...ev,
+    startTime: ev.startTime ? new Date(ev.startTime) : undefined,
+    endTime: ev.endTime ? new Date(ev.endTime) : undefined,
+  };
+}
+
+/** Restores the Date fields of a task read back from JSON. */
+function reviveTask(task: any): Task {
+  return {
+    ...task,
+    due: task.due ? new Date(task.due) : undefined,
+    completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+  };
+}
+
 const chatStorageService = new ChatStorageService();
 export default chatStorageService;
\ No newline at end of file
@@ -0,0 +1,259 @@
+import * as SQLite from 'expo-sqlite';
+
+/**
+ * A single schema change. `up` runs inside a transaction together with
+ * the bump of PRAGMA user_version to `version`, so a failing migration
+ * leaves the database at the previous version.
+ */
+export type Migration = {
+  version: number;
+  description: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+};
+
+/**
+ * Adds a column unless it is already present. Used by migrations that
+ * must also cope with databases patched before versioning existed.
+ */
+async function addColumnIfMissing(db: SQLite.SQLiteDatabase, table: string, column: string, type: string) {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (!columns.some(existing => existing.name === column)) {
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+/**
+ * The ordered list of schema versions for calendar.db. Append new
+ * entries with the next version number; never edit one that has
+ * shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create the events and messages tables',
+    up: async db => {
+      // IF NOT EXISTS keeps installs that predate versioning (user_version 0) intact.
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS events (id TEXT PRIMARY KEY NOT NULL, title TEXT NOT NULL, startTime INTEGER NOT NULL, endTime INTEGER NOT NULL, description TEXT);
+        CREATE TABLE IF NOT EXISTS messages (id INTEGER PRIMARY KEY AUTOINCREMENT, role TEXT NOT NULL, content TEXT NOT NULL, timestamp INTEGER NOT NULL);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Add recurrence and iCalendar UID columns to events',
+    up: async db => {
+      await addColumnIfMissing(db, 'events', 'rrule', 'TEXT');
+      await addColumnIfMissing(db, 'events', 'exdates', 'TEXT');
+      await addColumnIfMissing(db, 'events', 'uid', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    description: 'Add the undo journal and link chat messages to journal batches',
+    up: async db => {
+      await db.execAsync(`
+        CREATE TABLE journal (id INTEGER PRIMARY KEY AUTOINCREMENT, batchId TEXT NOT NULL, source TEXT NOT NULL, operation TEXT NOT NULL, eventId TEXT NOT NULL, before TEXT, after TEXT, timestamp INTEGER NOT NULL, undone INTEGER NOT NULL DEFAULT 0);
+        CREATE INDEX journal_batch ON journal (batchId);
+        ALTER TABLE messages ADD COLUMN batchId TEXT;
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Group chat messages into conversations and keep the raw model output',
+    up: async db => {
+      await db.execAsync(`
+        CREATE TABLE conversations (id INTEGER PRIMARY KEY AUTOINCREMENT, startedAt INTEGER NOT NULL);
+        INSERT INTO conversations (id, startedAt) VALUES (1, ${Date.now()});
+        ALTER TABLE messages ADD COLUMN conversationId INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE messages ADD COLUMN modelOutput TEXT;
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Add the all-day flag to events',
+    up: async db => {
+      await db.execAsync('ALTER TABLE events ADD COLUMN allDay INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 6,
+    description: 'Add the IANA time zone to events',
+    up: async db => {
+      await db.execAsync('ALTER TABLE events ADD COLUMN timeZone TEXT');
+    },
+  },
+  {
+    version: 7,
+    description: 'Add reminder offsets to events',
+    up: async db => {
+      await db.execAsync('ALTER TABLE events ADD COLUMN reminders TEXT');
+    },
+  },
+  {
+    version: 8,
+    description: 'Add full-text indexes over events and chat messages',
+    up: async db => {
+      // External-content FTS5 tables, kept in sync with their tables by triggers.
+      // Messages are indexed by searchText, the plain text of their content.
+      // Earlier messages get the text of plain replies and prompts.
+      await db.execAsync(`
+        ALTER TABLE messages ADD COLUMN searchText TEXT;
+        UPDATE messages SET searchText = COALESCE(json_extract(content, '$.text'), json_extract(content, '$.prompt')) WHERE CASE WHEN json_valid(content) THEN json_type(content) = 'object' ELSE 0 END;
+
+        CREATE VIRTUAL TABLE events_fts USING fts5(title, description, content='events', tokenize='unicode61 remove_diacritics 2');
+        CREATE TRIGGER events_fts_insert AFTER INSERT ON events BEGIN
+          INSERT INTO events_fts (rowid, title, description) VALUES (new.rowid, new.title, new.description);
+        END;
+        CREATE TRIGGER events_fts_delete AFTER DELETE ON events BEGIN
+          INSERT INTO events_fts (events_fts, rowid, title, description) VALUES ('delete', old.rowid, old.title, old.description);
+        END;
+        CREATE TRIGGER events_fts_update AFTER UPDATE OF title, description ON events BEGIN
+          INSERT INTO events_fts (events_fts, rowid, title, description) VALUES ('delete', old.rowid, old.title, old.description);
+          INSERT INTO events_fts (rowid, title, description) VALUES (new.rowid, new.title, new.description);
+        END;
+        INSERT INTO events_fts (events_fts) VALUES ('rebuild');
+
+        CREATE VIRTUAL TABLE messages_fts USING fts5(searchText, content='messages', content_rowid='id', tokenize='unicode61 remove_diacritics 2');
+        CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages BEGIN
+          INSERT INTO messages_fts (rowid, searchText) VALUES (new.id, new.searchText);
+        END;
+        CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, searchText) VALUES ('delete', old.id, old.searchText);
+        END;
+        CREATE TRIGGER messages_fts_update AFTER UPDATE OF searchText ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, searchText) VALUES ('delete', old.id, old.searchText);
+          INSERT INTO messages_fts (rowid, searchText) VALUES (new.id, new.searchText);
+        END;
+        INSERT INTO messages_fts (messages_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: 'Add a key-value table for settings',
+    up: async db => {
+      await db.execAsync('CREATE TABLE settings (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL)');
+    },
+  },
+  {
+    version: 10,
+    description: 'Add calendars and assign events to them',
+    up: async db => {
+      // Events without a calendar belong to the default one, which cannot be deleted.
+      await db.execAsync(`
+        CREATE TABLE calendars (id TEXT PRIMARY KEY NOT NULL, name TEXT NOT NULL, color TEXT NOT NULL, visible INTEGER NOT NULL DEFAULT 1);
+        INSERT INTO calendars (id, name, color) VALUES ('default', 'Personal', '#007AFF');
+        ALTER TABLE events ADD COLUMN calendarId TEXT;
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: 'Add event attendees',
+    up: async db => {
+      await db.execAsync(
+        'CREATE TABLE attendees (eventId TEXT NOT NULL, position INTEGER NOT NULL, name TEXT NOT NULL, email TEXT, status TEXT, PRIMARY KEY (eventId, position))'
+      );
+    },
+  },
+  {
+    version: 12,
+    description: 'Add event locations, travel buffers and a table of travel times',
+    up: async db => {
+      await db.execAsync(`
+        ALTER TABLE events ADD COLUMN location TEXT;
+        ALTER TABLE events ADD COLUMN travelMinutes INTEGER;
+        CREATE TABLE travel_times (origin TEXT NOT NULL COLLATE NOCASE, destination TEXT NOT NULL COLLATE NOCASE, minutes INTEGER NOT NULL, PRIMARY KEY (origin, destination));
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: 'Add tasks',
+    up: async db => {
+      await db.execAsync(
+        "CREATE TABLE tasks (id TEXT PRIMARY KEY NOT NULL, title TEXT NOT NULL, due INTEGER, priority TEXT NOT NULL DEFAULT 'medium', done INTEGER NOT NULL DEFAULT 0, completedAt INTEGER)"
+      );
+    },
+  },
+  {
+    version: 14,
+    description: 'Key the event full-text index on a stable integer column',
+    up: async db => {
+      // events_fts was keyed on the implicit rowid, which VACUUM may
+      // renumber in a table with a TEXT primary key. The table is rebuilt
+      // with seq, an INTEGER PRIMARY KEY that keeps the old rowids, and the
+      // index and its triggers are recreated on it.
+      await db.execAsync(`
+        DROP TABLE events_fts;
+        CREATE TABLE events_new (seq INTEGER PRIMARY KEY, id TEXT NOT NULL UNIQUE, title TEXT NOT NULL, startTime INTEGER NOT NULL, endTime INTEGER NOT NULL, description TEXT, rrule TEXT, exdates TEXT, uid TEXT, allDay INTEGER NOT NULL DEFAULT 0, timeZone TEXT, reminders TEXT, calendarId TEXT, location TEXT, travelMinutes INTEGER);
+        INSERT INTO events_new (seq, id, title, startTime, endTime, description, rrule, exdates, uid, allDay, timeZone, reminders, calendarId, location, travelMinutes)
+          SELECT rowid, id, title, startTime, endTime, description, rrule, exdates, uid, allDay, timeZone, reminders, calendarId, location, travelMinutes FROM events;
+        DROP TABLE events;
+        ALTER TABLE events_new RENAME TO events;
+
+        CREATE VIRTUAL TABLE events_fts USING fts5(title, description, content='events', content_rowid='seq', tokenize='unicode61 remove_diacritics 2');
+        CREATE TRIGGER events_fts_insert AFTER INSERT ON events BEGIN
+          INSERT INTO events_fts (rowid, title, description) VALUES (new.seq, new.title, new.description);
+        END;
+        CREATE TRIGGER events_fts_delete AFTER DELETE ON events BEGIN
+          INSERT INTO events_fts (events_fts, rowid, title, description) VALUES ('delete', old.seq, old.title, old.description);
+        END;
+        CREATE TRIGGER events_fts_update AFTER UPDATE OF title, description ON events BEGIN
+          INSERT INTO events_fts (events_fts, rowid, title, description) VALUES ('delete', old.seq, old.title, old.description);
+          INSERT INTO events_fts (rowid, title, description) VALUES (new.seq, new.title, new.description);
+        END;
+        INSERT INTO events_fts (events_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+];
+
+/** Reads the schema version stored in the database header. */
+export async function getSchemaVersion(db: SQLite.SQLiteDatabase): Promise<number> {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+}
+
+/**
+ * Applies every migration newer than the database's user_version, in
+ * order, each in its own transaction. Returns the resulting version.
+ */
+export async function migrate(db: SQLite.SQLiteDatabase, migrations: Migration[] = MIGRATIONS): Promise<number> {
+  let version = await getSchemaVersion(db);
+  const pending = migrations.filter(m => m.version > version).sort((a, b) => a.version - b.version);
+  for (const migration of pending) {
+    await db.withTransactionAsync(async () => {
+      await migration.up(db);
+      // PRAGMA does not accept bound parameters; the version is always an integer.
+      await db.execAsync(`PRAGMA user_version = ${Math.floor(migration.version)}`);
+    });
+    version = migration.version;
+  }
+  return version;
+}
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+/**
+ * Returns the shared connection to calendar.db, opening it and bringing
+ * its schema up to date on first use. Every service should obtain the
+ * database through this function rather than opening it directly.
+ */
+export function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!databasePromise) {
+    databasePromise = (async () => {
+      const db = await SQLite.openDatabaseAsync('calendar.db');
+      await migrate(db);
+      return db;
+    })();
+    // Allow a later call to retry if opening or migrating failed.
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
@@ -0,0 +1,66 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { Notifier } from './ReminderService';
+import { ScheduledReminder } from './Reminders';
+
+const CHANNEL_ID = 'reminders';
+
+/**
+ * Delivers reminders as local notifications through expo-notifications.
+ * Permission is asked for on first use; without it (or on web, where
+ * scheduling is unsupported) reminders are silently dropped.
+ */
+export class ExpoNotifier implements Notifier {
+  private enabled = false;
+
+  async init(): Promise<void> {
+    if (Platform.OS === 'web') {
+      return;
+    }
+    // Show reminders that fire while the app is open as well.
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+      }),
+    });
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+        name: 'Reminders',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+    let permissions = await Notifications.getPermissionsAsync();
+    if (!permissions.granted && permissions.canAskAgain) {
+      permissions = await Notifications.requestPermissionsAsync();
+    }
+    this.enabled = permissions.granted;
+  }
+
+  async cancelAll(): Promise<void> {
+    if (this.enabled) {
+      await Notifications.cancelAllScheduledNotificationsAsync();
+    }
+  }
+
+  async schedule(reminder: ScheduledReminder): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: {
+        title: reminder.title,
+        body: reminder.body,
+        data: { eventId: reminder.eventId },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.fireAt,
+        channelId: CHANNEL_ID,
+      },
+    });
+  }
+}
@@ -0,0 +1,96 @@
+import { TimeSlot } from '../types/Event';
+
+/**
+ * Helpers for finding free time between busy intervals. Days that the
+ * search range covers completely are only searched within working
+ * hours; a range that starts or ends part-way through a day (such as
+ * "Thursday afternoon") is taken as given.
+ */
+
+const WORKDAY_START_HOUR = 8;
+const WORKDAY_END_HOUR = 20;
+// Candidate slots start on this grid, in minutes.
+const SLOT_STEP_MINUTES = 15;
+// Free time around a slot beyond this no longer improves its rank.
+const MAX_ROOM_MINUTES = 60;
+
+const MINUTE = 60 * 1000;
+
+/** Returns true when [aStart, aEnd) and [bStart, bEnd) share any time. */
+export function overlaps(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): boolean {
+  return aStart.getTime() < bEnd.getTime() && bStart.getTime() < aEnd.getTime();
+}
+
+/** Splits [rangeStart, rangeEnd) into the per-day windows that are searched. */
+function searchWindows(rangeStart: Date, rangeEnd: Date): TimeSlot[] {
+  const windows: TimeSlot[] = [];
+  const day = new Date(rangeStart);
+  day.setHours(0, 0, 0, 0);
+  while (day.getTime() < rangeEnd.getTime()) {
+    const nextDay = new Date(day);
+    nextDay.setDate(nextDay.getDate() + 1);
+    let start = new Date(Math.max(day.getTime(), rangeStart.getTime()));
+    let end = new Date(Math.min(nextDay.getTime(), rangeEnd.getTime()));
+    if (start.getTime() === day.getTime() && end.getTime() === nextDay.getTime()) {
+      start = new Date(day);
+      start.setHours(WORKDAY_START_HOUR);
+      end = new Date(day);
+      end.setHours(WORKDAY_END_HOUR);
+    }
+    if (start.getTime() < end.getTime()) {
+      windows.push({ start, end });
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return windows;
+}
+
+/**
+ * Returns up to `limit` non-overlapping free slots of `durationMinutes`
+ * within [rangeStart, rangeEnd), best first. Slots with more free time
+ * on both sides rank higher, so the user is not squeezed between
+ * meetings; ties go to the earlier slot.
+ */
+export function findFreeSlots(
+  busy: TimeSlot[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  durationMinutes: number,
+  limit = 5
+): TimeSlot[] {
+  const duration = durationMinutes * MINUTE;
+  const step = SLOT_STEP_MINUTES * MINUTE;
+  const candidates: { slot: TimeSlot; room: number }[] = [];
+
+  for (const window of searchWindows(rangeStart, rangeEnd)) {
+    const windowStart = window.start.getTime();
+    const windowEnd = window.end.getTime();
+    for (let start = Math.ceil(windowStart / step) * step; start + duration <= windowEnd; start += step) {
+      const end = start + duration;
+      if (busy.some(interval => overlaps(new Date(start), new Date(end), interval.start, interval.end))) {
+        continue;
+      }
+      // Free time before and after the slot, up to the nearest busy interval or the window edge.
+      const previousEnd = Math.max(
+        windowStart,
+        ...busy.map(interval => interval.end.getTime()).filter(time => time <= start)
+      );
+      const nextStart = Math.min(
+        windowEnd,
+        ...busy.map(interval => interval.start.getTime()).filter(time => time >= end)
+      );
+      const room = Math.min(start - previousEnd, nextStart - end, MAX_ROOM_MINUTES * MINUTE);
+      candidates.push({ slot: { start: new Date(start), end: new Date(end) }, room });
+    }
+  }
+
+  candidates.sort((a, b) => b.room - a.room || a.slot.start.getTime() - b.slot.start.getTime());
+  const chosen: TimeSlot[] = [];
+  for (const { slot } of candidates) {
+    if (chosen.length >= limit) break;
+    if (!chosen.some(other => overlaps(slot.start, slot.end, other.start, other.end))) {
+      chosen.push(slot);
+    }
+  }
+  return chosen;
+}
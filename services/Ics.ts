@@ -0,0 +1,276 @@
+import { Event, RecurrenceRule } from '../types/Event';
+import { formatRRule, parseRRule } from './Recurrence';
+import { deviceTimeZone, fromWallClock, isValidTimeZone, toWallClock } from './TimeZone';
+
+/**
+ * A minimal iCalendar (RFC 5545) reader and writer covering the VEVENT
+ * properties the app understands: UID, DTSTART, DTEND/DURATION,
+ * SUMMARY, DESCRIPTION, LOCATION, RRULE and EXDATE. Times with a TZID parameter
+ * are converted from that zone using Intl; date-only (all-day) values
+ * are read as local midnight.
+ */
+
+/** An event as read from an .ics file, before it is stored. */
+export interface IcsEvent {
+  uid?: string;
+  title: string;
+  description?: string;
+  location?: string;
+  startTime: Date;
+  endTime: Date;
+  /** True when DTSTART was a DATE value rather than a DATE-TIME. */
+  allDay: boolean;
+  /** The TZID of DTSTART, when the runtime knows it. */
+  timeZone?: string;
+  recurrence?: RecurrenceRule;
+  exceptionDates?: Date[];
+}
+
+interface IcsProperty {
+  name: string;
+  params: { [key: string]: string };
+  value: string;
+}
+
+const PRODUCT_ID = '-//AI Calendar//EN';
+// Suffix of the UIDs generated for events that were not imported.
+export const UID_DOMAIN = '@ai-calendar';
+
+/** Returns the UID an event is exported with. */
+export function eventUid(event: Event): string {
+  return event.uid ?? `${event.id}${UID_DOMAIN}`;
+}
+
+/** Parses every VEVENT in an iCalendar document. Events without DTSTART are skipped. */
+export function parseIcs(text: string): IcsEvent[] {
+  // Unfold continuation lines (CRLF followed by a space or tab).
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseProperty(line);
+    if (!property) continue;
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT' && current === null) {
+        current = [];
+        depth = 0;
+      } else if (current) {
+        // Nested components such as VALARM are ignored.
+        depth++;
+      }
+    } else if (property.name === 'END') {
+      if (current && depth > 0) {
+        depth--;
+      } else if (current && property.value.toUpperCase() === 'VEVENT') {
+        const event = buildEvent(current);
+        if (event) events.push(event);
+        current = null;
+      }
+    } else if (current && depth === 0) {
+      current.push(property);
+    }
+  }
+  return events;
+}
+
+/** Splits a content line into its name, parameters and value. */
+function parseProperty(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: { [key: string]: string } = {};
+  rawParams.forEach(param => {
+    const [key, value] = param.split('=');
+    if (key && value !== undefined) {
+      params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+    }
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function buildEvent(properties: IcsProperty[]): IcsEvent | null {
+  const get = (name: string) => properties.find(p => p.name === name);
+  const dtStart = get('DTSTART');
+  const start = dtStart ? parseIcsDate(dtStart.value, dtStart.params) : null;
+  if (!dtStart || !start) return null;
+
+  const dtEnd = get('DTEND');
+  const duration = get('DURATION');
+  let end = dtEnd ? parseIcsDate(dtEnd.value, dtEnd.params)?.date : undefined;
+  if (!end && duration) {
+    const millis = parseDuration(duration.value);
+    if (millis !== null) end = new Date(start.date.getTime() + millis);
+  }
+  if (!end) {
+    end = new Date(start.date);
+    // An all-day event without an end lasts one day (RFC 5545 §3.6.1).
+    if (start.allDay) end.setDate(end.getDate() + 1);
+  }
+
+  const rrule = get('RRULE');
+  const exceptionDates: Date[] = [];
+  properties
+    .filter(p => p.name === 'EXDATE')
+    .forEach(p =>
+      p.value.split(',').forEach(value => {
+        const parsed = parseIcsDate(value, p.params);
+        if (parsed) exceptionDates.push(parsed.date);
+      })
+    );
+
+  const uid = get('UID')?.value.trim();
+  const description = get('DESCRIPTION');
+  const location = get('LOCATION');
+  return {
+    uid: uid || undefined,
+    title: unescapeText(get('SUMMARY')?.value ?? '') || 'Untitled event',
+    description: description ? unescapeText(description.value) : undefined,
+    location: location ? unescapeText(location.value) || undefined : undefined,
+    startTime: start.date,
+    endTime: end,
+    allDay: start.allDay,
+    timeZone: start.timeZone,
+    recurrence: rrule ? parseRRule(rrule.value) ?? undefined : undefined,
+    exceptionDates: exceptionDates.length > 0 ? exceptionDates : undefined,
+  };
+}
+
+/** Parses a DATE or DATE-TIME value, honouring the VALUE and TZID parameters. */
+function parseIcsDate(
+  value: string,
+  params: { [key: string]: string }
+): { date: Date; allDay: boolean; timeZone?: string } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined || params.VALUE === 'DATE') {
+    return { date: new Date(Number(y), Number(mo) - 1, Number(d)), allDay: true };
+  }
+  const fields = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)] as const;
+  if (utc) {
+    return { date: new Date(Date.UTC(...fields)), allDay: false };
+  }
+  if (params.TZID && isValidTimeZone(params.TZID)) {
+    const [year, month, day, hour, minute, second] = fields;
+    return {
+      date: fromWallClock({ year, month, day, hour, minute, second, millisecond: 0 }, params.TZID),
+      allDay: false,
+      timeZone: params.TZID,
+    };
+  }
+  // Floating times are interpreted in the device zone.
+  return { date: new Date(...fields), allDay: false };
+}
+
+/** Parses an RFC 5545 DURATION such as `PT1H30M` or `P1D` into milliseconds. */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match) return null;
+  const [, sign, w, d, h, m, s] = match;
+  const seconds =
+    Number(w ?? 0) * 604800 + Number(d ?? 0) * 86400 + Number(h ?? 0) * 3600 + Number(m ?? 0) * 60 + Number(s ?? 0);
+  return (sign === '-' ? -1 : 1) * seconds * 1000;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+function formatUtc(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+/** Formats the wall-clock time of `date` in `timeZone` (the device zone when undefined). */
+function formatLocal(date: Date, timeZone?: string): string {
+  const wall = toWallClock(date, timeZone);
+  return (
+    `${wall.year}${pad(wall.month + 1)}${pad(wall.day)}` +
+    `T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`
+  );
+}
+
+/** Folds a content line at 75 octets as required by RFC 5545 §3.1. */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const code = ch.codePointAt(0)!;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    // Continuation lines start with a space, which counts towards the limit.
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Serialises events into an iCalendar document. Times are written as
+ * wall-clock times with the event's TZID, or the device's for floating
+ * events, so that recurring events keep their local time across DST;
+ * expanded occurrences are written as standalone events.
+ */
+export function serializeIcs(events: Event[]): string {
+  const device = deviceTimeZone();
+  const stamp = formatUtc(new Date());
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN'];
+  events.forEach(event => {
+    const timeZone = event.timeZone ?? device;
+    const dateTime = (name: string, date: Date) =>
+      timeZone ? `${name};TZID=${timeZone}:${formatLocal(date, timeZone)}` : `${name}:${formatUtc(date)}`;
+    lines.push('BEGIN:VEVENT', `UID:${eventUid(event)}`, `DTSTAMP:${stamp}`);
+    if (event.allDay) {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.startTime)}`, `DTEND;VALUE=DATE:${formatDate(event.endTime)}`);
+    } else {
+      lines.push(dateTime('DTSTART', event.startTime), dateTime('DTEND', event.endTime));
+    }
+    lines.push(`SUMMARY:${escapeText(event.title)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    if (event.recurrence && !event.seriesId) {
+      lines.push(`RRULE:${formatRRule(event.recurrence)}`);
+      (event.exceptionDates ?? []).forEach(date =>
+        lines.push(event.allDay ? `EXDATE;VALUE=DATE:${formatDate(date)}` : dateTime('EXDATE', date))
+      );
+    }
+    lines.push('END:VEVENT');
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,142 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import calendarService from './CalendarService';
+import { parseIcs, serializeIcs, UID_DOMAIN } from './Ics';
+import { defaultCalendarId } from './SettingsService';
+import { Event } from '../types/Event';
+
+/** An .ics file the user can choose to import. */
+export type IcsFile = {
+  name: string;
+  uri: string;
+};
+
+/** Summary of an import: how many events were added and how many were already present. */
+export type IcsImportResult = {
+  imported: number;
+  skipped: number;
+};
+
+/**
+ * IcsService moves events in and out of the app as iCalendar files. On
+ * Android files are read from and written to a folder the user grants
+ * through the Storage Access Framework; elsewhere the app's document
+ * directory is used, which is visible in the iOS Files app.
+ */
+class IcsService {
+  // Folder granted through the Storage Access Framework, reused for the
+  // rest of the session so that the user is only asked once.
+  private directoryUri: string | null = null;
+
+  private async getDirectory(): Promise<string> {
+    if (Platform.OS !== 'android') {
+      return FileSystem.documentDirectory!;
+    }
+    if (!this.directoryUri) {
+      const permission = await FileSystem.StorageAccessFramework.requestDirectoryPermissionsAsync();
+      if (!permission.granted) {
+        throw new Error('Permission to access the folder was denied.');
+      }
+      this.directoryUri = permission.directoryUri;
+    }
+    return this.directoryUri;
+  }
+
+  /** Lists the .ics files available for import. */
+  async listImportableFiles(): Promise<IcsFile[]> {
+    const directory = await this.getDirectory();
+    const entries =
+      Platform.OS === 'android'
+        ? await FileSystem.StorageAccessFramework.readDirectoryAsync(directory)
+        : (await FileSystem.readDirectoryAsync(directory)).map(name => directory + name);
+    return entries
+      .map(uri => ({ uri, name: decodeURIComponent(uri).split(/[/:]/).pop() ?? uri }))
+      .filter(file => file.name.toLowerCase().endsWith('.ics'));
+  }
+
+  /** Reads an .ics file and imports its events. */
+  async importFromUri(uri: string): Promise<IcsImportResult> {
+    const text = await FileSystem.readAsStringAsync(uri);
+    return this.importText(text);
+  }
+
+  /**
+   * Imports every VEVENT in the given iCalendar text. Events whose UID is
+   * already present, including events exported from this app, are
+   * skipped so that importing the same file twice is harmless.
+   */
+  importText(text: string): IcsImportResult {
+    const result: IcsImportResult = { imported: 0, skipped: 0 };
+    const seen = new Set<string>();
+    parseIcs(text).forEach(parsed => {
+      if (parsed.uid && (seen.has(parsed.uid) || this.isKnownUid(parsed.uid))) {
+        result.skipped++;
+        return;
+      }
+      if (parsed.uid) seen.add(parsed.uid);
+      calendarService.createEvent(
+        parsed.title,
+        parsed.startTime.toISOString(),
+        parsed.endTime.toISOString(),
+        parsed.description,
+        {
+          uid: parsed.uid,
+          allDay: parsed.allDay || undefined,
+          timeZone: parsed.timeZone,
+          recurrence: parsed.recurrence,
+          exceptionDates: parsed.exceptionDates,
+          location: parsed.location,
+          calendarId: defaultCalendarId(),
+        }
+      );
+      result.imported++;
+    });
+    return result;
+  }
+
+  private isKnownUid(uid: string): boolean {
+    if (calendarService.getEventByUid(uid)) {
+      return true;
+    }
+    return uid.endsWith(UID_DOMAIN) && !!calendarService.getEventById(uid.slice(0, -UID_DOMAIN.length));
+  }
+
+  /** Exports a single event (or occurrence) and returns the written file's URI. */
+  async exportEvent(id: string): Promise<string> {
+    const event = calendarService.getEventById(id);
+    if (!event) {
+      throw new Error('Event not found.');
+    }
+    return this.writeFile(`${fileSafe(event.title)}.ics`, [event]);
+  }
+
+  /** Exports every event on the given day and returns the written file's URI. */
+  async exportDay(date: Date): Promise<string> {
+    const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    return this.writeFile(`calendar-${day}.ics`, calendarService.getEventsForDate(date));
+  }
+
+  /** Exports the whole calendar, keeping recurring events as series. */
+  async exportAll(): Promise<string> {
+    return this.writeFile('calendar.ics', calendarService.getStoredEvents());
+  }
+
+  private async writeFile(name: string, events: Event[]): Promise<string> {
+    const text = serializeIcs(events);
+    const directory = await this.getDirectory();
+    const uri =
+      Platform.OS === 'android'
+        ? await FileSystem.StorageAccessFramework.createFileAsync(directory, name.replace(/\.ics$/, ''), 'text/calendar')
+        : directory + name;
+    await FileSystem.writeAsStringAsync(uri, text);
+    return uri;
+  }
+}
+
+/** Replaces characters that are not allowed in file names. */
+function fileSafe(name: string): string {
+  return name.replace(/[^\w\- ]+/g, '').trim() || 'event';
+}
+
+const icsService = new IcsService();
+export default icsService;
@@ -0,0 +1,283 @@
+import * as SQLite from 'expo-sqlite';
+import calendarService, { EventChange } from './CalendarService';
+import { getDatabase } from './Database';
+import { Event } from '../types/Event';
+
+/** Who made a change: the assistant acting on a chat message, or the user in the calendar UI. */
+export type JournalSource = 'assistant' | 'manual';
+
+export type JournalOperation = 'create' | 'update' | 'delete';
+
+/** Outcome of an undo or redo request, with a message suitable for the chat. */
+export type JournalResult = {
+  ok: boolean;
+  message: string;
+};
+
+type JournalRow = {
+  id: number;
+  batchId: string;
+  source: JournalSource;
+  operation: JournalOperation;
+  eventId: string;
+  before: string | null;
+  after: string | null;
+};
+
+function serializeEvent(event: Event): string {
+  return JSON.stringify(event);
+}
+
+function deserializeEvent(json: string): Event {
+  const raw = JSON.parse(json);
+  return {
+    ...raw,
+    startTime: new Date(raw.startTime),
+    endTime: new Date(raw.endTime),
+    recurrence: raw.recurrence
+      ? { ...raw.recurrence, until: raw.recurrence.until ? new Date(raw.recurrence.until) : undefined }
+      : undefined,
+    exceptionDates: raw.exceptionDates?.map((d: string) => new Date(d)),
+  };
+}
+
+/** Serialises a value with sorted keys so that snapshots can be compared. */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.keys(v)
+          .sort()
+          .reduce((sorted: { [key: string]: unknown }, key) => {
+            sorted[key] = v[key];
+            return sorted;
+          }, {})
+      : v
+  );
+}
+
+/** Returns true when the stored event currently matches the snapshot (or is absent when the snapshot is null). */
+function matchesSnapshot(eventId: string, snapshot: string | null): boolean {
+  const current = calendarService.getStoredEvents().find(event => event.id === eventId);
+  if (!snapshot) {
+    return !current;
+  }
+  return !!current && canonical(JSON.parse(serializeEvent(current))) === canonical(JSON.parse(snapshot));
+}
+
+/** Keeps the first of the rows for each event, in their order. */
+function firstPerEvent(rows: JournalRow[]): JournalRow[] {
+  const seen = new Set<string>();
+  return rows.filter(row => {
+    if (seen.has(row.eventId)) {
+      return false;
+    }
+    seen.add(row.eventId);
+    return true;
+  });
+}
+
+/**
+ * JournalService records every change CalendarService makes, with
+ * before and after snapshots, in the `journal` table. Changes are
+ * grouped into batches (one assistant action or one manual edit) that
+ * can be undone and redone as a unit. Starting a new batch discards
+ * anything that was undone, as in a text editor.
+ */
+class JournalService {
+  private db!: SQLite.SQLiteDatabase;
+  private initialised = false;
+  // The batch opened by runBatch(); changes outside one get a batch of their own.
+  private activeBatch: { id: string; source: JournalSource; used: boolean } | null = null;
+  // Journal writes are chained so that undo and redo see every recorded change.
+  private pending: Promise<unknown> = Promise.resolve();
+  private batchCounter = 0;
+
+  /** Opens the database and starts listening for calendar changes. Safe to call repeatedly. */
+  async init(): Promise<void> {
+    this.db = await getDatabase();
+    if (!this.initialised) {
+      this.initialised = true;
+      calendarService.addChangeListener(this.onChanges);
+    }
+  }
+
+  private newBatchId(): string {
+    this.batchCounter++;
+    return `${Date.now()}-${this.batchCounter}`;
+  }
+
+  /**
+   * Runs `fn` with every calendar change it makes recorded under one
+   * batch. Returns the function's result and the batch id, which is null
+   * when nothing changed.
+   */
+  async runBatch<T>(source: JournalSource, fn: () => Promise<T>): Promise<{ result: T; batchId: string | null }> {
+    const batch = { id: this.newBatchId(), source, used: false };
+    this.activeBatch = batch;
+    try {
+      const result = await fn();
+      return { result, batchId: batch.used ? batch.id : null };
+    } finally {
+      if (this.activeBatch === batch) {
+        this.activeBatch = null;
+      }
+    }
+  }
+
+  /**
+   * Reverts the changes made so far in the batch opened by runBatch() and
+   * removes them from the journal, so that they can be neither undone nor
+   * redone. Used when one of several assistant actions fails part way.
+   */
+  rollbackBatch(): Promise<void> {
+    const batch = this.activeBatch;
+    if (!batch || !batch.used) {
+      return Promise.resolve();
+    }
+    batch.used = false;
+    return this.enqueue(async () => {
+      const rows = await this.db.getAllAsync<JournalRow>('SELECT * FROM journal WHERE batchId = ? ORDER BY id DESC', [
+        batch.id,
+      ]);
+      for (const row of rows) {
+        await (row.before ? calendarService.putEvent(deserializeEvent(row.before)) : calendarService.removeEvent(row.eventId));
+      }
+      await this.db.runAsync('DELETE FROM journal WHERE batchId = ?', [batch.id]);
+    });
+  }
+
+  private onChanges = (changes: EventChange[]) => {
+    if (!this.db || changes.length === 0) {
+      return;
+    }
+    let batch = this.activeBatch;
+    if (!batch) {
+      batch = { id: this.newBatchId(), source: 'manual', used: false };
+    }
+    const startsBatch = !batch.used;
+    batch.used = true;
+    const { id: batchId, source } = batch;
+    const timestamp = Date.now();
+    this.enqueue(async () => {
+      if (startsBatch) {
+        // A new change makes anything previously undone impossible to redo.
+        await this.db.runAsync('DELETE FROM journal WHERE undone = 1');
+      }
+      for (const { before, after } of changes) {
+        const operation: JournalOperation = !before ? 'create' : !after ? 'delete' : 'update';
+        await this.db.runAsync(
+          'INSERT INTO journal (batchId, source, operation, eventId, before, after, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [
+            batchId,
+            source,
+            operation,
+            (after ?? before)!.id,
+            before ? serializeEvent(before) : null,
+            after ? serializeEvent(after) : null,
+            timestamp,
+          ]
+        );
+      }
+    });
+  };
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.pending.then(task);
+    this.pending = next.catch(err => console.error('Journal write failed:', err));
+    return next;
+  }
+
+  /**
+   * Returns the ids of the given batches that have been undone. Batches
+   * that no longer exist in the journal are reported in `missing`.
+   */
+  async getBatchStates(batchIds: string[]): Promise<{ undone: Set<string>; missing: Set<string> }> {
+    await this.pending;
+    const undone = new Set<string>();
+    const missing = new Set(batchIds);
+    if (batchIds.length > 0) {
+      const rows = await this.db.getAllAsync<{ batchId: string; undone: number }>(
+        `SELECT DISTINCT batchId, undone FROM journal WHERE batchId IN (${batchIds.map(() => '?').join(', ')})`,
+        batchIds
+      );
+      rows.forEach(row => {
+        missing.delete(row.batchId);
+        if (row.undone) undone.add(row.batchId);
+      });
+    }
+    return { undone, missing };
+  }
+
+  /**
+   * Reverts a batch, or the most recent batch that is still applied when
+   * no id is given. Refuses when an affected event has changed since, so
+   * that undo never overwrites later edits.
+   */
+  undo(batchId?: string): Promise<JournalResult> {
+    return this.enqueue(async () => {
+      const id =
+        batchId ??
+        (await this.db.getFirstAsync<{ batchId: string }>('SELECT batchId FROM journal WHERE undone = 0 ORDER BY id DESC LIMIT 1'))
+          ?.batchId;
+      if (!id) {
+        return { ok: false, message: 'There is nothing to undo.' };
+      }
+      const rows = await this.db.getAllAsync<JournalRow>(
+        'SELECT * FROM journal WHERE batchId = ? AND undone = 0 ORDER BY id DESC',
+        [id]
+      );
+      if (rows.length === 0) {
+        return { ok: false, message: 'That change has already been undone.' };
+      }
+      // A batch may change an event more than once; only its last change has to be current.
+      if (!firstPerEvent(rows).every(row => matchesSnapshot(row.eventId, row.after))) {
+        return { ok: false, message: 'Cannot undo: the event has been changed since.' };
+      }
+      for (const row of rows) {
+        await (row.before ? calendarService.putEvent(deserializeEvent(row.before)) : calendarService.removeEvent(row.eventId));
+      }
+      await this.db.runAsync('UPDATE journal SET undone = 1 WHERE batchId = ?', [id]);
+      return { ok: true, message: `Undid ${describeBatch(rows)}.` };
+    });
+  }
+
+  /**
+   * Re-applies the oldest undone batch. Undone batches always follow
+   * every applied one, since a new change discards them, so this is the
+   * last one undone and they are redone in their original order.
+   */
+  redo(): Promise<JournalResult> {
+    return this.enqueue(async () => {
+      const last = await this.db.getFirstAsync<{ batchId: string }>(
+        'SELECT batchId FROM journal WHERE undone = 1 ORDER BY id ASC LIMIT 1'
+      );
+      if (!last) {
+        return { ok: false, message: 'There is nothing to redo.' };
+      }
+      const rows = await this.db.getAllAsync<JournalRow>('SELECT * FROM journal WHERE batchId = ? ORDER BY id ASC', [
+        last.batchId,
+      ]);
+      // Likewise only the first change to each event has to match what is stored.
+      if (!firstPerEvent(rows).every(row => matchesSnapshot(row.eventId, row.before))) {
+        return { ok: false, message: 'Cannot redo: the event has been changed since.' };
+      }
+      for (const row of rows) {
+        await (row.after ? calendarService.putEvent(deserializeEvent(row.after)) : calendarService.removeEvent(row.eventId));
+      }
+      await this.db.runAsync('UPDATE journal SET undone = 0 WHERE batchId = ?', [last.batchId]);
+      return { ok: true, message: `Redid ${describeBatch(rows)}.` };
+    });
+  }
+}
+
+/** Summarises a batch for the user, e.g. "deleting 'Team meeting'". */
+function describeBatch(rows: JournalRow[]): string {
+  const row = rows[0];
+  const snapshot = row.after ?? row.before;
+  const title = snapshot ? (JSON.parse(snapshot) as Event).title : 'the event';
+  const verb = { create: 'creating', update: 'updating', delete: 'deleting' }[row.operation];
+  return rows.length > 1 ? `${rows.length} changes` : `${verb} '${title}'`;
+}
+
+const journalService = new JournalService();
+export default journalService;
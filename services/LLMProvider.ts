@@ -0,0 +1,48 @@
+/**
+ * The interface AIService uses to talk to a language model, so that the
+ * on-device model (LlamaProvider) and a model served over HTTP
+ * (OpenAIProvider) are interchangeable. Providers are chosen in
+ * Settings; see LLMSettingsService.
+ */
+
+export type LLMProviderId = 'llama' | 'openai';
+
+export type LLMMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type CompletionRequest = {
+  messages: LLMMessage[];
+  /** Most tokens to generate. */
+  maxTokens: number;
+  temperature: number;
+  /** Generation ends before any of these strings. */
+  stop?: string[];
+  /** GBNF grammar the output must follow; providers that cannot enforce one ignore it. */
+  grammar?: string;
+};
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  /** A short name for messages, e.g. "on-device model". */
+  readonly label: string;
+  /** Size of the context window in tokens, shared by the prompt and the reply. */
+  readonly contextSize: number;
+
+  /** Loads the model or checks the connection. Safe to call more than once. */
+  init(): Promise<void>;
+  /** Generates a reply and resolves with its full text. */
+  complete(request: CompletionRequest): Promise<string>;
+  /**
+   * Like complete, but calls `onToken` with each piece of text as it is
+   * generated. Resolves with the full text.
+   */
+  stream(request: CompletionRequest, onToken: (token: string) => void): Promise<string>;
+  /** Stops the running generation; its promise resolves with the text so far. */
+  cancel(): Promise<void>;
+  /** Counts (or estimates) the tokens `messages` take up in the prompt. */
+  countTokens(messages: LLMMessage[]): Promise<number>;
+  /** Frees the model or connection; the provider is not used afterwards. */
+  release(): Promise<void>;
+}
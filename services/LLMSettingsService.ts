@@ -0,0 +1,139 @@
+import * as SQLite from 'expo-sqlite';
+import { getDatabase } from './Database';
+import { LLMProviderId } from './LLMProvider';
+
+/** Where an OpenAI-compatible server is and which of its models to use. */
+export type OpenAIProviderSettings = {
+  /** Base URL of the API, e.g. "http://192.168.1.20:8080/v1". */
+  baseUrl: string;
+  /** Sent as a bearer token; local servers usually accept any value. */
+  apiKey: string;
+  model: string;
+  /** Send the action grammar with each request. llama.cpp's server enforces it; other servers may reject it. */
+  sendGrammar: boolean;
+};
+
+/** Which GGUF model the on-device provider runs, and how. */
+export type LlamaProviderSettings = {
+  /** File name of the model in the document directory; see ModelService. */
+  model: string;
+  /** Size of the context window in tokens. Larger windows keep more history but use more memory. */
+  nCtx: number;
+  /** CPU threads used for generation; 0 lets llama.rn choose. */
+  threads: number;
+};
+
+export type LLMSettings = {
+  provider: LLMProviderId;
+  /** Sampling temperature for either provider; lower is more predictable. */
+  temperature: number;
+  llama: LlamaProviderSettings;
+  openai: OpenAIProviderSettings;
+};
+
+/** A change to the settings; the provider settings may be changed field by field. */
+export type LLMSettingsChanges = Partial<Omit<LLMSettings, 'llama' | 'openai'>> & {
+  llama?: Partial<LlamaProviderSettings>;
+  openai?: Partial<OpenAIProviderSettings>;
+};
+
+type Subscriber = () => void;
+
+// Row key in the settings table.
+const SETTINGS_KEY = 'llm';
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'llama',
+  temperature: 0.2,
+  llama: {
+    // The bundled model; see ModelService.BUNDLED_MODEL.
+    model: 'SmolLM2-135M-Instruct-Q4_K_M.gguf',
+    nCtx: 2048,
+    threads: 0,
+  },
+  openai: {
+    baseUrl: 'http://localhost:8080/v1',
+    apiKey: '',
+    model: 'default',
+    sendGrammar: true,
+  },
+};
+
+/**
+ * LLMSettingsService stores which language model provider the assistant
+ * uses, which on-device model it runs and how to reach an
+ * OpenAI-compatible server, as one JSON value
+ * in the settings table. Subscribers are notified after every change so
+ * that AIService can switch providers.
+ */
+class LLMSettingsService {
+  private db!: SQLite.SQLiteDatabase;
+  private settings: LLMSettings = DEFAULT_LLM_SETTINGS;
+  private subscribers: Subscriber[] = [];
+  private loaded: Promise<void> | null = null;
+
+  /** Loads the stored settings. Safe to call repeatedly; the settings are read once. */
+  init(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load().catch(err => {
+        this.loaded = null;
+        throw err;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    this.db = await getDatabase();
+    const row = await this.db.getFirstAsync<{ value: string }>('SELECT value FROM settings WHERE key = ?', [
+      SETTINGS_KEY,
+    ]);
+    if (row) {
+      // Fields added in later versions fall back to their defaults.
+      const stored = JSON.parse(row.value) as Partial<LLMSettings>;
+      this.settings = {
+        ...DEFAULT_LLM_SETTINGS,
+        ...stored,
+        llama: { ...DEFAULT_LLM_SETTINGS.llama, ...stored.llama },
+        openai: { ...DEFAULT_LLM_SETTINGS.openai, ...stored.openai },
+      };
+    }
+    this.notify();
+  }
+
+  /** Returns the current settings. Defaults until init() has completed. */
+  get(): LLMSettings {
+    return this.settings;
+  }
+
+  /** Merges `changes` into the settings, notifies subscribers and persists them. */
+  async update(changes: LLMSettingsChanges): Promise<void> {
+    await this.init();
+    this.settings = {
+      ...this.settings,
+      ...changes,
+      llama: { ...this.settings.llama, ...changes.llama },
+      openai: { ...this.settings.openai, ...changes.openai },
+    };
+    this.notify();
+    await this.db.runAsync('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)', [
+      SETTINGS_KEY,
+      JSON.stringify(this.settings),
+    ]);
+  }
+
+  subscribe(callback: Subscriber) {
+    this.subscribers.push(callback);
+  }
+
+  unsubscribe(callback: Subscriber) {
+    this.subscribers = this.subscribers.filter(sub => sub !== callback);
+  }
+
+  private notify() {
+    this.subscribers.forEach(callback => callback());
+  }
+}
+
+const llmSettingsService = new LLMSettingsService();
+export default llmSettingsService;
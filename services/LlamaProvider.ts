@@ -0,0 +1,110 @@
+import { initLlama, LlamaContext } from 'llama.rn';
+import { CompletionRequest, LLMMessage, LLMProvider } from './LLMProvider';
+import { LlamaProviderSettings } from './LLMSettingsService';
+import modelService from './ModelService';
+
+/**
+ * Runs a GGUF model on the device through llama.rn. The model is one of
+ * those ModelService manages, by default the bundled one; the Llama
+ * context is created lazily on first use with the window size and
+ * thread count from the settings.
+ */
+export class LlamaProvider implements LLMProvider {
+  readonly id = 'llama';
+  readonly label = 'on-device model';
+  readonly contextSize: number;
+  private context: LlamaContext | null = null;
+  private initPromise: Promise<void> | null = null;
+
+  constructor(private settings: LlamaProviderSettings) {
+    this.contextSize = settings.nCtx;
+  }
+
+  /**
+   * Ensures the Llama context has been initialised. Calling init()
+   * multiple times is safe: later calls await the existing
+   * initialisation, and a failed one is retried.
+   */
+  async init(): Promise<void> {
+    if (this.context) {
+      return;
+    }
+    if (!this.initPromise) {
+      this.initPromise = this.initializeContext().catch(err => {
+        this.initPromise = null;
+        throw err;
+      });
+    }
+    await this.initPromise;
+  }
+
+  /** Locates the model file and calls initLlama() with a suitable configuration. */
+  private async initializeContext(): Promise<void> {
+    const model = await modelService.resolveModel(this.settings.model);
+    this.context = await initLlama({
+      model,
+      // Larger windows keep more history but consume more RAM.
+      n_ctx: this.settings.nCtx,
+      // Left unset, llama.rn picks a thread count for the device.
+      n_threads: this.settings.threads > 0 ? this.settings.threads : undefined,
+      // On iOS you can specify n_gpu_layers for GPU offload.  It is
+      // ignored on Android.
+      n_gpu_layers: 0,
+      use_mlock: false,
+    });
+  }
+
+  private async ready(): Promise<LlamaContext> {
+    await this.init();
+    return this.context!;
+  }
+
+  complete(request: CompletionRequest): Promise<string> {
+    return this.generate(request);
+  }
+
+  stream(request: CompletionRequest, onToken: (token: string) => void): Promise<string> {
+    return this.generate(request, onToken);
+  }
+
+  private async generate(request: CompletionRequest, onToken?: (token: string) => void): Promise<string> {
+    const context = await this.ready();
+    const result = await context.completion(
+      {
+        messages: request.messages,
+        n_predict: request.maxTokens,
+        temperature: request.temperature,
+        stop: request.stop,
+        grammar: request.grammar,
+      },
+      onToken ? data => onToken(data.token) : undefined
+    );
+    return result?.text ? result.text.toString() : '';
+  }
+
+  async cancel(): Promise<void> {
+    await this.context?.stopCompletion();
+  }
+
+  /** Counts the tokens the messages occupy once formatted with the model's chat template. */
+  async countTokens(messages: LLMMessage[]): Promise<number> {
+    const context = await this.ready();
+    const formatted = await context.getFormattedChat(messages);
+    const prompt = typeof formatted === 'string' ? formatted : formatted.prompt;
+    const { tokens } = await context.tokenize(prompt);
+    return tokens.length;
+  }
+
+  /** Stops any generation and frees the context, waiting for one still loading. */
+  async release(): Promise<void> {
+    const loading = this.initPromise;
+    this.initPromise = null;
+    await loading?.catch(() => undefined);
+    const context = this.context;
+    this.context = null;
+    if (context) {
+      await context.stopCompletion();
+      await context.release();
+    }
+  }
+}
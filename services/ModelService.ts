@@ -0,0 +1,399 @@
+import { loadLlamaModelInfo } from 'llama.rn';
+import { Asset } from 'expo-asset';
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import llmSettingsService from './LLMSettingsService';
+import { Sha256 } from './Sha256';
+
+/** The model shipped with the app under assets/models, used until another is chosen. */
+export const BUNDLED_MODEL = 'SmolLM2-135M-Instruct-Q4_K_M.gguf';
+
+/** A GGUF model in the document directory. */
+export type ModelFile = {
+  /** File name, which is also how the settings refer to the model. */
+  name: string;
+  uri: string;
+  /** Size in bytes. */
+  size: number;
+  /** Quantization type, e.g. "Q4_K_M", when known. */
+  quantization?: string;
+  /** Model architecture from the GGUF metadata, e.g. "llama". */
+  architecture?: string;
+  /** Parameter count label from the GGUF metadata, e.g. "135M". */
+  parameters?: string;
+  bundled: boolean;
+};
+
+/** A .gguf file the user can choose to import. */
+export type ImportableModel = {
+  name: string;
+  uri: string;
+};
+
+/** How far an import has got. `fraction` is null while the total size is unknown. */
+export type ImportProgress = {
+  phase: 'download' | 'copy' | 'verify';
+  fraction: number | null;
+};
+
+type Checksum = { algorithm: 'sha256' | 'md5'; hex: string };
+
+// Names of ggml's file types by their `general.file_type` number.
+const FILE_TYPES: Record<number, string> = {
+  0: 'F32',
+  1: 'F16',
+  2: 'Q4_0',
+  3: 'Q4_1',
+  7: 'Q8_0',
+  8: 'Q5_0',
+  9: 'Q5_1',
+  10: 'Q2_K',
+  11: 'Q3_K_S',
+  12: 'Q3_K_M',
+  13: 'Q3_K_L',
+  14: 'Q4_K_S',
+  15: 'Q4_K_M',
+  16: 'Q5_K_S',
+  17: 'Q5_K_M',
+  18: 'Q6_K',
+  19: 'IQ2_XXS',
+  20: 'IQ2_XS',
+  21: 'Q2_K_S',
+  22: 'IQ3_XS',
+  23: 'IQ3_XXS',
+  24: 'IQ1_S',
+  25: 'IQ4_NL',
+  26: 'IQ3_S',
+  27: 'IQ3_M',
+  28: 'IQ2_S',
+  29: 'IQ2_M',
+  30: 'IQ4_XS',
+  31: 'IQ1_M',
+  32: 'BF16',
+};
+
+// Quantization as usually written in GGUF file names, e.g. "-Q4_K_M.gguf".
+const FILE_NAME_QUANTIZATION = /[-_.](I?Q\d(?:_[A-Z0-9]+)*|BF16|F16|F32)(?=[-_.])/i;
+// Every GGUF file starts with these four bytes.
+const GGUF_MAGIC = 'GGUF';
+// Bytes hashed per read when computing a SHA-256; read as base64, so keep it modest.
+const HASH_CHUNK_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Parses a checksum as published next to a model: hex, optionally
+ * prefixed with "sha256:" or "md5:". Without a prefix the length decides.
+ * Returns null for anything else.
+ */
+function parseChecksum(text: string): Checksum | null {
+  const match = text.trim().toLowerCase().match(/^(?:(sha256|md5):)?([0-9a-f]+)$/);
+  if (!match) {
+    return null;
+  }
+  const hex = match[2];
+  const algorithm = match[1] ?? (hex.length === 64 ? 'sha256' : hex.length === 32 ? 'md5' : null);
+  if (!algorithm || hex.length !== (algorithm === 'sha256' ? 64 : 32)) {
+    return null;
+  }
+  return { algorithm: algorithm as Checksum['algorithm'], hex };
+}
+
+/** Decodes base64 as returned by readAsStringAsync into bytes. */
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/** The last path segment of a URI, decoded. */
+function fileNameOf(uri: string): string {
+  const path = decodeURIComponent(uri.split(/[?#]/)[0]);
+  return path.split(/[/:]/).pop() ?? path;
+}
+
+/**
+ * ModelService manages the GGUF models the on-device provider can run.
+ * Models live in the app's document directory, where the bundled model
+ * is copied on first use; others are imported from a URL or, as with
+ * IcsService, from a folder the user grants through the Storage Access
+ * Framework on Android (on iOS, files placed in the app's folder in the
+ * Files app are picked up directly). Imports are written to the cache
+ * directory first and only moved into place once they have been checked,
+ * so a failed or cancelled import never leaves a broken model behind.
+ */
+class ModelService {
+  private directoryUri: string | null = null;
+  private download: FileSystem.DownloadResumable | null = null;
+  // Metadata read from each model, keyed by name and size, as reading it means opening the file.
+  private metadata = new Map<string, Pick<ModelFile, 'quantization' | 'architecture' | 'parameters'>>();
+
+  private modelUri(name: string): string {
+    return FileSystem.documentDirectory + name;
+  }
+
+  /** Lists the models in the document directory, the bundled one first, then by name. */
+  async listModels(): Promise<ModelFile[]> {
+    await this.copyBundledModel();
+    const names = (await FileSystem.readDirectoryAsync(FileSystem.documentDirectory!)).filter(name =>
+      name.toLowerCase().endsWith('.gguf')
+    );
+    const models: ModelFile[] = [];
+    for (const name of names) {
+      const uri = this.modelUri(name);
+      const info = await FileSystem.getInfoAsync(uri);
+      if (!info.exists || info.isDirectory) {
+        continue;
+      }
+      models.push({
+        name,
+        uri,
+        size: info.size,
+        bundled: name === BUNDLED_MODEL,
+        ...(await this.readMetadata(name, uri, info.size)),
+      });
+    }
+    return models.sort((a, b) => Number(b.bundled) - Number(a.bundled) || a.name.localeCompare(b.name));
+  }
+
+  private async readMetadata(name: string, uri: string, size: number) {
+    const key = `${name}:${size}`;
+    let metadata = this.metadata.get(key);
+    if (!metadata) {
+      metadata = { quantization: name.match(FILE_NAME_QUANTIZATION)?.[1].toUpperCase() };
+      try {
+        const info = (await loadLlamaModelInfo(uri)) as Record<string, string | undefined>;
+        const fileType = info['general.file_type'];
+        metadata = {
+          quantization: (fileType !== undefined && FILE_TYPES[Number(fileType)]) || metadata.quantization,
+          architecture: info['general.architecture'],
+          parameters: info['general.size_label'],
+        };
+      } catch (err) {
+        console.warn(`Failed to read the metadata of ${name}:`, err);
+      }
+      this.metadata.set(key, metadata);
+    }
+    return metadata;
+  }
+
+  /**
+   * Returns the path of the named model for llama.rn, copying the bundled
+   * model out of the app's assets if it is the one asked for.
+   */
+  async resolveModel(name: string): Promise<string> {
+    if (name === BUNDLED_MODEL) {
+      await this.copyBundledModel();
+    }
+    const uri = this.modelUri(name);
+    if (!(await FileSystem.getInfoAsync(uri)).exists) {
+      throw new Error(`The model ${name} is not installed.`);
+    }
+    return uri;
+  }
+
+  /**
+   * Copies the bundled model asset into the document directory if it is
+   * not there yet. Failures are only logged, leaving resolveModel to
+   * report the missing file.
+   */
+  private async copyBundledModel(): Promise<void> {
+    const destPath = this.modelUri(BUNDLED_MODEL);
+    try {
+      if ((await FileSystem.getInfoAsync(destPath)).exists) {
+        return;
+      }
+      const modelAsset = Asset.fromModule(require('../assets/models/SmolLM2-135M-Instruct-Q4_K_M.gguf'));
+      await modelAsset.downloadAsync();
+      await FileSystem.copyAsync({ from: modelAsset.localUri || modelAsset.uri, to: destPath });
+    } catch (copyErr) {
+      console.warn('Failed to copy GGUF model to document directory:', copyErr);
+    }
+  }
+
+  /**
+   * Deletes a model. The bundled model and the model currently selected
+   * in Settings cannot be deleted.
+   */
+  async deleteModel(name: string): Promise<void> {
+    if (name === BUNDLED_MODEL) {
+      throw new Error('The bundled model cannot be deleted.');
+    }
+    await llmSettingsService.init();
+    if (llmSettingsService.get().llama.model === name) {
+      throw new Error('This model is in use. Choose another model before deleting it.');
+    }
+    await FileSystem.deleteAsync(this.modelUri(name), { idempotent: true });
+  }
+
+  /**
+   * Downloads a model from `url` and installs it under the file name in
+   * the URL. If `checksum` is given (see parseChecksum) the download must
+   * match it. Resolves with the installed model's name, or null if the
+   * download was cancelled with cancelImport().
+   */
+  async importFromUrl(
+    url: string,
+    checksum: string,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<string | null> {
+    const name = fileNameOf(url.trim());
+    const expected = await this.prepareImport(name, checksum);
+    const tempUri = `${FileSystem.cacheDirectory}${name}.part`;
+    await FileSystem.deleteAsync(tempUri, { idempotent: true });
+    const download = FileSystem.createDownloadResumable(url.trim(), tempUri, {}, data =>
+      onProgress?.({
+        phase: 'download',
+        fraction:
+          data.totalBytesExpectedToWrite > 0 ? data.totalBytesWritten / data.totalBytesExpectedToWrite : null,
+      })
+    );
+    this.download = download;
+    try {
+      const result = await download.downloadAsync();
+      if (!result) {
+        await FileSystem.deleteAsync(tempUri, { idempotent: true });
+        return null;
+      }
+      if (result.status < 200 || result.status >= 300) {
+        throw new Error(`The server responded with status ${result.status}.`);
+      }
+      await this.install(name, tempUri, expected, onProgress);
+      return name;
+    } catch (err) {
+      await FileSystem.deleteAsync(tempUri, { idempotent: true });
+      throw err;
+    } finally {
+      if (this.download === download) {
+        this.download = null;
+      }
+    }
+  }
+
+  /** Cancels the download started by importFromUrl, if any. */
+  async cancelImport(): Promise<void> {
+    await this.download?.cancelAsync();
+  }
+
+  private async getImportDirectory(): Promise<string> {
+    if (Platform.OS !== 'android') {
+      return FileSystem.documentDirectory!;
+    }
+    if (!this.directoryUri) {
+      const permission = await FileSystem.StorageAccessFramework.requestDirectoryPermissionsAsync();
+      if (!permission.granted) {
+        throw new Error('Permission to access the folder was denied.');
+      }
+      this.directoryUri = permission.directoryUri;
+    }
+    return this.directoryUri;
+  }
+
+  /**
+   * Lists the .gguf files available for import. On Android these come
+   * from a folder the user grants; elsewhere files copied into the app's
+   * folder are already installed, so there is nothing to list.
+   */
+  async listImportableFiles(): Promise<ImportableModel[]> {
+    if (Platform.OS !== 'android') {
+      return [];
+    }
+    const directory = await this.getImportDirectory();
+    return (await FileSystem.StorageAccessFramework.readDirectoryAsync(directory))
+      .map(uri => ({ uri, name: fileNameOf(uri) }))
+      .filter(file => file.name.toLowerCase().endsWith('.gguf'));
+  }
+
+  /** Copies a model file into the app, checking it against `checksum` if given. Resolves with its name. */
+  async importFromUri(
+    uri: string,
+    checksum: string,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<string> {
+    const name = fileNameOf(uri);
+    const expected = await this.prepareImport(name, checksum);
+    const tempUri = `${FileSystem.cacheDirectory}${name}.part`;
+    try {
+      onProgress?.({ phase: 'copy', fraction: null });
+      await FileSystem.copyAsync({ from: uri, to: tempUri });
+      await this.install(name, tempUri, expected, onProgress);
+      return name;
+    } catch (err) {
+      await FileSystem.deleteAsync(tempUri, { idempotent: true });
+      throw err;
+    }
+  }
+
+  /** Validates the name and checksum of a model about to be imported. */
+  private async prepareImport(name: string, checksum: string): Promise<Checksum | null> {
+    if (!name.toLowerCase().endsWith('.gguf')) {
+      throw new Error('Models must be GGUF files ending in .gguf.');
+    }
+    let expected: Checksum | null = null;
+    if (checksum.trim()) {
+      expected = parseChecksum(checksum);
+      if (!expected) {
+        throw new Error('The checksum must be a SHA-256 or MD5 hash in hex, e.g. "sha256:9f86d0…".');
+      }
+    }
+    if ((await FileSystem.getInfoAsync(this.modelUri(name))).exists) {
+      throw new Error(`A model named ${name} is already installed.`);
+    }
+    return expected;
+  }
+
+  /** Checks an imported file and moves it from the cache into the document directory. */
+  private async install(
+    name: string,
+    tempUri: string,
+    expected: Checksum | null,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<void> {
+    const magic = await FileSystem.readAsStringAsync(tempUri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: 0,
+      length: GGUF_MAGIC.length,
+    });
+    if (atob(magic) !== GGUF_MAGIC) {
+      throw new Error(`${name} is not a GGUF model.`);
+    }
+    if (expected) {
+      onProgress?.({ phase: 'verify', fraction: expected.algorithm === 'md5' ? null : 0 });
+      const actual =
+        expected.algorithm === 'md5'
+          ? await this.md5(tempUri)
+          : await this.sha256(tempUri, fraction => onProgress?.({ phase: 'verify', fraction }));
+      if (actual !== expected.hex) {
+        throw new Error(`The checksum of ${name} does not match; the file may be corrupt or incomplete.`);
+      }
+    }
+    await FileSystem.moveAsync({ from: tempUri, to: this.modelUri(name) });
+  }
+
+  /** MD5 is computed natively by expo-file-system. */
+  private async md5(uri: string): Promise<string | undefined> {
+    const info = await FileSystem.getInfoAsync(uri, { md5: true });
+    return info.exists ? info.md5?.toLowerCase() : undefined;
+  }
+
+  /** Hashes a file in chunks, so that large models are never read into memory at once. */
+  private async sha256(uri: string, onProgress: (fraction: number) => void): Promise<string> {
+    const info = await FileSystem.getInfoAsync(uri);
+    const size = info.exists ? info.size : 0;
+    const hash = new Sha256();
+    for (let position = 0; position < size; position += HASH_CHUNK_BYTES) {
+      const chunk = await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position,
+        length: Math.min(HASH_CHUNK_BYTES, size - position),
+      });
+      hash.update(base64ToBytes(chunk));
+      onProgress(Math.min(1, (position + HASH_CHUNK_BYTES) / size));
+    }
+    return hash.digestHex();
+  }
+}
+
+const modelService = new ModelService();
+export default modelService;
@@ -0,0 +1,130 @@
+import OpenAI, { APIUserAbortError, ClientOptions } from 'openai';
+import { fetch as expoFetch } from 'expo/fetch';
+import { CompletionRequest, LLMMessage, LLMProvider } from './LLMProvider';
+import { OpenAIProviderSettings } from './LLMSettingsService';
+
+type Fetch = NonNullable<ClientOptions['fetch']>;
+
+// The OpenAI API does not report a model's context size; prompts are trimmed to fit this.
+const CONTEXT_TOKENS = 4096;
+// Without the server's tokenizer, prompt sizes are estimated from their length.
+const CHARS_PER_TOKEN = 4;
+// Allowance for the chat template's markup around each message.
+const TOKENS_PER_MESSAGE = 4;
+const REQUEST_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Talks to any server that implements the OpenAI chat completions API,
+ * such as llama.cpp's llama-server or Ollama on the local network.
+ * When `sendGrammar` is set the GBNF grammar is passed as the `grammar`
+ * field, which llama-server enforces.
+ *
+ * Replies are streamed with expo/fetch, since React Native's own fetch
+ * cannot read a response body incrementally. Pass another `fetch` to
+ * talk to the server from elsewhere, e.g. a mock server in Node.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly id = 'openai';
+  readonly label = 'model server';
+  readonly contextSize = CONTEXT_TOKENS;
+  private client: OpenAI;
+  private abortController: AbortController | null = null;
+  private checked = false;
+
+  constructor(private settings: OpenAIProviderSettings, fetch: Fetch = expoFetch as unknown as Fetch) {
+    this.client = new OpenAI({
+      baseURL: settings.baseUrl,
+      // The SDK requires a key; local servers ignore it.
+      apiKey: settings.apiKey || 'none',
+      fetch,
+      timeout: REQUEST_TIMEOUT_MS,
+      maxRetries: 1,
+      // The key is the user's own, entered on the device.
+      dangerouslyAllowBrowser: true,
+    });
+  }
+
+  /** Checks that the server is reachable by listing its models, once. */
+  async init(): Promise<void> {
+    if (!this.checked) {
+      await this.client.models.list();
+      this.checked = true;
+    }
+  }
+
+  private body(request: CompletionRequest) {
+    return {
+      model: this.settings.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stop: request.stop,
+      ...(this.settings.sendGrammar && request.grammar ? { grammar: request.grammar } : {}),
+    };
+  }
+
+  /** Runs `run` with a fresh abort signal, so that cancel() stops it. */
+  private async withAbort<T>(run: (signal: AbortSignal) => Promise<T>, onAbort: () => T): Promise<T> {
+    const controller = new AbortController();
+    this.abortController = controller;
+    try {
+      return await run(controller.signal);
+    } catch (err) {
+      if (err instanceof APIUserAbortError) {
+        return onAbort();
+      }
+      throw err;
+    } finally {
+      if (this.abortController === controller) {
+        this.abortController = null;
+      }
+    }
+  }
+
+  complete(request: CompletionRequest): Promise<string> {
+    return this.withAbort(
+      async signal => {
+        const completion = await this.client.chat.completions.create(
+          { ...this.body(request), stream: false },
+          { signal }
+        );
+        return completion.choices[0]?.message?.content ?? '';
+      },
+      () => ''
+    );
+  }
+
+  stream(request: CompletionRequest, onToken: (token: string) => void): Promise<string> {
+    let text = '';
+    return this.withAbort(
+      async signal => {
+        const chunks = await this.client.chat.completions.create({ ...this.body(request), stream: true }, { signal });
+        for await (const chunk of chunks) {
+          const token = chunk.choices[0]?.delta?.content;
+          if (token) {
+            text += token;
+            onToken(token);
+          }
+        }
+        return text;
+      },
+      () => text
+    );
+  }
+
+  async cancel(): Promise<void> {
+    this.abortController?.abort();
+  }
+
+  /** Estimates the prompt size; see CHARS_PER_TOKEN. */
+  async countTokens(messages: LLMMessage[]): Promise<number> {
+    return messages.reduce(
+      (total, message) => total + Math.ceil(message.content.length / CHARS_PER_TOKEN) + TOKENS_PER_MESSAGE,
+      0
+    );
+  }
+
+  async release(): Promise<void> {
+    await this.cancel();
+  }
+}
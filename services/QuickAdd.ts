@@ -0,0 +1,508 @@
+import { Action } from '../types/Action';
+
+/**
+ * A rule-based parser for quick-add phrases such as "lunch with Sam
+ * tomorrow 12:30 for 45 min" or "conference 3-5 March". It understands
+ * relative dates (today, tomorrow, Friday, next Friday, in 2 weeks),
+ * calendar dates, times and time ranges, parts of the day and
+ * durations, and turns the phrase into the CREATE_EVENT action that
+ * ActionParser.execute runs; whatever is left over becomes the title.
+ * Capitalised names after a closing "with", as in "lunch with Sam",
+ * also become the attendees.
+ *
+ * It only answers when it is sure, since the chat tries it on every
+ * message before the model. Questions, edits of existing events,
+ * recurring events, reminders, time zones, an hour that could be
+ * morning or evening, a title with a question word or command verb in
+ * it, and any date or time word it could not place all return null, so
+ * that the phrase goes to the model instead.
+ */
+
+export type QuickAddOptions = {
+  /** The current time; relative dates count from its day. */
+  now?: Date;
+  /**
+   * Day for a time given without a date, such as the day selected on the
+   * calendar. Without one the time is today, or tomorrow once it has passed.
+   */
+  date?: Date;
+  /** Names of the user's calendars, so that "lunch Friday 1pm to Work" goes in Work. */
+  calendars?: string[];
+  /** Length of a timed event given without an end or duration; an hour by default. */
+  defaultDurationMinutes?: number;
+};
+
+type PartOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+type Span = { start: number; end: number };
+type DateMatch = Span & { date: Date; weekday: boolean };
+type Clock = { hour: number; minute: number; meridiem?: 'a' | 'p'; padded: boolean };
+
+const DEFAULT_DURATION_MINUTES = 60;
+// Start times for "tomorrow morning" and the like.
+const PART_OF_DAY_HOURS: Record<PartOfDay, number> = { morning: 9, afternoon: 14, evening: 18, night: 20 };
+// Longer phrases are unlikely to be a quick add.
+const MAX_LENGTH = 120;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+const AMOUNT = '(\\d+(?:\\.\\d+)?|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)';
+const WEEKDAY = '(sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues|tue|wed|thurs|thur|thu|fri|sat)';
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTH =
+  '(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)';
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// An hour with optional minutes and am/pm: "3", "3pm", "3:30 p.m.", "15.45".
+const CLOCK = '(\\d{1,2})(?:[:.](\\d{2}))?(?:\\s*([ap])\\.?m\\b\\.?)?(?![\\w:])';
+
+// Phrases that ask, change or repeat rather than add one event.
+const NOT_QUICK_ADD = [
+  /\?/,
+  /^(?:what|when|where|who|which|why|how|is|are|am|do|does|did|can|could|should|would|will|show|list|find|search|move|reschedule|change|update|edit|rename|delete|remove|cancel|clear|shift|push|postpone|duplicate|copy|undo|redo|make|actually)\b/i,
+  /\b(?:every|each|daily|weekly|monthly|yearly|annually|fortnightly|biweekly|weekdays|repeat|repeating|recurring|remind|reminder|reminders|todo|to-do|task|tasks)\b/i,
+  /\b(?:utc|gmt|time\s*zone|[pmce][sd]t|bst|cet|cest|jst|aest)\b|\d\s*(?:[ap]\.?m\.?)?\s+(?:[a-z]+\s+){1,2}time\b/i,
+  /\b(?:yesterday|ago|last)\b/i,
+  // Changes to existing events mentioned mid-sentence, e.g. "I'm sick, cancel everything today".
+  /\b(?:cancel|clear|reschedule|postpone|everything)\b/i,
+];
+// "add", "create a", "book an" and so on before the event itself.
+const LEADING_VERB =
+  /^(?:please\s+)?(?:(?:add|create|schedule|new\s+event:?)\s+(?:(?:a|an)\s+)?|(?:book|set\s+up|put\s+in)\s+(?:a|an)\s+)/i;
+// Date and time words the parser did not place; if any is left in the title the parse is not trusted.
+const LEFTOVER =
+  /\b(?:today|tonight|tomorrow|tmrw|next|noon|midday|midnight|weekend|sunday|monday|tuesday|wednesday|thursday|friday|saturday|january|february|april|june|july|august|september|october|november|december)\b|\d\s*[ap]\.?m\b|\d[:.]\d\d|\b\d+(?:\.\d+)?\s*(?:mins?|minutes?|hrs?|hours?)\b|\b\d{1,2}(?:st|nd|rd|th)\b|\b\d{1,2}\s*[-–]\s*\d{1,2}\b|\b\d{1,2}\/\d{1,2}\b/i;
+// Question words and command verbs: a title holding one is chat, such as "please delete lunch", not an event.
+const COMMAND_WORD =
+  /\b(?:what|when|where|who|which|why|how|you|move|reschedule|change|update|edit|rename|delete|remove|cancel|clear|shift|push|postpone|duplicate|copy|remind|find|search|show|list|undo|redo)\b/i;
+// "with Priya and Tom" at the end of the title: capitalised names are taken as the attendees.
+const NAME = "\\p{Lu}[\\p{L}'’-]*(?:\\s+\\p{Lu}[\\p{L}'’-]*)?";
+const WITH_PEOPLE = new RegExp(`\\bwith\\s+(${NAME}(?:\\s*(?:,|&|and)\\s*${NAME})*)$`, 'u');
+// Joining words left dangling at the end of the title once dates and times are removed.
+const TRAILING_JOINER = /(?:\s+|^)(?:on|at|from|for|in|by|to|until|till|and|between|the|,|-|–)$/i;
+
+/** Escapes a string for use as a literal in a regular expression. */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Formats a date as YYYY-MM-DD in local time. */
+function formatDate(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/** Formats a date as a YYYY-MM-DDTHH:mm:ss wall-clock time, as CREATE_EVENT takes it. */
+function formatDateTime(date: Date): string {
+  const h = String(date.getHours()).padStart(2, '0');
+  const min = String(date.getMinutes()).padStart(2, '0');
+  return `${formatDate(date)}T${h}:${min}:00`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function amount(word: string): number {
+  return NUMBER_WORDS[word] ?? Number(word);
+}
+
+/** Local midnight of the given calendar date, or null if there is no such date. */
+function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+/** The next `weekday` on or after `today`, or for "next" the one in the following Monday-to-Sunday week. */
+function weekdayDate(today: Date, weekday: number, next: boolean): Date {
+  let date = addDays(today, (weekday - today.getDay() + 7) % 7);
+  if (next) {
+    if (date.getTime() === today.getTime()) {
+      date = addDays(date, 7);
+    }
+    const mondayOf = (d: Date) => addDays(d, -((d.getDay() + 6) % 7)).getTime();
+    if (mondayOf(date) === mondayOf(today)) {
+      date = addDays(date, 7);
+    }
+  }
+  return date;
+}
+
+/** A day and month with an optional year; without one, the next such date from today. */
+function dayOfMonth(today: Date, day: number, monthName: string, year?: string): Date | null {
+  const month = MONTHS.indexOf(monthName.slice(0, 3));
+  if (year) {
+    return calendarDate(Number(year), month, day);
+  }
+  const date = calendarDate(today.getFullYear(), month, day);
+  return date && date.getTime() < today.getTime() ? calendarDate(today.getFullYear() + 1, month, day) : date;
+}
+
+function toClock(hour: string, minute: string | undefined, meridiem: string | undefined): Clock | null {
+  const clock: Clock = {
+    hour: Number(hour),
+    minute: minute ? Number(minute) : 0,
+    meridiem: meridiem as Clock['meridiem'],
+    padded: hour.length === 2 && hour.startsWith('0'),
+  };
+  if (clock.minute > 59 || clock.hour > (clock.meridiem ? 12 : 23) || (clock.meridiem && clock.hour === 0)) {
+    return null;
+  }
+  return clock;
+}
+
+function withMeridiem(hour: number, meridiem: 'a' | 'p'): number {
+  return (hour % 12) + (meridiem === 'p' ? 12 : 0);
+}
+
+/**
+ * The hour a clock time means. Without am/pm, 24-hour times and
+ * zero-padded hours are taken as written; otherwise the part of the day
+ * decides, then 1 to 6 are afternoon and 8 to 12 morning or noon. 7 could
+ * be either, so it gives null.
+ */
+function resolveHour(clock: Clock, part?: PartOfDay): number | null {
+  if (clock.meridiem) {
+    return withMeridiem(clock.hour, clock.meridiem);
+  }
+  if (clock.hour === 0 || clock.hour >= 13 || clock.padded) {
+    return clock.hour;
+  }
+  if (part) {
+    return part === 'morning' ? clock.hour % 12 : withMeridiem(clock.hour, 'p');
+  }
+  if (clock.hour === 7) {
+    return null;
+  }
+  return clock.hour <= 6 ? clock.hour + 12 : clock.hour;
+}
+
+/**
+ * The hours of a "3-4pm" style range. A start without am/pm takes the
+ * end's when that keeps it first ("11-1pm" is 11am to 1pm); an end
+ * without one is whichever reading comes after the start, or the next
+ * morning ("10pm-2" ends at 2am).
+ */
+function resolveRange(start: Clock, end: Clock, part?: PartOfDay): [number, number] | null {
+  const minutes = (hour: number, clock: Clock) => hour * 60 + clock.minute;
+  if (!start.meridiem && end.meridiem && start.hour >= 1 && start.hour <= 12) {
+    const endHour = withMeridiem(end.hour, end.meridiem);
+    let startHour = withMeridiem(start.hour, end.meridiem);
+    if (minutes(startHour, start) > minutes(endHour, end)) {
+      startHour -= 12;
+    }
+    return startHour < 0 ? null : [startHour, endHour];
+  }
+  const startHour = resolveHour(start, part);
+  if (startHour === null) {
+    return null;
+  }
+  if (end.meridiem || end.hour === 0 || end.hour >= 13 || end.padded) {
+    return [startHour, resolveHour(end)!];
+  }
+  const readings = [end.hour % 12, (end.hour % 12) + 12];
+  const endHour = readings.find(hour => minutes(hour, end) > minutes(startHour, start)) ?? readings[0];
+  return [startHour, endHour];
+}
+
+/**
+ * Parses a quick-add phrase into a CREATE_EVENT action, or returns null
+ * when it is not confident; see the module comment.
+ */
+export function parseQuickAdd(text: string, options: QuickAddOptions = {}): Action | null {
+  const now = options.now ?? new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const source = text.trim().replace(/[.!]+$/, '').replace(LEADING_VERB, '');
+  if (!source || source.length > MAX_LENGTH || NOT_QUICK_ADD.some(pattern => pattern.test(source))) {
+    return null;
+  }
+  // Matching runs on a lower-case copy in which matched text is blanked
+  // out, so that later patterns cannot match it again.
+  let working = source.toLowerCase();
+  if (working.length !== source.length) {
+    return null;
+  }
+  const consumed: Span[] = [];
+  const consume = (start: number, end: number) => {
+    working = working.slice(0, start) + ' '.repeat(end - start) + working.slice(end);
+    consumed.push({ start, end });
+  };
+  // Consumes the first match of `pattern` that `accept` takes.
+  const take = (pattern: RegExp, accept: (match: RegExpExecArray) => boolean = () => true) => {
+    const regex = new RegExp(pattern.source, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(working))) {
+      if (accept(match)) {
+        consume(match.index, match.index + match[0].length);
+        return match;
+      }
+    }
+    return null;
+  };
+
+  // "to Work" or "in my Family calendar" names the calendar; longer names are tried first.
+  const calendar = [...(options.calendars ?? [])]
+    .sort((a, b) => b.length - a.length)
+    .find(name =>
+      take(new RegExp(`\\b(?:to|in|on)\\s+(?:(?:my|the)\\s+)?${escapeRegExp(name.toLowerCase())}(?:\\s+calendar)?(?!\\w)`))
+    );
+
+  const allDay = !!take(/\ball[- ]day\b/);
+
+  // Durations, before times so that "1.5 hours" is not read as a time.
+  let durationMinutes: number | undefined;
+  let durationDays: number | undefined;
+  const setDuration = (value: number, unit: string) => {
+    if (!(value > 0)) return false;
+    if (unit.startsWith('d')) {
+      if (!Number.isInteger(value)) return false;
+      durationDays = value;
+    } else {
+      durationMinutes = Math.round(unit.startsWith('h') ? value * 60 : value);
+    }
+    return true;
+  };
+  const durationPatterns: [RegExp, (match: RegExpExecArray) => boolean][] = [
+    [/\b(?:for\s+)?half\s+an?\s+hour\b/, () => setDuration(30, 'm')],
+    [
+      new RegExp(`\\b(?:for\\s+)?${AMOUNT}\\s+(?:and\\s+a\\s+half\\s+hours?|hours?\\s+and\\s+a\\s+half)\\b`),
+      m => setDuration(amount(m[1]) + 0.5, 'h'),
+    ],
+    [
+      /\b(?:for\s+)?(\d+)\s*h(?:ours?|rs?)?\s*(?:and\s+)?(\d+)\s*(?:m|mins?|minutes?)\b/,
+      m => setDuration(Number(m[1]) * 60 + Number(m[2]), 'm'),
+    ],
+    [/\b(?:for\s+)?(\d+)h(\d{2})\b/, m => setDuration(Number(m[1]) * 60 + Number(m[2]), 'm')],
+    [
+      new RegExp(`\\b(in\\s+|for\\s+)?${AMOUNT}\\s*(minutes?|mins?|m|hours?|hrs?|h|days?|d)\\b`),
+      // "in 2 days" is a date, and "a day" needs "for" to be a duration.
+      m => m[1]?.trim() !== 'in' && !(!m[1] && m[2] in NUMBER_WORDS) && setDuration(amount(m[2]), m[3]),
+    ],
+  ];
+  durationPatterns.some(([pattern, accept]) => take(pattern, accept));
+
+  // Dates; two of them may form a range such as "from Monday to Wednesday".
+  const datePatterns: [RegExp, (match: RegExpExecArray) => Date | null][] = [
+    [/\b(?:on\s+)?(\d{4})-(\d{1,2})-(\d{1,2})\b/, m => calendarDate(Number(m[1]), Number(m[2]) - 1, Number(m[3]))],
+    [/\b(?:the\s+)?day\s+after\s+tomorrow\b/, () => addDays(today, 2)],
+    [/\b(today|tonight|tomorrow|tmrw|tmr)\b/, m => addDays(today, m[1] === 'today' || m[1] === 'tonight' ? 0 : 1)],
+    [
+      new RegExp(`\\bin\\s+${AMOUNT}\\s+(days?|weeks?|months?)\\b`),
+      m => {
+        const count = amount(m[1]);
+        if (!Number.isInteger(count)) return null;
+        if (m[2].startsWith('month')) {
+          // The same day of the month, or the month's last day if it is shorter.
+          const month = new Date(today.getFullYear(), today.getMonth() + count, 1);
+          const lastDay = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+          return new Date(month.getFullYear(), month.getMonth(), Math.min(today.getDate(), lastDay));
+        }
+        return addDays(today, count * (m[2].startsWith('week') ? 7 : 1));
+      },
+    ],
+    [
+      new RegExp(`\\b(?:on\\s+)?(?:(this|next|coming)\\s+)?${WEEKDAY}\\b`),
+      m => weekdayDate(today, WEEKDAYS.indexOf(m[2].slice(0, 3)), m[1] === 'next'),
+    ],
+    [
+      new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+of)?\\s+${MONTH}\\b(?:,?\\s+(\\d{4})\\b)?`),
+      m => dayOfMonth(today, Number(m[1]), m[2], m[3]),
+    ],
+    [
+      new RegExp(`\\b(?:on\\s+)?${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?![:.]\\d)(?:,?\\s+(\\d{4})\\b)?`),
+      m => dayOfMonth(today, Number(m[2]), m[1], m[3]),
+    ],
+  ];
+  const dates: DateMatch[] = [];
+  let tonight = false;
+  while (dates.length < 2) {
+    let found = false;
+    for (const [pattern, toDate] of datePatterns) {
+      const match = take(pattern, m => toDate(m) !== null);
+      if (match) {
+        dates.push({
+          date: toDate(match)!,
+          start: match.index,
+          end: match.index + match[0].length,
+          weekday: new RegExp(WEEKDAY).test(match[0]),
+        });
+        tonight ||= match[1] === 'tonight';
+        found = true;
+        break;
+      }
+    }
+    if (!found) break;
+  }
+  dates.sort((a, b) => a.start - b.start);
+  let firstDay: Date | undefined = dates[0]?.date;
+  let lastDay: Date | undefined;
+  if (dates.length === 1) {
+    // "3-5 March" or "March 3-5": another day of the same month.
+    const { date, start, end } = dates[0];
+    const before = working
+      .slice(0, start)
+      .match(/\b(?:from\s+)?(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?\s*(?:-|–|to|until|till|through)\s*$/);
+    const after = working.slice(end).match(/^\s*(?:-|–|to|until|till|through)\s*(\d{1,2})(?:st|nd|rd|th)?\b(?![:.]\d)/);
+    const other = before ?? after;
+    const otherDay = other && calendarDate(date.getFullYear(), date.getMonth(), Number(other[1]));
+    if (other && otherDay && (before ? otherDay < date : otherDay > date)) {
+      if (before) {
+        consume(before.index!, start);
+        [firstDay, lastDay] = [otherDay, date];
+      } else {
+        consume(end, end + other[0].length);
+        lastDay = otherDay;
+      }
+    }
+  }
+  if (dates.length === 2) {
+    const between = working.slice(dates[0].end, dates[1].start);
+    // "Monday to Wednesday" ends on the Wednesday after the Monday.
+    while (dates[1].weekday && dates[1].date < dates[0].date) {
+      dates[1].date = addDays(dates[1].date, 7);
+    }
+    if (!/^\s*(?:-|–|—|to|until|till|through|thru)\s*$/.test(between) || dates[1].date < dates[0].date) {
+      return null;
+    }
+    consume(dates[0].end, dates[1].start);
+    const from = working.slice(0, dates[0].start).match(/\bfrom\s+$/);
+    if (from) {
+      consume(from.index!, dates[0].start);
+    }
+    lastDay = dates[1].date;
+  }
+
+  // Part of the day, when it qualifies a date ("Friday evening") or is
+  // phrased as one ("this morning", "in the afternoon").
+  let part: PartOfDay | undefined = tonight ? 'night' : undefined;
+  const partMatch = take(/\b(in\s+the\s+|this\s+)?(morning|afternoon|evening|night)\b/, match => {
+    return !!match[1] || dates.some(date => date.end <= match.index && !source.slice(date.end, match.index).trim());
+  });
+  if (partMatch) {
+    part = partMatch[2] as PartOfDay;
+  }
+
+  // A time or time range.
+  let startHour: number | undefined;
+  let startMinute = 0;
+  let endHour: number | undefined;
+  let endMinute = 0;
+  let ambiguous = false;
+  if (take(/\b(?:at\s+)?(?:noon|midday)\b/)) {
+    startHour = 12;
+  } else {
+    take(new RegExp(`(?:\\b(at|from|between)\\s+|@\\s*|\\b)${CLOCK}`), match => {
+      const [, prefix, hour, minute, meridiem] = match;
+      const start = toClock(hour, minute, meridiem);
+      const rest = working.slice(match.index + match[0].length);
+      const next = rest.match(new RegExp(`^\\s*(?:-|–|—|to|until|till|and)\\s*${CLOCK}`, 'i'));
+      const end = next ? toClock(next[1], next[2], next[3]) : null;
+      if (!start || (next && !end) || (prefix === 'between') !== /^\s*and\b/i.test(next?.[0] ?? '')) {
+        return false;
+      }
+      // A bare number is only a time with a marker: "at 3", "3pm", "15:00", "3-4pm", "tonight 8-10".
+      const marked =
+        !!prefix || match[0].startsWith('@') || !!minute || !!meridiem || !!next?.[2] || !!next?.[3] || (!!next && !!part);
+      if (!marked) {
+        return false;
+      }
+      if (end) {
+        const hours = resolveRange(start, end, part);
+        if (!hours) {
+          ambiguous = true;
+        } else {
+          [startHour, endHour] = hours;
+          endMinute = end.minute;
+        }
+        // Take the end of the range as well.
+        consume(match.index + match[0].length, match.index + match[0].length + next![0].length);
+      } else {
+        const hour = resolveHour(start, part);
+        if (hour === null) {
+          ambiguous = true;
+        } else {
+          startHour = hour;
+        }
+      }
+      startMinute = start.minute;
+      return true;
+    });
+  }
+  if (ambiguous) {
+    return null;
+  }
+
+  let title = source;
+  [...consumed]
+    .sort((a, b) => b.start - a.start)
+    .forEach(span => {
+      title = `${title.slice(0, span.start)} ${title.slice(span.end)}`;
+    });
+  title = title.replace(/\s+/g, ' ').trim();
+  while (TRAILING_JOINER.test(title)) {
+    title = title.replace(TRAILING_JOINER, '').trim();
+  }
+  title = title.replace(/^[\s,;:–-]+|[\s,;:–-]+$/g, '');
+  if (!/\p{L}/u.test(title) || LEFTOVER.test(title) || COMMAND_WORD.test(title)) {
+    return null;
+  }
+  title = title.charAt(0).toUpperCase() + title.slice(1);
+  // The people stay in the title as well, as the user wrote it.
+  const people = WITH_PEOPLE.exec(title)?.[1].split(/\s*(?:,|&|\band\b)\s*/);
+  const extras = { ...(calendar ? { calendar } : {}), ...(people ? { attendees: people.join(', ') } : {}) };
+
+  const timed = startHour !== undefined || part !== undefined;
+  if (timed) {
+    if (allDay || lastDay || (durationDays !== undefined && endHour !== undefined)) {
+      return null;
+    }
+    const hour = startHour ?? PART_OF_DAY_HOURS[part!];
+    const at = (day: Date) => new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, startMinute);
+    let start = at(firstDay ?? options.date ?? today);
+    if (!firstDay && !options.date && start.getTime() <= now.getTime()) {
+      start = at(addDays(today, 1));
+    }
+    let end: Date;
+    if (endHour !== undefined) {
+      end = new Date(start.getFullYear(), start.getMonth(), start.getDate(), endHour, endMinute);
+      if (end.getTime() <= start.getTime()) {
+        end = addDays(end, 1);
+      }
+    } else if (durationDays !== undefined) {
+      end = addDays(start, durationDays);
+    } else {
+      end = new Date(start.getTime() + (durationMinutes ?? options.defaultDurationMinutes ?? DEFAULT_DURATION_MINUTES) * 60 * 1000);
+    }
+    return {
+      command: 'CREATE_EVENT',
+      params: { title, startTime: formatDateTime(start), endTime: formatDateTime(end), ...extras },
+    };
+  }
+
+  // A date without a time is an all-day event, as is "all day" on its own.
+  if (durationMinutes !== undefined || (!firstDay && !allDay)) {
+    return null;
+  }
+  const first = firstDay ?? options.date ?? today;
+  const last = lastDay ?? (durationDays ? addDays(first, durationDays - 1) : first);
+  return {
+    command: 'CREATE_EVENT',
+    params: { title, startTime: formatDate(first), endTime: formatDate(last), allDay: 'true', ...extras },
+  };
+}
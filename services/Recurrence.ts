@@ -0,0 +1,348 @@
+import { Event, RecurrenceFrequency, RecurrenceRule, Weekday, WeekdayNum } from '../types/Event';
+import { fromWallClock, toWallClock } from './TimeZone';
+
+/**
+ * Helpers for RFC 5545-style recurrence rules. A recurring event is
+ * stored once (the "master") and expanded into individual occurrences
+ * on demand. Occurrences are computed in wall-clock time, in the
+ * event's time zone or the device's when it has none, so that a weekly
+ * 9:00 meeting stays at 9:00 across daylight saving changes.
+ */
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  SU: 'Sun',
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+};
+
+// Upper bound on the number of periods walked for a single rule. This
+// guards against rules that can never produce a match (for example the
+// 31st of every month with a 12 month interval starting in April).
+const MAX_PERIODS = 10000;
+
+// Separates the series id from the occurrence start in occurrence ids.
+const OCCURRENCE_SEPARATOR = '::';
+
+/**
+ * Parses an RRULE value such as `FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10`. The
+ * leading `RRULE:` prefix is optional. Returns null when the rule has no
+ * supported FREQ.
+ */
+export function parseRRule(text: string): RecurrenceRule | null {
+  const parts: { [key: string]: string } = {};
+  text
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .forEach(part => {
+      const [key, value] = part.split('=');
+      if (key && value) {
+        parts[key.trim().toUpperCase()] = value.trim();
+      }
+    });
+
+  const freq = parts.FREQ?.toUpperCase() as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    return null;
+  }
+  const rule: RecurrenceRule = { freq };
+
+  const interval = parseInt(parts.INTERVAL, 10);
+  if (interval > 1) {
+    rule.interval = interval;
+  }
+  const count = parseInt(parts.COUNT, 10);
+  if (count > 0) {
+    rule.count = count;
+  }
+  if (parts.UNTIL) {
+    const until = parseRRuleDate(parts.UNTIL);
+    if (until) {
+      rule.until = until;
+    }
+  }
+  if (parts.BYDAY) {
+    const byDay: WeekdayNum[] = [];
+    parts.BYDAY.split(',').forEach(entry => {
+      const match = entry.trim().toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (match) {
+        const ordinal = match[1] ? parseInt(match[1], 10) : undefined;
+        byDay.push(ordinal ? { weekday: match[2] as Weekday, ordinal } : { weekday: match[2] as Weekday });
+      }
+    });
+    if (byDay.length > 0) {
+      rule.byDay = byDay;
+    }
+  }
+  return rule;
+}
+
+/** Serialises a rule back into an RRULE value (without the `RRULE:` prefix). */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval && rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Parses an UNTIL value. Accepts the RFC 5545 forms (`20250131`,
+ * `20250131T170000` and `20250131T170000Z`) as well as ISO strings. A
+ * bare date is treated as the end of that local day so that an
+ * occurrence on the final day is still included.
+ */
+function parseRRuleDate(value: string): Date | null {
+  const compact = value.replace(/[-:]/g, '');
+  const match = compact.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/i);
+  if (!match) {
+    return null;
+  }
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) {
+    return new Date(Number(y), Number(mo) - 1, Number(d), 23, 59, 59, 999);
+  }
+  const fields = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s ?? 0)] as const;
+  return utc ? new Date(Date.UTC(...fields)) : new Date(...fields);
+}
+
+/** Returns a short human readable description, e.g. "Every 2 weeks on Tue, Thu". */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = rule.interval ?? 1;
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  let text = interval > 1 ? `Every ${interval} ${unit}s` : `Every ${unit}`;
+  if (rule.byDay && rule.byDay.length > 0) {
+    const days = rule.byDay.map(d => (d.ordinal ? `${ordinalLabel(d.ordinal)} ${WEEKDAY_LABELS[d.weekday]}` : WEEKDAY_LABELS[d.weekday]));
+    text += ` on ${days.join(', ')}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  } else if (rule.until) {
+    text += `, until ${rule.until.toLocaleDateString()}`;
+  }
+  return text;
+}
+
+function ordinalLabel(n: number): string {
+  if (n === -1) return 'last';
+  return ['', '1st', '2nd', '3rd', '4th', '5th'][n] ?? `${n}th`;
+}
+
+/** Builds the id used for an expanded occurrence of a recurring event. */
+export function occurrenceId(seriesId: string, originalStart: Date): string {
+  return `${seriesId}${OCCURRENCE_SEPARATOR}${originalStart.getTime()}`;
+}
+
+/** Splits an occurrence id into its series id and original start, or returns null for plain ids. */
+export function parseOccurrenceId(id: string): { seriesId: string; originalStart: Date } | null {
+  const index = id.lastIndexOf(OCCURRENCE_SEPARATOR);
+  if (index < 0) {
+    return null;
+  }
+  const millis = Number(id.slice(index + OCCURRENCE_SEPARATOR.length));
+  if (!Number.isFinite(millis)) {
+    return null;
+  }
+  return { seriesId: id.slice(0, index), originalStart: new Date(millis) };
+}
+
+/** Creates the occurrence of a recurring event that starts at `originalStart`. */
+export function buildOccurrence(event: Event, originalStart: Date): Event {
+  const duration = event.endTime.getTime() - event.startTime.getTime();
+  return {
+    ...event,
+    id: occurrenceId(event.id, originalStart),
+    startTime: new Date(originalStart),
+    endTime: new Date(originalStart.getTime() + duration),
+    seriesId: event.id,
+    originalStart: new Date(originalStart),
+  };
+}
+
+/** Returns true when the span [start, end] touches the half-open range [rangeStart, rangeEnd). */
+export function overlapsRange(start: Date, end: Date, rangeStart: Date, rangeEnd: Date): boolean {
+  if (start.getTime() >= rangeEnd.getTime()) {
+    return false;
+  }
+  // Zero-length events count as inside the range when they start in it.
+  return end.getTime() > rangeStart.getTime() || start.getTime() >= rangeStart.getTime();
+}
+
+/**
+ * Expands an event into the occurrences that overlap [rangeStart,
+ * rangeEnd). Non-recurring events are returned as-is when they overlap.
+ * Exception dates are skipped; they still count towards COUNT as
+ * required by RFC 5545.
+ */
+export function expandEvent(event: Event, rangeStart: Date, rangeEnd: Date): Event[] {
+  if (!event.recurrence) {
+    return overlapsRange(event.startTime, event.endTime, rangeStart, rangeEnd) ? [event] : [];
+  }
+  const duration = event.endTime.getTime() - event.startTime.getTime();
+  const excluded = new Set((event.exceptionDates ?? []).map(d => d.getTime()));
+  const occurrences: Event[] = [];
+  for (const start of generateStarts(event.startTime, event.recurrence, event.timeZone)) {
+    if (start.getTime() >= rangeEnd.getTime()) {
+      break;
+    }
+    const end = new Date(start.getTime() + duration);
+    if (!excluded.has(start.getTime()) && overlapsRange(start, end, rangeStart, rangeEnd)) {
+      occurrences.push(buildOccurrence(event, start));
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Counts the occurrences the rule generates strictly before `before`,
+ * including excluded ones. Used when splitting a series so that the
+ * remaining COUNT can be carried over to the new series.
+ */
+export function countOccurrencesBefore(event: Event, before: Date): number {
+  if (!event.recurrence) {
+    return event.startTime.getTime() < before.getTime() ? 1 : 0;
+  }
+  let count = 0;
+  for (const start of generateStarts(event.startTime, event.recurrence, event.timeZone)) {
+    if (start.getTime() >= before.getTime()) {
+      break;
+    }
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Yields every occurrence start of the rule in ascending order, honouring
+ * COUNT and UNTIL. Candidates are generated on the wall clock of
+ * `timeZone` (the device zone when undefined) and then converted to
+ * instants.
+ */
+function* generateStarts(start: Date, rule: RecurrenceRule, timeZone?: string): Generator<Date> {
+  const interval = Math.max(1, rule.interval ?? 1);
+  const wall = toWallClock(start, timeZone);
+  // The start's wall-clock time as a UTC date, so that the calendar
+  // arithmetic below is unaffected by any zone's DST changes.
+  const floatingStart = new Date(
+    Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second, wall.millisecond)
+  );
+  let emitted = 0;
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const floating of candidatesForPeriod(floatingStart, rule, period * interval)) {
+      const candidate = fromWallClock(
+        {
+          year: floating.getUTCFullYear(),
+          month: floating.getUTCMonth(),
+          day: floating.getUTCDate(),
+          hour: floating.getUTCHours(),
+          minute: floating.getUTCMinutes(),
+          second: floating.getUTCSeconds(),
+          millisecond: floating.getUTCMilliseconds(),
+        },
+        timeZone
+      );
+      if (candidate.getTime() < start.getTime()) {
+        continue;
+      }
+      if (rule.until && candidate.getTime() > rule.until.getTime()) {
+        return;
+      }
+      yield candidate;
+      emitted++;
+      if (rule.count && emitted >= rule.count) {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Returns the sorted candidate starts for the period `offset` units
+ * after the first one. `start` and the results hold wall-clock times in
+ * their UTC fields.
+ */
+function candidatesForPeriod(start: Date, rule: RecurrenceRule, offset: number): Date[] {
+  const at = (year: number, month: number, day: number) =>
+    new Date(
+      Date.UTC(
+        year,
+        month,
+        day,
+        start.getUTCHours(),
+        start.getUTCMinutes(),
+        start.getUTCSeconds(),
+        start.getUTCMilliseconds()
+      )
+    );
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const weekdays = (rule.byDay ?? []).map(d => WEEKDAYS.indexOf(d.weekday));
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = at(year, month, start.getUTCDate() + offset);
+      return weekdays.length === 0 || weekdays.includes(day.getUTCDay()) ? [day] : [];
+    }
+    case 'WEEKLY': {
+      if (weekdays.length === 0) {
+        return [at(year, month, start.getUTCDate() + offset * 7)];
+      }
+      // Weeks start on Monday (the RFC 5545 default WKST).
+      const weekStart = start.getUTCDate() - ((start.getUTCDay() + 6) % 7) + offset * 7;
+      return weekdays
+        .map(weekday => at(year, month, weekStart + ((weekday + 6) % 7)))
+        .sort((a, b) => a.getTime() - b.getTime());
+    }
+    case 'MONTHLY': {
+      const targetMonth = month + offset;
+      const daysInMonth = new Date(Date.UTC(year, targetMonth + 1, 0)).getUTCDate();
+      if (!rule.byDay || rule.byDay.length === 0) {
+        // Months without the start's day of month are skipped, as RFC 5545 requires.
+        return start.getUTCDate() <= daysInMonth ? [at(year, targetMonth, start.getUTCDate())] : [];
+      }
+      const days: number[] = [];
+      rule.byDay.forEach(({ weekday, ordinal }) => {
+        const index = WEEKDAYS.indexOf(weekday);
+        const matching: number[] = [];
+        for (let day = 1; day <= daysInMonth; day++) {
+          if (new Date(Date.UTC(year, targetMonth, day)).getUTCDay() === index) {
+            matching.push(day);
+          }
+        }
+        if (!ordinal) {
+          days.push(...matching);
+        } else {
+          const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+          if (day !== undefined) {
+            days.push(day);
+          }
+        }
+      });
+      return Array.from(new Set(days))
+        .sort((a, b) => a - b)
+        .map(day => at(year, targetMonth, day));
+    }
+    case 'YEARLY': {
+      const candidate = at(year + offset, month, start.getUTCDate());
+      // Skip years where the date does not exist (29 February).
+      return candidate.getUTCMonth() === month ? [candidate] : [];
+    }
+    default:
+      return [];
+  }
+}
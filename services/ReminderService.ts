@@ -0,0 +1,87 @@
+import calendarService from './CalendarService';
+import { maxReminderOffset, ScheduledReminder, upcomingReminders } from './Reminders';
+
+/**
+ * A backend that delivers reminders, such as ExpoNotifier on a device.
+ * The scheduler always replaces the whole set: it cancels everything
+ * and then schedules the reminders that are due soonest.
+ */
+export interface Notifier {
+  /** Prepares the backend, e.g. by asking for permission. */
+  init?(): Promise<void>;
+  cancelAll(): Promise<void>;
+  schedule(reminder: ScheduledReminder): Promise<void>;
+}
+
+// How far ahead reminders are scheduled. Later ones are picked up when
+// the app next opens or the calendar changes.
+const HORIZON_DAYS = 30;
+// iOS keeps at most 64 pending local notifications per app.
+const MAX_SCHEDULED = 60;
+
+/**
+ * ReminderService keeps the notifier's scheduled reminders in step with
+ * the calendar. It recomputes the upcoming fire times, including those
+ * of recurring events' occurrences, whenever CalendarService reports a
+ * change. Changes made together are coalesced into one reschedule.
+ */
+class ReminderService {
+  private notifier: Notifier | null = null;
+  private initialised = false;
+  private rescheduleQueued = false;
+  // Reschedules run one after another so that a cancel never lands between another run's schedules.
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * Starts scheduling reminders through `notifier` and listening for
+   * calendar changes. The notifier is only set up the first time; later
+   * calls just reschedule. Call after CalendarService.init().
+   */
+  async init(notifier: Notifier): Promise<void> {
+    if (!this.initialised) {
+      this.initialised = true;
+      this.notifier = notifier;
+      await notifier.init?.();
+      calendarService.subscribe(this.reschedule);
+    }
+    this.reschedule();
+    await this.pending;
+  }
+
+  /** Queues a reschedule; calls made before it starts share it. */
+  reschedule = () => {
+    if (this.rescheduleQueued) {
+      return;
+    }
+    this.rescheduleQueued = true;
+    this.pending = this.pending
+      .then(() => {
+        this.rescheduleQueued = false;
+        return this.scheduleUpcoming();
+      })
+      .catch(err => console.error('Failed to schedule reminders:', err));
+  };
+
+  /** Returns the reminders that would be scheduled now, soonest first. */
+  getUpcomingReminders(now = new Date()): ScheduledReminder[] {
+    const until = new Date(now);
+    until.setDate(until.getDate() + HORIZON_DAYS);
+    // Events starting up to the largest offset after the horizon still remind within it.
+    const lookahead = maxReminderOffset(calendarService.getStoredEvents());
+    const events = calendarService.getEventsInRange(now, new Date(until.getTime() + lookahead * 60 * 1000));
+    return upcomingReminders(events, now, until, MAX_SCHEDULED);
+  }
+
+  private async scheduleUpcoming(): Promise<void> {
+    if (!this.notifier) {
+      return;
+    }
+    await this.notifier.cancelAll();
+    for (const reminder of this.getUpcomingReminders()) {
+      await this.notifier.schedule(reminder);
+    }
+  }
+}
+
+const reminderService = new ReminderService();
+export default reminderService;
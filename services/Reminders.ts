@@ -0,0 +1,84 @@
+import { Event } from '../types/Event';
+
+/**
+ * Helpers for event reminders. An event's `reminders` are offsets in
+ * minutes before its start; each occurrence of a recurring event gets
+ * its own reminders.
+ */
+
+/** One notification to deliver: the reminder `offset` minutes before an event (or occurrence). */
+export type ScheduledReminder = {
+  /** Stable for the same event, offset and time, so backends can recognise it. */
+  id: string;
+  eventId: string;
+  offset: number;
+  fireAt: Date;
+  title: string;
+  body: string;
+};
+
+const MINUTE = 60 * 1000;
+
+/** Describes a non-zero offset as a length of time, e.g. "30 minutes" or "1 day". */
+function describeLeadTime(minutes: number): string {
+  const units: [number, string][] = [
+    [7 * 24 * 60, 'week'],
+    [24 * 60, 'day'],
+    [60, 'hour'],
+  ];
+  const [size, unit] = units.find(([size]) => minutes % size === 0) ?? [1, 'minute'];
+  const count = minutes / size;
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+/** Describes an offset, e.g. "30 minutes before", "1 day before" or "At start". */
+export function describeReminder(minutes: number): string {
+  return minutes === 0 ? 'At start' : `${describeLeadTime(minutes)} before`;
+}
+
+/**
+ * Parses a comma-separated list of minute offsets, e.g. "10,1440", into
+ * sorted unique offsets. Returns null when any entry is not a whole
+ * number of minutes; an empty string is an empty list.
+ */
+export function parseReminders(text: string): number[] | null {
+  const parts = text.split(',').map(part => part.trim()).filter(part => part.length > 0);
+  if (parts.some(part => !/^\d+$/.test(part))) {
+    return null;
+  }
+  return normalizeReminders(parts.map(Number));
+}
+
+/** Sorts offsets, nearest to the start first, and drops duplicates. */
+export function normalizeReminders(offsets: number[]): number[] {
+  return [...new Set(offsets)].sort((a, b) => a - b);
+}
+
+/** Returns the largest offset of any event, in minutes. */
+export function maxReminderOffset(events: Event[]): number {
+  return events.reduce((max, event) => Math.max(max, ...(event.reminders ?? [])), 0);
+}
+
+/**
+ * Returns the reminders of `events` (expanded occurrences) that fire in
+ * [from, until), soonest first and at most `limit` of them.
+ */
+export function upcomingReminders(events: Event[], from: Date, until: Date, limit: number): ScheduledReminder[] {
+  return events
+    .flatMap(event =>
+      (event.reminders ?? []).map(offset => {
+        const fireAt = new Date(event.startTime.getTime() - offset * MINUTE);
+        return {
+          id: `${event.id}@${offset}`,
+          eventId: event.id,
+          offset,
+          fireAt,
+          title: event.title,
+          body: offset === 0 ? 'Starting now' : `Starts in ${describeLeadTime(offset)}`,
+        };
+      })
+    )
+    .filter(reminder => reminder.fireAt.getTime() >= from.getTime() && reminder.fireAt.getTime() < until.getTime())
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, limit);
+}
@@ -0,0 +1,50 @@
+import { Event } from '../types/Event';
+import { fromWallClock, toWallClock } from './TimeZone';
+
+/**
+ * Helpers for moving events by a relative amount, used by the
+ * assistant's SHIFT_EVENT, DUPLICATE_EVENT and CLEAR_DAY commands so
+ * that the model never has to work out the new times itself. Whole days
+ * move the wall-clock date in the event's zone, so 09:00 stays 09:00
+ * across a daylight saving change; minutes are exact.
+ */
+
+/** How far to move an event; either part may be negative. */
+export type Shift = {
+  days: number;
+  minutes: number;
+};
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/** Moves an instant by `shift`, counting days in `timeZone` (the device zone when none is given). */
+export function shiftTime(date: Date, shift: Shift, timeZone?: string): Date {
+  const wall = toWallClock(date, timeZone);
+  const moved = shift.days !== 0 ? fromWallClock({ ...wall, day: wall.day + shift.days }, timeZone) : date;
+  return new Date(moved.getTime() + shift.minutes * MINUTE);
+}
+
+/** Returns an event's start and end moved by `shift`. */
+export function shiftEvent(event: Event, shift: Shift): Pick<Event, 'startTime' | 'endTime'> {
+  return {
+    startTime: shiftTime(event.startTime, shift, event.timeZone),
+    endTime: shiftTime(event.endTime, shift, event.timeZone),
+  };
+}
+
+/**
+ * Returns the number of days from the day an event starts on, in its
+ * zone, to the local day of `date`: the shift that puts it on that day
+ * at the same time.
+ */
+export function daysUntil(event: Event, date: Date): number {
+  const from = toWallClock(event.startTime, event.timeZone);
+  return daysBetween(new Date(from.year, from.month, from.day), date);
+}
+
+/** Returns the number of calendar days from the local day of `from` to that of `to`. */
+export function daysBetween(from: Date, to: Date): number {
+  const utc = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.round((utc(to) - utc(from)) / DAY);
+}
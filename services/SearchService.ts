@@ -0,0 +1,152 @@
+import * as SQLite from 'expo-sqlite';
+import { Event } from '../types/Event';
+import calendarService from './CalendarService';
+import { getDatabase } from './Database';
+
+/** A run of result text; `match` is set on the parts that matched the query. */
+export type HighlightSegment = {
+  text: string;
+  match: boolean;
+};
+
+export type EventSearchResult = {
+  event: Event;
+  title: HighlightSegment[];
+  /** Matching part of the description, empty when it did not match. */
+  snippet: HighlightSegment[];
+};
+
+export type MessageSearchResult = {
+  messageId: number;
+  conversationId: number;
+  role: 'user' | 'assistant';
+  timestamp: Date;
+  snippet: HighlightSegment[];
+};
+
+// Markers FTS5 wraps around matches; control characters never occur in titles or messages.
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+// Title matches count for more than description matches (bm25 column weights).
+const TITLE_WEIGHT = 10;
+const DESCRIPTION_WEIGHT = 1;
+const SNIPPET_TOKENS = 12;
+const DEFAULT_LIMIT = 25;
+
+/**
+ * Turns what the user typed into an FTS5 query: every word must appear,
+ * and the last part of each word may be missing ("meet" finds
+ * "meeting"). Quoting each word keeps FTS5 syntax such as AND, NEAR or
+ * "-" literal. Returns null when the text has no words.
+ */
+export function toMatchQuery(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map(word => `"${word}"*`).join(' ') : null;
+}
+
+/** Splits text returned by highlight() or snippet() into matched and unmatched runs. */
+export function splitHighlights(text: string | null): HighlightSegment[] {
+  if (!text) {
+    return [];
+  }
+  const segments: HighlightSegment[] = [];
+  text.split(MATCH_START).forEach((part, index) => {
+    // Every part after the first starts with a match, closed by MATCH_END.
+    const [matched, rest] = index === 0 ? [null, part] : part.split(MATCH_END);
+    if (matched) segments.push({ text: matched, match: true });
+    if (rest) segments.push({ text: rest, match: false });
+  });
+  return segments;
+}
+
+/**
+ * SearchService queries the FTS5 indexes over event titles and
+ * descriptions and over chat messages. The indexes live in the shared
+ * database and are kept in sync by triggers (see the schema
+ * migrations), so every write is searchable without extra work here.
+ * Results are ranked by relevance, best first.
+ */
+class SearchService {
+  private db!: SQLite.SQLiteDatabase;
+
+  /** Obtains the shared database connection. Call before searching. */
+  async init(): Promise<void> {
+    this.db = await getDatabase();
+  }
+
+  /**
+   * Returns the stored events matching `query`, best first. Recurring
+   * events are returned once, as their series. Events whose latest
+   * change has not reached the database yet are returned as they are in
+   * memory.
+   */
+  async searchEvents(query: string, limit = DEFAULT_LIMIT): Promise<EventSearchResult[]> {
+    const match = toMatchQuery(query);
+    if (!match) {
+      return [];
+    }
+    const rows = await this.db.getAllAsync<{ id: string; title: string; snippet: string | null }>(
+      `SELECT events.id AS id,
+        highlight(events_fts, 0, ?, ?) AS title,
+        snippet(events_fts, 1, ?, ?, '…', ?) AS snippet
+      FROM events_fts JOIN events ON events.seq = events_fts.rowid
+      WHERE events_fts MATCH ?
+      ORDER BY bm25(events_fts, ?, ?)
+      LIMIT ?`,
+      [MATCH_START, MATCH_END, MATCH_START, MATCH_END, SNIPPET_TOKENS, match, TITLE_WEIGHT, DESCRIPTION_WEIGHT, limit]
+    );
+    return rows.flatMap(row => {
+      const event = calendarService.getEventById(row.id);
+      if (!event) {
+        return [];
+      }
+      const snippet = splitHighlights(row.snippet);
+      return [
+        {
+          event,
+          title: splitHighlights(row.title),
+          snippet: snippet.some(segment => segment.match) ? snippet : [],
+        },
+      ];
+    });
+  }
+
+  /**
+   * Returns the events matching `query` for the assistant's READ_EVENTS,
+   * best first. Text without any words falls back to a substring match
+   * on titles.
+   */
+  async findEvents(query: string): Promise<Event[]> {
+    if (!toMatchQuery(query)) {
+      return calendarService.findEventsByTitle(query);
+    }
+    return (await this.searchEvents(query)).map(result => result.event);
+  }
+
+  /** Returns the chat messages, from every conversation, that match `query`, best first. */
+  async searchMessages(query: string, limit = DEFAULT_LIMIT): Promise<MessageSearchResult[]> {
+    const match = toMatchQuery(query);
+    if (!match) {
+      return [];
+    }
+    const rows = await this.db.getAllAsync<any>(
+      `SELECT messages.id AS id, messages.conversationId AS conversationId, messages.role AS role,
+        messages.timestamp AS timestamp, snippet(messages_fts, 0, ?, ?, '…', ?) AS snippet
+      FROM messages_fts JOIN messages ON messages.id = messages_fts.rowid
+      WHERE messages_fts MATCH ?
+      ORDER BY bm25(messages_fts)
+      LIMIT ?`,
+      [MATCH_START, MATCH_END, SNIPPET_TOKENS, match, limit]
+    );
+    return rows.map(row => ({
+      messageId: row.id,
+      conversationId: row.conversationId,
+      role: row.role,
+      timestamp: new Date(row.timestamp),
+      snippet: splitHighlights(row.snippet),
+    }));
+  }
+}
+
+const searchService = new SearchService();
+export default searchService;
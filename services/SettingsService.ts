@@ -0,0 +1,112 @@
+import * as SQLite from 'expo-sqlite';
+import { getDatabase } from './Database';
+import calendarService, { DEFAULT_CALENDAR_ID } from './CalendarService';
+
+/** How times of day are written: "2:30 PM" or "14:30". */
+export type ClockFormat = '12h' | '24h';
+
+export type AppSettings = {
+  darkMode: boolean;
+  /** Day the month grid and week view start on: 0 for Sunday, 1 for Monday, 6 for Saturday. */
+  weekStartsOn: number;
+  clock: ClockFormat;
+  /** Length of a new event when no end time is given, in minutes. */
+  defaultDurationMinutes: number;
+  /** Calendar new events go in unless another is chosen. */
+  defaultCalendarId: string;
+};
+
+type Subscriber = () => void;
+
+// Row key in the settings table.
+const SETTINGS_KEY = 'app';
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  darkMode: false,
+  weekStartsOn: 1,
+  clock: '12h',
+  defaultDurationMinutes: 60,
+  defaultCalendarId: DEFAULT_CALENDAR_ID,
+};
+
+/**
+ * SettingsService stores the user's app preferences (appearance, week
+ * start, clock format and defaults for new events) as one JSON value in
+ * the settings table. Components read them through SettingsContext;
+ * services call get(). Subscribers are notified after every change.
+ */
+class SettingsService {
+  private db!: SQLite.SQLiteDatabase;
+  private settings: AppSettings = DEFAULT_APP_SETTINGS;
+  private subscribers: Subscriber[] = [];
+  private loaded: Promise<void> | null = null;
+
+  /** Loads the stored settings. Safe to call repeatedly; the settings are read once. */
+  init(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load().catch(err => {
+        this.loaded = null;
+        throw err;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    this.db = await getDatabase();
+    const row = await this.db.getFirstAsync<{ value: string }>('SELECT value FROM settings WHERE key = ?', [
+      SETTINGS_KEY,
+    ]);
+    if (row) {
+      // Fields added in later versions fall back to their defaults.
+      this.settings = { ...DEFAULT_APP_SETTINGS, ...(JSON.parse(row.value) as Partial<AppSettings>) };
+    }
+    this.notify();
+  }
+
+  /** Returns the current settings. Defaults until init() has completed. */
+  get(): AppSettings {
+    return this.settings;
+  }
+
+  /** Merges `changes` into the settings, notifies subscribers and persists them. */
+  async update(changes: Partial<AppSettings>): Promise<void> {
+    await this.init();
+    this.settings = { ...this.settings, ...changes };
+    this.notify();
+    await this.db.runAsync('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)', [
+      SETTINGS_KEY,
+      JSON.stringify(this.settings),
+    ]);
+  }
+
+  subscribe(callback: Subscriber) {
+    this.subscribers.push(callback);
+  }
+
+  unsubscribe(callback: Subscriber) {
+    this.subscribers = this.subscribers.filter(sub => sub !== callback);
+  }
+
+  private notify() {
+    this.subscribers.forEach(callback => callback());
+  }
+}
+
+const settingsService = new SettingsService();
+export default settingsService;
+
+/**
+ * Returns the calendarId for a new event that names no calendar: the
+ * default calendar chosen in the settings, or undefined (the built-in
+ * default calendar) when that one has since been deleted.
+ */
+export function defaultCalendarId(): string | undefined {
+  const id = calendarService.getCalendar(settingsService.get().defaultCalendarId).id;
+  return id === DEFAULT_CALENDAR_ID ? undefined : id;
+}
+
+/** Formats a time of day as hours and minutes in the user's clock format, e.g. "02:30 PM" or "14:30". */
+export function formatTime(date: Date, clock: ClockFormat = settingsService.get().clock): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: clock === '12h' });
+}
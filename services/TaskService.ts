@@ -0,0 +1,196 @@
+import * as SQLite from 'expo-sqlite';
+import { getDatabase } from './Database';
+import { compareTasks, dueDay } from './Tasks';
+import { Task, TaskPriority } from '../types/Task';
+
+type Subscriber = () => void;
+
+/** Converts a database row into a Task. */
+function rowToTask(row: any): Task {
+  return {
+    id: row.id,
+    title: row.title,
+    due: row.due !== null ? new Date(row.due) : undefined,
+    priority: row.priority as TaskPriority,
+    done: !!row.done,
+    completedAt: row.completedAt !== null ? new Date(row.completedAt) : undefined,
+  };
+}
+
+/**
+ * TaskService stores the user's tasks in the tasks table and keeps them
+ * in memory, sorted for display (see compareTasks). Subscribers are
+ * notified after every change. Tasks are not recorded in the undo
+ * journal, which only covers events.
+ */
+class TaskService {
+  private db!: SQLite.SQLiteDatabase;
+  private tasks: Task[] = [];
+  private subscribers: Subscriber[] = [];
+  private loaded: Promise<void> | null = null;
+
+  /** Loads the stored tasks. Safe to call repeatedly; the tasks are read once. */
+  init(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load().catch(err => {
+        this.loaded = null;
+        throw err;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    this.db = await getDatabase();
+    this.tasks = (await this.db.getAllAsync<any>('SELECT * FROM tasks')).map(rowToTask).sort(compareTasks);
+    this.notify();
+  }
+
+  /** Returns every task, open ones first. Empty until init() has completed. */
+  getTasks(): Task[] {
+    return this.tasks;
+  }
+
+  /** Returns the tasks due on the day of `date`, done or not. */
+  getTasksDueOn(date: Date): Task[] {
+    const day = dueDay(date).getTime();
+    return this.tasks.filter(task => task.due?.getTime() === day);
+  }
+
+  getTaskById(id: string): Task | undefined {
+    return this.tasks.find(task => task.id === id);
+  }
+
+  /**
+   * Returns the open tasks `titleQuery` could mean: those whose title
+   * matches exactly (ignoring case) if there are any, otherwise those
+   * whose title contains it.
+   */
+  findTaskCandidates(titleQuery: string): Task[] {
+    const query = titleQuery.trim().toLowerCase();
+    const open = this.tasks.filter(task => !task.done);
+    const exact = open.filter(task => task.title.trim().toLowerCase() === query);
+    return exact.length > 0 ? exact : open.filter(task => task.title.toLowerCase().includes(query));
+  }
+
+  /** Adds an open task. `due` may be any time on the day it is due. Throws if the title is empty. */
+  async createTask(title: string, due?: Date, priority: TaskPriority = 'medium'): Promise<Task> {
+    await this.init();
+    if (!title.trim()) {
+      throw new Error('A task needs a title.');
+    }
+    let millis = Date.now();
+    while (this.tasks.some(task => task.id === millis.toString())) {
+      millis++;
+    }
+    const task: Task = { id: millis.toString(), title: title.trim(), due: due && dueDay(due), priority, done: false };
+    this.tasks = [...this.tasks, task].sort(compareTasks);
+    this.notify();
+    await this.db.runAsync('INSERT INTO tasks (id, title, due, priority, done) VALUES (?, ?, ?, ?, 0)', [
+      task.id,
+      task.title,
+      task.due?.getTime() ?? null,
+      task.priority,
+    ]);
+    return task;
+  }
+
+  /**
+   * Changes a task's title, due day, priority or done state. Marking it
+   * done records when. Returns the updated task if successful.
+   */
+  async updateTask(id: string, changes: Partial<Omit<Task, 'id' | 'completedAt'>>): Promise<Task | undefined> {
+    await this.init();
+    const existing = this.getTaskById(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated: Task = { ...existing, ...changes, id };
+    if ('due' in changes) {
+      updated.due = changes.due && dueDay(changes.due);
+    }
+    if (changes.done !== undefined && changes.done !== existing.done) {
+      updated.completedAt = changes.done ? new Date() : undefined;
+    }
+    this.tasks = this.tasks.map(task => (task.id === id ? updated : task)).sort(compareTasks);
+    this.notify();
+    await this.db.runAsync(
+      'UPDATE tasks SET title = ?, due = ?, priority = ?, done = ?, completedAt = ? WHERE id = ?',
+      [
+        updated.title,
+        updated.due?.getTime() ?? null,
+        updated.priority,
+        updated.done ? 1 : 0,
+        updated.completedAt?.getTime() ?? null,
+        id,
+      ]
+    );
+    return updated;
+  }
+
+  /** Marks a task done or open again. */
+  setDone(id: string, done: boolean): Promise<Task | undefined> {
+    return this.updateTask(id, { done });
+  }
+
+  /** Deletes a task. Returns true if successful. */
+  async deleteTask(id: string): Promise<boolean> {
+    await this.init();
+    if (!this.getTaskById(id)) {
+      return false;
+    }
+    this.tasks = this.tasks.filter(task => task.id !== id);
+    this.notify();
+    await this.db.runAsync('DELETE FROM tasks WHERE id = ?', [id]);
+    return true;
+  }
+
+  /**
+   * Puts every task back as it was in `snapshot`, an earlier result of
+   * getTasks(): tasks added since are deleted and changed ones restored.
+   * Tasks are not journalled, so this is how assistant actions that fail
+   * part way are rolled back.
+   */
+  async restore(snapshot: Task[]): Promise<void> {
+    await this.init();
+    // Changes replace task objects, so anything not in the snapshot is new or changed.
+    const added = this.tasks.filter(task => !snapshot.some(old => old.id === task.id));
+    const changed = snapshot.filter(old => !this.tasks.includes(old));
+    if (added.length === 0 && changed.length === 0) {
+      return;
+    }
+    this.tasks = [...snapshot];
+    this.notify();
+    for (const task of added) {
+      await this.db.runAsync('DELETE FROM tasks WHERE id = ?', [task.id]);
+    }
+    for (const task of changed) {
+      await this.db.runAsync(
+        'INSERT OR REPLACE INTO tasks (id, title, due, priority, done, completedAt) VALUES (?, ?, ?, ?, ?, ?)',
+        [
+          task.id,
+          task.title,
+          task.due?.getTime() ?? null,
+          task.priority,
+          task.done ? 1 : 0,
+          task.completedAt?.getTime() ?? null,
+        ]
+      );
+    }
+  }
+
+  subscribe(callback: Subscriber) {
+    this.subscribers.push(callback);
+  }
+
+  unsubscribe(callback: Subscriber) {
+    this.subscribers = this.subscribers.filter(sub => sub !== callback);
+  }
+
+  private notify() {
+    this.subscribers.forEach(callback => callback());
+  }
+}
+
+const taskService = new TaskService();
+export default taskService;
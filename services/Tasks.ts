@@ -0,0 +1,66 @@
+import { Task, TaskPriority } from '../types/Task';
+
+/**
+ * Helpers for tasks: ordering them, describing them and reading the
+ * priority the assistant gives.
+ */
+
+export const PRIORITY_LABELS: { [P in TaskPriority]: string } = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+const PRIORITY_RANK: { [P in TaskPriority]: number } = { high: 0, medium: 1, low: 2 };
+
+/** True for a known priority; an own-property check, so that "constructor" is not one. */
+function isPriority(value: string): value is TaskPriority {
+  return Object.prototype.hasOwnProperty.call(PRIORITY_RANK, value);
+}
+
+/** Reads a priority such as "High", returning null for anything else. */
+export function parsePriority(value: string): TaskPriority | null {
+  const priority = value.trim().toLowerCase();
+  return isPriority(priority) ? priority : null;
+}
+
+/** Returns local midnight of the given date's day. */
+export function dueDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/** Returns true for an open task whose due day has passed. */
+export function isOverdue(task: Task, now = new Date()): boolean {
+  return !task.done && !!task.due && task.due.getTime() < dueDay(now).getTime();
+}
+
+/**
+ * Orders tasks for a list: open before done, then by due day (tasks
+ * without one last), then by priority, then oldest first.
+ */
+export function compareTasks(a: Task, b: Task): number {
+  const due = (task: Task) => task.due?.getTime() ?? Number.MAX_SAFE_INTEGER;
+  return (
+    Number(a.done) - Number(b.done) ||
+    due(a) - due(b) ||
+    PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+/** Formats a due day, e.g. "Fri, Oct 23". */
+export function formatDue(due: Date): string {
+  return due.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/** Describes a task for the assistant, e.g. "Send the report (due Fri, Oct 23, high priority)". */
+export function describeTask(task: Task): string {
+  const details = [
+    task.due ? `due ${formatDue(task.due)}` : undefined,
+    task.priority !== 'medium' ? `${task.priority} priority` : undefined,
+    task.done ? 'done' : undefined,
+  ].filter(Boolean);
+  return details.length > 0 ? `${task.title} (${details.join(', ')})` : task.title;
+}
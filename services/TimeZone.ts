@@ -0,0 +1,159 @@
+/**
+ * Helpers for IANA time zones, built on Intl so that no zone database
+ * has to be bundled. Events with a `timeZone` keep their wall-clock time
+ * in that zone: a weekly 15:00 London call stays at 15:00 London time
+ * across daylight saving changes, wherever the device is. Events without
+ * one are "floating" and follow the device zone.
+ */
+
+/** A wall-clock time; `month` is zero-based like Date's. */
+export type WallClock = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+};
+
+// Offered in the event editor; any other valid IANA name also works.
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Europe/Athens',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+/** Returns the device's IANA zone, if the runtime exposes it. */
+export function deviceTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Returns true when the runtime knows the zone. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Returns the zone's UTC offset in milliseconds at the given instant. */
+export function zoneOffset(instant: number, timeZone: string): number {
+  const wall = toWallClock(new Date(Math.floor(instant / 1000) * 1000), timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/** Reads the wall-clock time of an instant in `timeZone`, or in the device zone when none is given. */
+export function toWallClock(date: Date, timeZone?: string): WallClock {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      millisecond: date.getMilliseconds(),
+    };
+  }
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month') - 1,
+    day: get('day'),
+    // Some runtimes report midnight as hour 24 even with h23.
+    hour: get('hour') % 24,
+    minute: get('minute'),
+    second: get('second'),
+    millisecond: date.getMilliseconds(),
+  };
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` (the device zone when none is
+ * given) to an instant. Out-of-range fields roll over as with Date. A
+ * time skipped by a DST change resolves to the same time after the
+ * change (02:30 becomes 03:30); a repeated time resolves to its first
+ * occurrence.
+ */
+export function fromWallClock(wall: WallClock, timeZone?: string): Date {
+  if (!timeZone) {
+    return new Date(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second, wall.millisecond);
+  }
+  const asUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second, wall.millisecond);
+  // The offsets a few hours either side bracket any DST change near the result.
+  const estimate = asUtc - zoneOffset(asUtc, timeZone);
+  const before = zoneOffset(estimate - 6 * 3600000, timeZone);
+  const after = zoneOffset(estimate + 6 * 3600000, timeZone);
+  const valid = [asUtc - before, asUtc - after].filter(instant => zoneOffset(instant, timeZone) === asUtc - instant);
+  // No valid instant means the time falls in a DST gap; the old offset moves it past the gap.
+  return new Date(valid.length > 0 ? Math.min(...valid) : asUtc - before);
+}
+
+/** Re-reads the wall-clock time of `date` in one zone as the same wall-clock time in another. */
+export function convertWallClock(date: Date, fromZone: string | undefined, toZone: string | undefined): Date {
+  return fromWallClock(toWallClock(date, fromZone), toZone);
+}
+
+/** A short name for a zone, e.g. "New York" for America/New_York. */
+export function zoneLabel(timeZone: string): string {
+  return timeZone.split('/').pop()!.replace(/_/g, ' ');
+}
+
+/**
+ * Returns the event's start in its own zone, e.g. "03:00 PM London" (or
+ * "15:00 London" with `hour12` false), when that zone's clock differs
+ * from the device's at that moment; otherwise null.
+ */
+export function describeOriginalTime(
+  event: { startTime: Date; timeZone?: string; allDay?: boolean },
+  hour12 = true
+): string | null {
+  const device = deviceTimeZone();
+  if (!event.timeZone || event.allDay || event.timeZone === device) {
+    return null;
+  }
+  const instant = event.startTime.getTime();
+  if (zoneOffset(instant, event.timeZone) === -event.startTime.getTimezoneOffset() * 60000) {
+    return null;
+  }
+  const time = event.startTime.toLocaleTimeString([], {
+    timeZone: event.timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12,
+  });
+  return `${time} ${zoneLabel(event.timeZone)}`;
+}
@@ -0,0 +1,19 @@
+import { Event } from '../types/Event';
+
+/**
+ * Helpers for travel buffers. An event's `travelMinutes` is time set
+ * aside before its start to get to its location; it is busy time like
+ * the event itself.
+ */
+
+const MINUTE = 60 * 1000;
+
+/** Returns when an event's travel buffer begins: its start, less the travel time. */
+export function travelStart(event: Pick<Event, 'startTime' | 'travelMinutes'>): Date {
+  return new Date(event.startTime.getTime() - (event.travelMinutes ?? 0) * MINUTE);
+}
+
+/** Returns true when two locations name the same place, ignoring case and surrounding spaces. */
+export function samePlace(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
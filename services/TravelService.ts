@@ -0,0 +1,106 @@
+import * as SQLite from 'expo-sqlite';
+import { getDatabase } from './Database';
+import { samePlace } from './Travel';
+
+/** How long it takes to get from one place to another. */
+export type TravelRoute = {
+  origin: string;
+  destination: string;
+  minutes: number;
+};
+
+type Subscriber = () => void;
+
+/**
+ * TravelService keeps a table of travel times between places the user
+ * goes to, entered by hand on the travel times screen. It is looked up
+ * to fill in the travel buffer of an event that follows one at another
+ * place; there is no live map service. Routes work in both directions
+ * unless the reverse has a time of its own.
+ */
+class TravelService {
+  private db!: SQLite.SQLiteDatabase;
+  private routes: TravelRoute[] = [];
+  private subscribers: Subscriber[] = [];
+  private loaded: Promise<void> | null = null;
+
+  /** Loads the stored routes. Safe to call repeatedly; the routes are read once. */
+  init(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load().catch(err => {
+        this.loaded = null;
+        throw err;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    this.db = await getDatabase();
+    this.routes = await this.db.getAllAsync<TravelRoute>(
+      'SELECT origin, destination, minutes FROM travel_times ORDER BY origin, destination'
+    );
+    this.notify();
+  }
+
+  /** Returns the known routes, sorted by origin. Empty until init() has completed. */
+  getRoutes(): TravelRoute[] {
+    return this.routes;
+  }
+
+  /** Returns the minutes needed to get from `origin` to `destination`, or undefined if the route is unknown. */
+  lookup(origin: string, destination: string): number | undefined {
+    const route =
+      this.routes.find(r => samePlace(r.origin, origin) && samePlace(r.destination, destination)) ??
+      this.routes.find(r => samePlace(r.origin, destination) && samePlace(r.destination, origin));
+    return route?.minutes;
+  }
+
+  /** Adds a route or changes its time. Throws if a place is missing or the time is not a positive number of minutes. */
+  async setRoute(origin: string, destination: string, minutes: number): Promise<void> {
+    await this.init();
+    if (!origin.trim() || !destination.trim()) {
+      throw new Error('A route needs a place to start from and a place to go to.');
+    }
+    if (samePlace(origin, destination)) {
+      throw new Error('A route must go between two different places.');
+    }
+    if (!Number.isInteger(minutes) || minutes <= 0) {
+      throw new Error('The travel time must be a whole number of minutes.');
+    }
+    const route: TravelRoute = { origin: origin.trim(), destination: destination.trim(), minutes };
+    this.routes = [
+      ...this.routes.filter(r => !(samePlace(r.origin, origin) && samePlace(r.destination, destination))),
+      route,
+    ].sort((a, b) => a.origin.localeCompare(b.origin) || a.destination.localeCompare(b.destination));
+    this.notify();
+    await this.db.runAsync('INSERT OR REPLACE INTO travel_times (origin, destination, minutes) VALUES (?, ?, ?)', [
+      route.origin,
+      route.destination,
+      route.minutes,
+    ]);
+  }
+
+  /** Removes the route from `origin` to `destination`. */
+  async deleteRoute(origin: string, destination: string): Promise<void> {
+    await this.init();
+    this.routes = this.routes.filter(r => !(samePlace(r.origin, origin) && samePlace(r.destination, destination)));
+    this.notify();
+    await this.db.runAsync('DELETE FROM travel_times WHERE origin = ? AND destination = ?', [origin, destination]);
+  }
+
+  subscribe(callback: Subscriber) {
+    this.subscribers.push(callback);
+  }
+
+  unsubscribe(callback: Subscriber) {
+    this.subscribers = this.subscribers.filter(sub => sub !== callback);
+  }
+
+  private notify() {
+    this.subscribers.forEach(callback => callback());
+  }
+}
+
+const travelService = new TravelService();
+export default travelService;
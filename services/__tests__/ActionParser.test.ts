@@ -0,0 +1,125 @@
+import ActionParser from '../ActionParser';
+import calendarService from '../CalendarService';
+import { occurrenceId } from '../Recurrence';
+import taskService from '../TaskService';
+
+describe('ActionParser', () => {
+  it('reads the commands in order, unescaping their values', () => {
+    const text = [
+      'ACTION:CREATE_EVENT(title="Say \\"hi\\" (twice)", startTime="2026-10-15T09:00:00", endTime="2026-10-15T10:00:00")',
+      'ACTION:LIST_TASKS()',
+    ].join('\n');
+    expect(ActionParser.parse(text)).toEqual([
+      {
+        command: 'CREATE_EVENT',
+        params: { title: 'Say "hi" (twice)', startTime: '2026-10-15T09:00:00', endTime: '2026-10-15T10:00:00' },
+      },
+      { command: 'LIST_TASKS', params: {} },
+    ]);
+  });
+
+  it('drops parameters the command does not take', () => {
+    expect(ActionParser.parse('ACTION:DELETE_EVENT(title="Dentist", startTime="2026-10-15")')).toEqual([
+      { command: 'DELETE_EVENT', params: { title: 'Dentist' } },
+    ]);
+  });
+
+  it.each(['UNKNOWN', 'toString', 'constructor', 'hasOwnProperty', '__proto__'])('leaves out %s', command => {
+    expect(ActionParser.parse(`ACTION:${command}(title="Dentist")`)).toEqual([]);
+  });
+
+  it('writes an action back out as parse reads it', () => {
+    const text = 'ACTION:SHIFT_EVENT(title="Team \\"sync\\"", days="1", minutes="-30")';
+    const [action] = ActionParser.parse(text);
+    expect(ActionParser.format(action)).toBe(text);
+  });
+});
+
+describe('ActionParser.execute', () => {
+  beforeAll(() => calendarService.init());
+
+  beforeEach(async () => {
+    for (const event of calendarService.getStoredEvents()) {
+      await calendarService.removeEvent(event.id);
+    }
+  });
+
+  it("reads an update's new times in the event's time zone", async () => {
+    const call = calendarService.createEvent('London call', '2026-10-15T13:00:00Z', '2026-10-15T14:00:00Z', undefined, {
+      timeZone: 'Europe/London',
+    });
+    await ActionParser.execute({
+      command: 'UPDATE_EVENT',
+      params: { title: 'London call', startTime: '2026-10-15T16:00:00', endTime: '2026-10-15T17:00:00' },
+    });
+    expect(calendarService.getEventById(call.id)).toMatchObject({
+      startTime: new Date('2026-10-15T15:00:00Z'),
+      endTime: new Date('2026-10-15T16:00:00Z'),
+    });
+  });
+
+  describe('on an occurrence of a recurring event', () => {
+    const createStandup = () =>
+      calendarService.createEvent('Standup', '2026-10-12T09:00:00Z', '2026-10-12T09:15:00Z', undefined, {
+        recurrence: { freq: 'DAILY', count: 5 },
+      });
+    const tuesday = new Date('2026-10-13T09:00:00Z');
+
+    it('updates only that occurrence', async () => {
+      const standup = createStandup();
+      await ActionParser.execute({
+        command: 'UPDATE_EVENT',
+        params: { title: 'Standup', newTitle: 'Planning' },
+        targetId: occurrenceId(standup.id, tuesday),
+      });
+      expect(calendarService.getEventById(standup.id)).toMatchObject({ title: 'Standup', exceptionDates: [tuesday] });
+      expect(calendarService.findEventCandidates('Planning')).toEqual([
+        expect.objectContaining({ startTime: tuesday, recurrence: undefined }),
+      ]);
+    });
+
+    it('moves only that occurrence', async () => {
+      const standup = createStandup();
+      await ActionParser.execute({
+        command: 'SHIFT_EVENT',
+        params: { title: 'Standup', minutes: '60' },
+        targetId: occurrenceId(standup.id, tuesday),
+      });
+      expect(calendarService.getEventById(standup.id)).toMatchObject({
+        startTime: new Date('2026-10-12T09:00:00Z'),
+        exceptionDates: [tuesday],
+      });
+      expect(
+        calendarService
+          .getEventsForDate(new Date('2026-10-13T00:00:00Z'))
+          .map(event => [event.seriesId, event.startTime])
+      ).toEqual([[undefined, new Date('2026-10-13T10:00:00Z')]]);
+    });
+  });
+});
+
+describe('ActionParser.execute COMPLETE_TASK', () => {
+  beforeEach(async () => {
+    await taskService.restore([]);
+  });
+
+  it('asks which task is meant when several match, and completes the one picked', async () => {
+    const report = await taskService.createTask('Send the report');
+    await taskService.createTask('Send the invoice');
+    const action = { command: 'COMPLETE_TASK' as const, params: { title: 'send' } };
+
+    const choice = await ActionParser.execute(action);
+    expect(choice).toMatchObject({
+      kind: 'taskChoice',
+      prompt: "Several tasks match 'send'. Which one did you finish?",
+      candidates: [
+        expect.objectContaining({ title: 'Send the report' }),
+        expect.objectContaining({ title: 'Send the invoice' }),
+      ],
+    });
+    expect(taskService.getTasks().filter(task => task.done)).toEqual([]);
+
+    expect(await ActionParser.execute({ ...action, targetId: report.id })).toBe("Marked 'Send the report' as done.");
+    expect(taskService.getTaskById(report.id)?.done).toBe(true);
+  });
+});
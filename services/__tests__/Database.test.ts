@@ -0,0 +1,155 @@
+import * as SQLite from 'expo-sqlite';
+import { openTestDatabase } from '../../__mocks__/expo-sqlite';
+import { getSchemaVersion, migrate, MIGRATIONS } from '../Database';
+
+/** Inserts an event the way CalendarService does, with only the columns the index uses set. */
+function insertEvent(db: SQLite.SQLiteDatabase, id: string, title: string, description: string | null = null) {
+  return db.runAsync('INSERT INTO events (id, title, startTime, endTime, description) VALUES (?, ?, ?, ?, ?)', [
+    id,
+    title,
+    0,
+    0,
+    description,
+  ]);
+}
+
+/** Returns the ids of the events matching `query`, joined as SearchService joins them. */
+async function search(db: SQLite.SQLiteDatabase, query: string): Promise<string[]> {
+  const rows = await db.getAllAsync<{ id: string }>(
+    'SELECT events.id AS id FROM events_fts JOIN events ON events.seq = events_fts.rowid WHERE events_fts MATCH ? ORDER BY events.id',
+    [query]
+  );
+  return rows.map(row => row.id);
+}
+
+const LATEST = Math.max(...MIGRATIONS.map(migration => migration.version));
+
+describe('migrate', () => {
+  it('brings an empty database to the latest version', async () => {
+    const db = openTestDatabase();
+    expect(await getSchemaVersion(db)).toBe(0);
+    expect(await migrate(db)).toBe(LATEST);
+    expect(await getSchemaVersion(db)).toBe(LATEST);
+    // A second run has nothing left to do.
+    expect(await migrate(db)).toBe(LATEST);
+  });
+
+  it('carries the events and messages of a version 1 database through every migration', async () => {
+    const db = openTestDatabase();
+    await migrate(db, MIGRATIONS.filter(migration => migration.version === 1));
+    const events = [
+      {
+        id: 'a',
+        title: 'Dentist',
+        startTime: Date.UTC(2026, 9, 20, 9),
+        endTime: Date.UTC(2026, 9, 20, 10),
+        description: 'Bring the forms',
+      },
+      {
+        id: 'b',
+        title: 'Team lunch',
+        startTime: Date.UTC(2026, 9, 21, 12, 30),
+        endTime: Date.UTC(2026, 9, 21, 13, 45),
+        description: null,
+      },
+    ];
+    for (const event of events) {
+      await db.runAsync('INSERT INTO events (id, title, startTime, endTime, description) VALUES (?, ?, ?, ?, ?)', [
+        event.id,
+        event.title,
+        event.startTime,
+        event.endTime,
+        event.description,
+      ]);
+    }
+    const messages = [
+      { role: 'user', content: JSON.stringify({ prompt: 'Dentist tomorrow at 9' }), timestamp: Date.UTC(2026, 9, 19, 8) },
+      {
+        role: 'assistant',
+        content: JSON.stringify({ text: 'Created the dentist appointment' }),
+        timestamp: Date.UTC(2026, 9, 19, 8, 1),
+      },
+      { role: 'assistant', content: 'Plain text from before messages were JSON', timestamp: Date.UTC(2026, 9, 19, 8, 2) },
+    ];
+    for (const message of messages) {
+      await db.runAsync('INSERT INTO messages (role, content, timestamp) VALUES (?, ?, ?)', [
+        message.role,
+        message.content,
+        message.timestamp,
+      ]);
+    }
+
+    expect(await migrate(db)).toBe(LATEST);
+
+    expect(await db.getAllAsync('SELECT id, title, startTime, endTime, description FROM events ORDER BY id')).toEqual(events);
+    expect(await db.getAllAsync('SELECT allDay, calendarId, timeZone, reminders FROM events')).toEqual([
+      { allDay: 0, calendarId: null, timeZone: null, reminders: null },
+      { allDay: 0, calendarId: null, timeZone: null, reminders: null },
+    ]);
+    expect(await db.getAllAsync('SELECT role, content, timestamp FROM messages ORDER BY id')).toEqual(messages);
+    expect(await db.getAllAsync('SELECT conversationId, searchText FROM messages ORDER BY id')).toEqual([
+      { conversationId: 1, searchText: 'Dentist tomorrow at 9' },
+      { conversationId: 1, searchText: 'Created the dentist appointment' },
+      { conversationId: 1, searchText: null },
+    ]);
+    expect(await search(db, 'forms')).toEqual(['a']);
+    expect(
+      await db.getAllAsync('SELECT rowid FROM messages_fts WHERE messages_fts MATCH ? ORDER BY rowid', ['dentist'])
+    ).toEqual([{ rowid: 1 }, { rowid: 2 }]);
+  });
+
+  it('keeps the events of an install that predates versioning searchable', async () => {
+    const db = openTestDatabase();
+    await db.execAsync(
+      'CREATE TABLE events (id TEXT PRIMARY KEY NOT NULL, title TEXT NOT NULL, startTime INTEGER NOT NULL, endTime INTEGER NOT NULL, description TEXT)'
+    );
+    await insertEvent(db, 'a', 'Dentist', 'Bring the forms');
+    await insertEvent(db, 'b', 'Team lunch');
+    await insertEvent(db, 'c', 'Quarterly review', 'Budget and hiring');
+
+    await migrate(db);
+
+    expect(await search(db, 'dentist')).toEqual(['a']);
+    expect(await search(db, 'budget')).toEqual(['c']);
+  });
+
+  it('keeps search results right after events are updated and deleted', async () => {
+    const db = openTestDatabase();
+    await db.execAsync(
+      'CREATE TABLE events (id TEXT PRIMARY KEY NOT NULL, title TEXT NOT NULL, startTime INTEGER NOT NULL, endTime INTEGER NOT NULL, description TEXT)'
+    );
+    await insertEvent(db, 'a', 'Dentist');
+    await insertEvent(db, 'b', 'Team lunch');
+    await migrate(db);
+    await insertEvent(db, 'c', 'Quarterly review', 'Budget and hiring');
+
+    await db.runAsync('DELETE FROM events WHERE id = ?', ['a']);
+    await db.runAsync('UPDATE events SET title = ? WHERE id = ?', ['Team dinner', 'b']);
+    await insertEvent(db, 'd', 'Dentist again');
+    // VACUUM renumbered the implicit rowids the index used to be keyed on.
+    await db.execAsync('VACUUM');
+
+    expect(await search(db, 'dentist')).toEqual(['d']);
+    expect(await search(db, 'lunch')).toEqual([]);
+    expect(await search(db, 'dinner')).toEqual(['b']);
+    expect(await search(db, 'hiring')).toEqual(['c']);
+  });
+
+  it('leaves the database at the previous version when a migration fails', async () => {
+    const db = openTestDatabase();
+    const failing = [
+      ...MIGRATIONS,
+      {
+        version: LATEST + 1,
+        description: 'Fails',
+        up: async (target: SQLite.SQLiteDatabase) => {
+          await target.execAsync('CREATE TABLE half_done (id INTEGER)');
+          throw new Error('Failed');
+        },
+      },
+    ];
+    await expect(migrate(db, failing)).rejects.toThrow('Failed');
+    expect(await getSchemaVersion(db)).toBe(LATEST);
+    expect(await db.getAllAsync("SELECT name FROM sqlite_master WHERE name = 'half_done'")).toEqual([]);
+  });
+});
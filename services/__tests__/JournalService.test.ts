@@ -0,0 +1,72 @@
+import calendarService from '../CalendarService';
+import { getDatabase } from '../Database';
+import journalService from '../JournalService';
+
+const titles = () =>
+  calendarService
+    .getStoredEvents()
+    .map(event => event.title)
+    .sort();
+
+describe('JournalService', () => {
+  beforeAll(async () => {
+    await calendarService.init();
+    await journalService.init();
+  });
+
+  // Each test starts with no events and an empty journal.
+  beforeEach(async () => {
+    for (const event of calendarService.getStoredEvents()) {
+      await calendarService.removeEvent(event.id);
+    }
+    await (await getDatabase()).execAsync('DELETE FROM journal');
+  });
+
+  it('undoes the latest change first and redoes in the original order', async () => {
+    const event = calendarService.createEvent('Dentist', '2026-10-15T09:00:00', '2026-10-15T10:00:00');
+    await calendarService.updateEvent(event.id, { title: 'Dentist check-up' });
+
+    expect(await journalService.undo()).toEqual({ ok: true, message: "Undid updating 'Dentist check-up'." });
+    expect(titles()).toEqual(['Dentist']);
+    expect((await journalService.undo()).ok).toBe(true);
+    expect(titles()).toEqual([]);
+
+    // The creation was undone last, so it is redone first.
+    expect(await journalService.redo()).toEqual({ ok: true, message: "Redid creating 'Dentist'." });
+    expect(titles()).toEqual(['Dentist']);
+    expect((await journalService.redo()).ok).toBe(true);
+    expect(titles()).toEqual(['Dentist check-up']);
+    expect(await journalService.redo()).toEqual({ ok: false, message: 'There is nothing to redo.' });
+  });
+
+  it('redoes changes to different events in order', async () => {
+    calendarService.createEvent('Gym', '2026-10-15T07:00:00', '2026-10-15T08:00:00');
+    calendarService.createEvent('Lunch', '2026-10-15T12:00:00', '2026-10-15T13:00:00');
+    await journalService.undo();
+    await journalService.undo();
+
+    expect((await journalService.redo()).message).toBe("Redid creating 'Gym'.");
+    expect((await journalService.redo()).message).toBe("Redid creating 'Lunch'.");
+    expect(titles()).toEqual(['Gym', 'Lunch']);
+  });
+
+  it('forgets undone changes once a new change is made', async () => {
+    calendarService.createEvent('Gym', '2026-10-15T07:00:00', '2026-10-15T08:00:00');
+    await journalService.undo();
+    calendarService.createEvent('Swim', '2026-10-15T07:00:00', '2026-10-15T08:00:00');
+
+    expect(await journalService.redo()).toEqual({ ok: false, message: 'There is nothing to redo.' });
+    expect(titles()).toEqual(['Swim']);
+  });
+
+  it('refuses to undo over a later edit', async () => {
+    const event = calendarService.createEvent('Review', '2026-10-15T14:00:00', '2026-10-15T15:00:00');
+    await calendarService.putEvent({ ...event, title: 'Review (moved)' });
+
+    expect(await journalService.undo()).toEqual({
+      ok: false,
+      message: 'Cannot undo: the event has been changed since.',
+    });
+    await calendarService.removeEvent(event.id);
+  });
+});
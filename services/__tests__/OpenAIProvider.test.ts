@@ -0,0 +1,153 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAIProvider } from '../OpenAIProvider';
+import { CompletionRequest } from '../LLMProvider';
+import { OpenAIProviderSettings } from '../LLMSettingsService';
+
+// The default fetch needs Expo's native module; the tests use Node's.
+jest.mock('expo/fetch', () => ({ fetch: jest.fn() }));
+
+/** A request as the local server received it. */
+type Received = { method: string; url: string; headers: http.IncomingHttpHeaders; body: any };
+
+/** Answers a request; set by each test. */
+type Handler = (request: Received, response: http.ServerResponse) => void;
+
+let server: http.Server;
+let received: Received[] = [];
+let handler: Handler;
+// The server's address, once it listens.
+let baseUrl = '';
+
+const SETTINGS: Omit<OpenAIProviderSettings, 'baseUrl'> = {
+  apiKey: 'secret',
+  model: 'qwen',
+  sendGrammar: true,
+};
+
+const REQUEST: CompletionRequest = {
+  messages: [
+    { role: 'system', content: 'You are a calendar assistant.' },
+    { role: 'user', content: 'lunch tomorrow' },
+  ],
+  maxTokens: 256,
+  temperature: 0.2,
+  stop: ['<|im_end|>'],
+  grammar: 'root ::= "ok"',
+};
+
+const json =
+  (body: unknown, status = 200): Handler =>
+  (_request, response) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  };
+
+/** Streams one server-sent event per token, as chat completions do, a little apart. */
+const eventStream =
+  (tokens: string[]): Handler =>
+  async (_request, response) => {
+    response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const token of tokens) {
+      response.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: token } }] })}\n\n`);
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    response.end('data: [DONE]\n\n');
+  };
+
+/** Returns the only request the server received. */
+function sent(): Received {
+  expect(received).toHaveLength(1);
+  return received[0];
+}
+
+const provider = (settings: Partial<OpenAIProviderSettings> = {}) =>
+  new OpenAIProvider({ ...SETTINGS, baseUrl, ...settings }, fetch);
+
+describe('OpenAIProvider', () => {
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        const entry = {
+          method: request.method!,
+          url: request.url!,
+          headers: request.headers,
+          body: body ? JSON.parse(body) : undefined,
+        };
+        received.push(entry);
+        handler(entry, response);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  it('sends the request to the chat completions endpoint', async () => {
+    handler = json({ choices: [{ index: 0, message: { role: 'assistant', content: 'ok' } }] });
+    await provider().complete(REQUEST);
+
+    const { method, url, headers, body } = sent();
+    expect([method, url]).toEqual(['POST', '/v1/chat/completions']);
+    expect(headers.authorization).toBe('Bearer secret');
+    expect(body).toEqual({
+      model: 'qwen',
+      messages: REQUEST.messages,
+      max_tokens: 256,
+      temperature: 0.2,
+      stop: ['<|im_end|>'],
+      grammar: 'root ::= "ok"',
+      stream: false,
+    });
+  });
+
+  it('leaves the grammar out when the server is not sent one', async () => {
+    handler = json({ choices: [{ index: 0, message: { role: 'assistant', content: 'ok' } }] });
+    await provider({ sendGrammar: false }).complete(REQUEST);
+    expect(sent().body).not.toHaveProperty('grammar');
+  });
+
+  it('returns the text of a non-streamed reply', async () => {
+    handler = json({ choices: [{ index: 0, message: { role: 'assistant', content: 'ACTION:LIST_TASKS()' } }] });
+    await expect(provider().complete(REQUEST)).resolves.toBe('ACTION:LIST_TASKS()');
+  });
+
+  it('passes each streamed token on and returns the whole reply', async () => {
+    handler = eventStream(['ACTION:', 'LIST_TASKS', '()']);
+    const tokens: string[] = [];
+    const text = await provider().stream(REQUEST, token => tokens.push(token));
+
+    expect(sent().body.stream).toBe(true);
+    expect(tokens).toEqual(['ACTION:', 'LIST_TASKS', '()']);
+    expect(text).toBe('ACTION:LIST_TASKS()');
+  });
+
+  it('rejects when the server answers with an error status', async () => {
+    handler = json({ error: { message: 'Invalid grammar' } }, 400);
+    await expect(provider().complete(REQUEST)).rejects.toMatchObject({
+      status: 400,
+      message: expect.stringContaining('Invalid grammar'),
+    });
+    expect(received).toHaveLength(1);
+  });
+
+  it('checks the connection by listing the models once', async () => {
+    handler = json({ object: 'list', data: [] });
+    const checked = provider();
+    await checked.init();
+    await checked.init();
+
+    expect(sent().url).toBe('/v1/models');
+  });
+
+  it('estimates the prompt size from its length', async () => {
+    await expect(provider().countTokens([{ role: 'user', content: 'x'.repeat(40) }])).resolves.toBe(14);
+  });
+});
@@ -0,0 +1,126 @@
+import { parseQuickAdd } from '../QuickAdd';
+
+// Wednesday 14 October 2026, 10:00; every relative date counts from here.
+const NOW = new Date(2026, 9, 14, 10, 0);
+
+/** Reduces an action to "title|start|end", with "|true" for all-day events, or null. */
+function summarise(text: string, options: Parameters<typeof parseQuickAdd>[1] = {}): string | null {
+  const action = parseQuickAdd(text, { now: NOW, ...options });
+  if (!action || action.command !== 'CREATE_EVENT') {
+    return null;
+  }
+  const { title, startTime, endTime, allDay } = action.params;
+  return [title, startTime, endTime, allDay].filter(Boolean).join('|');
+}
+
+describe('parseQuickAdd', () => {
+  describe('relative dates', () => {
+    it.each([
+      ['review today 3-4pm', 'Review|2026-10-14T15:00:00|2026-10-14T16:00:00'],
+      ['dinner with Alex tonight at 8', 'Dinner with Alex|2026-10-14T20:00:00|2026-10-14T21:00:00'],
+      ['lunch with Sam tomorrow 12:30 for 45 min', 'Lunch with Sam|2026-10-15T12:30:00|2026-10-15T13:15:00'],
+      ['Interview the day after tomorrow 11-1pm', 'Interview|2026-10-16T11:00:00|2026-10-16T13:00:00'],
+      ['Dentist Friday 3pm', 'Dentist|2026-10-16T15:00:00|2026-10-16T16:00:00'],
+      ['dentist on friday at 3', 'Dentist|2026-10-16T15:00:00|2026-10-16T16:00:00'],
+      ['Team sync next Friday 10-11am', 'Team sync|2026-10-23T10:00:00|2026-10-23T11:00:00'],
+      ['call with Bob next monday 9:30', 'Call with Bob|2026-10-19T09:30:00|2026-10-19T10:30:00'],
+      ['review in 2 weeks at 2pm for 1.5 hours', 'Review|2026-10-28T14:00:00|2026-10-28T15:30:00'],
+      ['Sprint planning in a week at noon for an hour and a half', 'Sprint planning|2026-10-21T12:00:00|2026-10-21T13:30:00'],
+      ['Trip in a month', 'Trip|2026-11-14|2026-11-14|true'],
+    ])('%s', (text, expected) => {
+      expect(summarise(text)).toBe(expected);
+    });
+  });
+
+  describe('times', () => {
+    it.each([
+      // A bare hour is read as the next time it comes round during the day.
+      ['standup at 9', 'Standup|2026-10-15T09:00:00|2026-10-15T10:00:00'],
+      ['standup at 11', 'Standup|2026-10-14T11:00:00|2026-10-14T12:00:00'],
+      ['Call 3 clients at 4pm', 'Call 3 clients|2026-10-14T16:00:00|2026-10-14T17:00:00'],
+      ['1:1 with Jo wednesday 4.30pm for 1h30', '1:1 with Jo|2026-10-14T16:30:00|2026-10-14T18:00:00'],
+      ['Morning run tomorrow 6:30am', 'Morning run|2026-10-15T06:30:00|2026-10-15T07:30:00'],
+      ['Gym tomorrow morning', 'Gym|2026-10-15T09:00:00|2026-10-15T10:00:00'],
+      ['drinks friday evening', 'Drinks|2026-10-16T18:00:00|2026-10-16T19:00:00'],
+      ['Run 10 km in the morning', 'Run 10 km|2026-10-15T09:00:00|2026-10-15T10:00:00'],
+      ['book club tomorrow 7pm', 'Book club|2026-10-15T19:00:00|2026-10-15T20:00:00'],
+      [
+        'add a meeting with Priya on 2026-11-20 at 14:00 for 30 minutes',
+        'Meeting with Priya|2026-11-20T14:00:00|2026-11-20T14:30:00',
+      ],
+    ])('%s', (text, expected) => {
+      expect(summarise(text)).toBe(expected);
+    });
+
+    it('puts a time without a date on the selected day', () => {
+      expect(summarise('Lunch 12:30', { date: new Date(2026, 9, 20) })).toBe(
+        'Lunch|2026-10-20T12:30:00|2026-10-20T13:30:00'
+      );
+    });
+
+    it('uses the default event length', () => {
+      expect(summarise('Dentist Friday 3pm', { defaultDurationMinutes: 30 })).toBe(
+        'Dentist|2026-10-16T15:00:00|2026-10-16T15:30:00'
+      );
+    });
+  });
+
+  describe('durations', () => {
+    it.each([
+      ['Coffee Thursday 10:15 for half an hour', 'Coffee|2026-10-15T10:15:00|2026-10-15T10:45:00'],
+      ['lunch with Sam tomorrow 12:30 for 45 min', 'Lunch with Sam|2026-10-15T12:30:00|2026-10-15T13:15:00'],
+      ['review in 2 weeks at 2pm for 1.5 hours', 'Review|2026-10-28T14:00:00|2026-10-28T15:30:00'],
+      ['offsite Nov 2nd for 2 days', 'Offsite|2026-11-02|2026-11-03|true'],
+    ])('%s', (text, expected) => {
+      expect(summarise(text)).toBe(expected);
+    });
+  });
+
+  describe('ranges', () => {
+    it.each([
+      ['Workshop between 2 and 4 on thursday', 'Workshop|2026-10-15T14:00:00|2026-10-15T16:00:00'],
+      ['Flight 11pm-1am tomorrow', 'Flight|2026-10-15T23:00:00|2026-10-16T01:00:00'],
+      ['conference 3-5 December', 'Conference|2026-12-03|2026-12-05|true'],
+      ['conference December 3-5', 'Conference|2026-12-03|2026-12-05|true'],
+      ['holiday from monday to wednesday', 'Holiday|2026-10-19|2026-10-21|true'],
+      ['Picnic all day saturday', 'Picnic|2026-10-17|2026-10-17|true'],
+      ['Mum birthday 5 March', 'Mum birthday|2027-03-05|2027-03-05|true'],
+    ])('%s', (text, expected) => {
+      expect(summarise(text)).toBe(expected);
+    });
+  });
+
+  it('takes the calendar and attendees from the phrase', () => {
+    const action = parseQuickAdd('lunch with Priya and Tom Friday 1pm to Work', { now: NOW, calendars: ['Work'] });
+    expect(action?.params).toMatchObject({ title: 'Lunch with Priya and Tom', calendar: 'Work', attendees: 'Priya, Tom' });
+  });
+
+  // Anything the parser is not sure of goes to the model instead.
+  describe('phrases left to the model', () => {
+    it.each([
+      'dinner at 7',
+      'what do I have tomorrow?',
+      'move the dentist to 4pm',
+      'yoga every tuesday at 6pm',
+      'call London at 3pm UK time',
+      'remind me to call mum tomorrow 5pm',
+      'hello there',
+      'buy 2 apples',
+      'Dinner on the 5th at 7pm',
+      'lunch friday or monday at 1pm',
+      'tomorrow 3pm',
+      'something next week',
+      'Gym tomorrow for 1 hour',
+      '2-3 people lunch tomorrow 1pm',
+      'meeting from 7 to 9',
+      'what do I have tomorrow at 3pm?',
+      'can you move lunch tomorrow to 1pm',
+      'cancel my meeting Friday at 10',
+      'remind me 30 minutes before the dentist tomorrow',
+      'please delete lunch friday at 1pm',
+      'coffee tomorrow 9am what do you think',
+    ])('%s', text => {
+      expect(parseQuickAdd(text, { now: NOW })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { expandEvent } from '../Recurrence';
+import { fromWallClock, toWallClock } from '../TimeZone';
+import { Event, RecurrenceRule } from '../../types/Event';
+
+/** Creates a recurring event whose first occurrence is at the given wall-clock time in `timeZone`. */
+function recurring(timeZone: string, start: string, rule: RecurrenceRule): Event {
+  const [date, time] = start.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const startTime = fromWallClock({ year, month: month - 1, day, hour, minute, second: 0, millisecond: 0 }, timeZone);
+  return {
+    id: 'series',
+    title: 'Standup',
+    startTime,
+    endTime: new Date(startTime.getTime() + 30 * 60000),
+    recurrence: rule,
+    timeZone,
+  };
+}
+
+/** Expands `event` over a range given in UTC and lists each start as "YYYY-MM-DD HH:mm" in `timeZone`. */
+function wallClockStarts(event: Event, rangeStart: string, rangeEnd: string, timeZone: string): string[] {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return expandEvent(event, new Date(rangeStart), new Date(rangeEnd)).map(occurrence => {
+    const wall = toWallClock(occurrence.startTime, timeZone);
+    return `${wall.year}-${pad(wall.month + 1)}-${pad(wall.day)} ${pad(wall.hour)}:${pad(wall.minute)}`;
+  });
+}
+
+/** Lists the occurrence starts as UTC ISO strings. */
+function utcStarts(event: Event, rangeStart: string, rangeEnd: string): string[] {
+  return expandEvent(event, new Date(rangeStart), new Date(rangeEnd)).map(occurrence =>
+    occurrence.startTime.toISOString()
+  );
+}
+
+describe('expandEvent across daylight saving changes', () => {
+  // America/New_York: clocks go forward on 8 March 2026 and back on 1 November 2026.
+  // Europe/London: clocks go forward on 29 March 2026 and back on 25 October 2026.
+  it.each([
+    ['America/New_York', '2026-03-07T09:00', [
+      '2026-03-07T14:00:00.000Z',
+      '2026-03-08T13:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+    ]],
+    ['America/New_York', '2026-10-31T09:00', [
+      '2026-10-31T13:00:00.000Z',
+      '2026-11-01T14:00:00.000Z',
+      '2026-11-02T14:00:00.000Z',
+    ]],
+    ['Europe/London', '2026-03-28T09:00', [
+      '2026-03-28T09:00:00.000Z',
+      '2026-03-29T08:00:00.000Z',
+      '2026-03-30T08:00:00.000Z',
+    ]],
+    ['Europe/London', '2026-10-24T09:00', [
+      '2026-10-24T08:00:00.000Z',
+      '2026-10-25T09:00:00.000Z',
+      '2026-10-26T09:00:00.000Z',
+    ]],
+  ])('keeps a daily %s event starting %s at 09:00', (timeZone, start, expected) => {
+    const event = recurring(timeZone, start, { freq: 'DAILY', count: 3 });
+    expect(utcStarts(event, '2026-01-01T00:00:00Z', '2027-01-01T00:00:00Z')).toEqual(expected);
+    const times = wallClockStarts(event, '2026-01-01T00:00:00Z', '2027-01-01T00:00:00Z', timeZone).map(occurrence =>
+      occurrence.slice(11)
+    );
+    expect(times).toEqual(['09:00', '09:00', '09:00']);
+  });
+
+  it('keeps a weekly event at the same time across both changes', () => {
+    const event = recurring('America/New_York', '2026-02-25T18:30', { freq: 'WEEKLY', byDay: [{ weekday: 'WE' }] });
+    expect(wallClockStarts(event, '2026-03-01T00:00:00Z', '2026-03-19T00:00:00Z', 'America/New_York')).toEqual([
+      '2026-03-04 18:30',
+      '2026-03-11 18:30',
+      '2026-03-18 18:30',
+    ]);
+    expect(wallClockStarts(event, '2026-10-25T00:00:00Z', '2026-11-12T00:00:00Z', 'America/New_York')).toEqual([
+      '2026-10-28 18:30',
+      '2026-11-04 18:30',
+      '2026-11-11 18:30',
+    ]);
+  });
+
+  it('moves an occurrence in the skipped hour past the gap', () => {
+    const event = recurring('America/New_York', '2026-03-07T02:30', { freq: 'DAILY', count: 3 });
+    expect(wallClockStarts(event, '2026-03-01T00:00:00Z', '2026-04-01T00:00:00Z', 'America/New_York')).toEqual([
+      '2026-03-07 02:30',
+      '2026-03-08 03:30',
+      '2026-03-09 02:30',
+    ]);
+  });
+
+  it('puts an occurrence in the repeated hour at its first occurrence', () => {
+    const event = recurring('Europe/London', '2026-10-24T01:30', { freq: 'DAILY', count: 3 });
+    expect(utcStarts(event, '2026-10-01T00:00:00Z', '2026-11-01T00:00:00Z')).toEqual([
+      '2026-10-24T00:30:00.000Z',
+      '2026-10-25T00:30:00.000Z',
+      '2026-10-26T01:30:00.000Z',
+    ]);
+  });
+
+  it('follows the zone of an event created in another zone', () => {
+    // A weekly 15:00 London call seen from New York: London changes on
+    // 25 October and New York a week later, so for one week the call is
+    // an hour later there.
+    const event = recurring('Europe/London', '2026-10-22T15:00', { freq: 'WEEKLY', count: 3 });
+    expect(wallClockStarts(event, '2026-10-01T00:00:00Z', '2026-12-01T00:00:00Z', 'Europe/London')).toEqual([
+      '2026-10-22 15:00',
+      '2026-10-29 15:00',
+      '2026-11-05 15:00',
+    ]);
+    expect(wallClockStarts(event, '2026-10-01T00:00:00Z', '2026-12-01T00:00:00Z', 'America/New_York')).toEqual([
+      '2026-10-22 10:00',
+      '2026-10-29 11:00',
+      '2026-11-05 10:00',
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import calendarService from '../CalendarService';
+import reminderService, { Notifier } from '../ReminderService';
+import { occurrenceId } from '../Recurrence';
+import { ScheduledReminder } from '../Reminders';
+
+const MINUTE = 60 * 1000;
+
+/** Keeps what is scheduled, like a device would. */
+class FakeNotifier implements Notifier {
+  scheduled: ScheduledReminder[] = [];
+
+  async cancelAll() {
+    this.scheduled = [];
+  }
+
+  async schedule(reminder: ScheduledReminder) {
+    this.scheduled.push(reminder);
+  }
+}
+
+const notifier = new FakeNotifier();
+
+// Starts are whole minutes from now, so that no reminder fires while the test runs.
+const inMinutes = (minutes: number) => {
+  const time = new Date(Date.now() + minutes * MINUTE);
+  time.setSeconds(0, 0);
+  return time;
+};
+
+const create = (title: string, start: Date, reminders: number[], extras = {}) =>
+  calendarService.createEvent(title, start.toISOString(), new Date(start.getTime() + 60 * MINUTE).toISOString(), undefined, {
+    reminders,
+    ...extras,
+  });
+
+// Reschedules run after the change that queued them; this waits for them.
+const settled = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const scheduled = () => notifier.scheduled.map(reminder => [reminder.title, reminder.fireAt.getTime()]);
+
+describe('ReminderService', () => {
+  beforeAll(async () => {
+    await calendarService.init();
+    await reminderService.init(notifier);
+  });
+
+  beforeEach(async () => {
+    for (const event of calendarService.getStoredEvents()) {
+      await calendarService.removeEvent(event.id);
+    }
+    await settled();
+  });
+
+  it('schedules the reminders of a new event', async () => {
+    const start = inMinutes(120);
+    create('Dentist', start, [30, 60]);
+    await settled();
+    expect(scheduled()).toEqual([
+      ['Dentist', start.getTime() - 60 * MINUTE],
+      ['Dentist', start.getTime() - 30 * MINUTE],
+    ]);
+  });
+
+  it('schedules a reminder for each occurrence of a recurring event', async () => {
+    const start = inMinutes(120);
+    const standup = create('Standup', start, [10], { recurrence: { freq: 'DAILY', count: 3 } });
+    await settled();
+    const starts = [0, 1, 2].map(days => {
+      const day = new Date(start);
+      day.setDate(day.getDate() + days);
+      return day;
+    });
+    expect(notifier.scheduled.map(reminder => [reminder.eventId, reminder.fireAt.getTime()])).toEqual(
+      starts.map(day => [occurrenceId(standup.id, day), day.getTime() - 10 * MINUTE])
+    );
+  });
+
+  it('reschedules when an event is edited', async () => {
+    const dentist = create('Dentist', inMinutes(120), [30]);
+    await settled();
+    const later = inMinutes(300);
+    await calendarService.updateEvent(dentist.id, {
+      startTime: later,
+      endTime: new Date(later.getTime() + 60 * MINUTE),
+      reminders: [15],
+    });
+    await settled();
+    expect(scheduled()).toEqual([['Dentist', later.getTime() - 15 * MINUTE]]);
+  });
+
+  it('cancels the reminders of a deleted event', async () => {
+    const dentist = create('Dentist', inMinutes(120), [30]);
+    create('Gym', inMinutes(240), [0]);
+    await settled();
+    await calendarService.deleteEvent(dentist.id);
+    await settled();
+    expect(scheduled().map(([title]) => title)).toEqual(['Gym']);
+  });
+
+  it('looks 30 days ahead, including events starting just after that with earlier reminders', () => {
+    const now = new Date(2026, 9, 19, 8, 0);
+    const horizon = new Date(2026, 10, 18, 8, 0);
+    const at = (date: Date, minutes: number) => new Date(date.getTime() + minutes * MINUTE);
+    create('Already reminded', at(now, 30), [60]);
+    create('Inside', at(horizon, -120), [0]);
+    create('Starts after', at(horizon, 30), [60]);
+    create('Fires after', at(horizon, 90), [60]);
+    expect(reminderService.getUpcomingReminders(now).map(reminder => [reminder.title, reminder.fireAt])).toEqual([
+      ['Inside', at(horizon, -120)],
+      ['Starts after', at(horizon, -30)],
+    ]);
+  });
+});
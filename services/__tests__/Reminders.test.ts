@@ -0,0 +1,75 @@
+import { expandEvent } from '../Recurrence';
+import { describeReminder, parseReminders, upcomingReminders } from '../Reminders';
+import { Event } from '../../types/Event';
+
+const event = (id: string, start: Date, fields: Partial<Event> = {}): Event => ({
+  id,
+  title: id,
+  startTime: start,
+  endTime: new Date(start.getTime() + 60 * 60 * 1000),
+  ...fields,
+});
+
+const fireTimes = (events: Event[], from: Date, until: Date, limit = 60) =>
+  upcomingReminders(events, from, until, limit).map(reminder => [reminder.id, reminder.fireAt.toString()]);
+
+describe('upcomingReminders', () => {
+  const from = new Date(2026, 9, 19, 8, 0);
+  const until = new Date(2026, 9, 26, 8, 0);
+
+  it('fires each reminder its offset before the start', () => {
+    const dentist = event('dentist', new Date(2026, 9, 20, 10, 0), { reminders: [0, 30, 1440] });
+    expect(upcomingReminders([dentist], from, until, 60)).toEqual([
+      expect.objectContaining({ id: 'dentist@1440', fireAt: new Date(2026, 9, 19, 10, 0), body: 'Starts in 1 day' }),
+      expect.objectContaining({ id: 'dentist@30', fireAt: new Date(2026, 9, 20, 9, 30), body: 'Starts in 30 minutes' }),
+      expect.objectContaining({ id: 'dentist@0', fireAt: new Date(2026, 9, 20, 10, 0), body: 'Starting now' }),
+    ]);
+  });
+
+  it('reminds before every occurrence of a recurring event', () => {
+    const standup = event('standup', new Date(2026, 9, 19, 9, 0), {
+      reminders: [10],
+      recurrence: { freq: 'DAILY', count: 3 },
+    });
+    expect(fireTimes(expandEvent(standup, from, until), from, until).map(([, fireAt]) => fireAt)).toEqual([
+      new Date(2026, 9, 19, 8, 50).toString(),
+      new Date(2026, 9, 20, 8, 50).toString(),
+      new Date(2026, 9, 21, 8, 50).toString(),
+    ]);
+  });
+
+  it('keeps only the reminders firing in [from, until), soonest first and up to the limit', () => {
+    const events = [
+      event('past', new Date(2026, 9, 19, 8, 30), { reminders: [60] }),
+      event('at-from', new Date(2026, 9, 19, 9, 0), { reminders: [60] }),
+      event('at-until', new Date(2026, 9, 26, 9, 0), { reminders: [60] }),
+      event('later', new Date(2026, 9, 22, 12, 0), { reminders: [0] }),
+      event('sooner', new Date(2026, 9, 21, 12, 0), { reminders: [0] }),
+    ];
+    expect(fireTimes(events, from, until).map(([id]) => id)).toEqual(['at-from@60', 'sooner@0', 'later@0']);
+    expect(fireTimes(events, from, until, 2).map(([id]) => id)).toEqual(['at-from@60', 'sooner@0']);
+  });
+});
+
+describe('parseReminders', () => {
+  it('sorts offsets and drops duplicates', () => {
+    expect(parseReminders(' 1440, 10,10 ')).toEqual([10, 1440]);
+    expect(parseReminders('')).toEqual([]);
+  });
+
+  it.each(['10,soon', '-5', '1.5'])('rejects %p', text => {
+    expect(parseReminders(text)).toBeNull();
+  });
+});
+
+describe('describeReminder', () => {
+  it.each([
+    [0, 'At start'],
+    [45, '45 minutes before'],
+    [60, '1 hour before'],
+    [2880, '2 days before'],
+    [10080, '1 week before'],
+  ])('describes %p', (minutes, expected) => {
+    expect(describeReminder(minutes)).toBe(expected);
+  });
+});
@@ -0,0 +1,70 @@
+import { buildSystemPrompt, SystemPromptOptions } from '../SystemPrompt';
+
+const prompt = (...messages: string[]) => buildSystemPrompt({
+  today: '2026-10-19',
+  defaultDurationMinutes: 60,
+  calendarNames: ['Personal', 'Work'],
+  messages,
+});
+
+const sections = (text: string) => [...text.matchAll(/^Key instructions for (.+):$/gm)].map(match => match[1]);
+
+// A rough count for these models' tokenizers: about four characters a token.
+const tokens = (text: string) => Math.ceil(text.length / 4);
+
+describe('buildSystemPrompt', () => {
+  it('sends only the commands and rules for a plain request', () => {
+    const text = prompt('dentist tomorrow at 10');
+    expect(sections(text)).toEqual([]);
+    expect(text).toContain('ACTION:CREATE_EVENT(title, startTime, endTime');
+    expect(text).toContain('assume it is 60 minutes after the start time');
+    expect(text).toContain('The current date is 2026-10-19.');
+  });
+
+  it.each([
+    ['change the team meeting to 5pm', 'UPDATE_EVENT'],
+    ['push the dentist 30 minutes later', 'moving events'],
+    ['copy the workshop to Friday', 'copying events'],
+    ['cancel everything today', 'clearing days'],
+    ['gym every Tuesday at 7', 'recurring events'],
+    ['find me an hour Thursday afternoon', 'FIND_FREE_TIME'],
+    ['conference Monday to Wednesday', 'all-day events'],
+    ['remind me 10 minutes before the dentist', 'reminders'],
+    ['call at 3pm EST', 'time zones'],
+    ['standup tomorrow at 9 in Work', 'calendars'],
+    ['lunch with Sam tomorrow', 'attendees'],
+    ['dinner at the Italian place at 8', 'locations'],
+    ['I need to renew my passport by Friday', 'tasks'],
+  ])('adds the section for %p', (message, section) => {
+    expect(sections(prompt(message))).toContain(section);
+  });
+
+  it('chooses sections by the previous message too, for follow-ups', () => {
+    expect(sections(prompt('make it 4pm instead'))).not.toContain('recurring events');
+    expect(sections(prompt('make it 4pm instead', 'gym every Tuesday at 7'))).toContain('recurring events');
+  });
+
+  it('keeps the sections in a fixed order', () => {
+    expect(sections(prompt('remind me about lunch with Sam every Friday'))).toEqual([
+      'recurring events',
+      'reminders',
+      'attendees',
+    ]);
+  });
+
+  it('matches calendar names as words, not as regular expressions', () => {
+    const options: SystemPromptOptions = {
+      today: '2026-10-19',
+      defaultDurationMinutes: 60,
+      calendarNames: ['C++'],
+      messages: ['review at 2pm in C++'],
+    };
+    expect(sections(buildSystemPrompt(options))).toContain('calendars');
+    expect(buildSystemPrompt({ ...options, messages: ['review at 2pm in C'] })).not.toContain('"C++"');
+  });
+
+  it('leaves room for the history and the reply in a 2048-token context', () => {
+    expect(tokens(prompt('dentist tomorrow at 10'))).toBeLessThan(600);
+    expect(tokens(prompt('move the weekly team meeting with Sam to 4pm and remind me an hour before'))).toBeLessThan(1200);
+  });
+});
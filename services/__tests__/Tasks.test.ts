@@ -0,0 +1,57 @@
+import { compareTasks, isOverdue, parsePriority } from '../Tasks';
+import { Task } from '../../types/Task';
+
+const task = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  priority: 'medium',
+  done: false,
+  ...fields,
+});
+
+describe('parsePriority', () => {
+  it.each([
+    ['high', 'high'],
+    [' Medium ', 'medium'],
+    ['LOW', 'low'],
+  ])('reads %p', (value, expected) => {
+    expect(parsePriority(value)).toBe(expected);
+  });
+
+  it.each(['urgent', '', 'constructor', 'toString', '__proto__', 'hasOwnProperty'])('rejects %p', value => {
+    expect(parsePriority(value)).toBeNull();
+  });
+});
+
+describe('compareTasks', () => {
+  it('lists open tasks by due day, then priority, with undated and done tasks last', () => {
+    const tasks = [
+      task('done', { done: true, due: new Date(2026, 9, 1) }),
+      task('undated', { priority: 'high' }),
+      task('later', { due: new Date(2026, 9, 20), priority: 'high' }),
+      task('soon-low', { due: new Date(2026, 9, 15), priority: 'low' }),
+      task('soon-high', { due: new Date(2026, 9, 15), priority: 'high' }),
+    ];
+    expect([...tasks].sort(compareTasks).map(t => t.id)).toEqual([
+      'soon-high',
+      'soon-low',
+      'later',
+      'undated',
+      'done',
+    ]);
+  });
+});
+
+describe('isOverdue', () => {
+  const now = new Date(2026, 9, 14, 10, 0);
+
+  it('counts an open task due before today', () => {
+    expect(isOverdue(task('a', { due: new Date(2026, 9, 13) }), now)).toBe(true);
+  });
+
+  it('does not count a task due today, a done task or one without a due day', () => {
+    expect(isOverdue(task('a', { due: new Date(2026, 9, 14) }), now)).toBe(false);
+    expect(isOverdue(task('b', { due: new Date(2026, 9, 13), done: true }), now)).toBe(false);
+    expect(isOverdue(task('c'), now)).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import { convertWallClock, fromWallClock, toWallClock, zoneOffset } from '../TimeZone';
+
+const HOUR = 3600000;
+
+/** A wall-clock time on the given day, with a one-based month. */
+const wall = (year: number, month: number, day: number, hour: number, minute = 0) => ({
+  year,
+  month: month - 1,
+  day,
+  hour,
+  minute,
+  second: 0,
+  millisecond: 0,
+});
+
+describe('zoneOffset', () => {
+  it.each([
+    ['America/New_York', '2026-03-08T06:59:00Z', -5],
+    ['America/New_York', '2026-03-08T07:00:00Z', -4],
+    ['America/New_York', '2026-11-01T05:59:00Z', -4],
+    ['America/New_York', '2026-11-01T06:00:00Z', -5],
+    ['Europe/London', '2026-03-29T00:59:00Z', 0],
+    ['Europe/London', '2026-03-29T01:00:00Z', 1],
+    ['Europe/London', '2026-10-25T00:59:00Z', 1],
+    ['Europe/London', '2026-10-25T01:00:00Z', 0],
+  ])('%s at %s is UTC%i', (timeZone, instant, hours) => {
+    expect(zoneOffset(new Date(instant).getTime(), timeZone)).toBe(hours * HOUR);
+  });
+});
+
+describe('fromWallClock', () => {
+  it.each([
+    ['America/New_York', '2026-03-08 01:30', '2026-03-08T06:30:00.000Z'],
+    // 02:30 does not exist on the day clocks go forward.
+    ['America/New_York', '2026-03-08 02:30', '2026-03-08T07:30:00.000Z'],
+    ['America/New_York', '2026-03-08 03:30', '2026-03-08T07:30:00.000Z'],
+    // 01:30 happens twice on the day clocks go back; the first is taken.
+    ['America/New_York', '2026-11-01 01:30', '2026-11-01T05:30:00.000Z'],
+    // London's gap and repeated hour are both from 01:00 to 02:00.
+    ['Europe/London', '2026-03-29 01:30', '2026-03-29T01:30:00.000Z'],
+    ['Europe/London', '2026-10-25 01:30', '2026-10-25T00:30:00.000Z'],
+  ])('reads %s %s', (timeZone, time, expected) => {
+    const [year, month, day, hour, minute] = time.split(/[- :]/).map(Number);
+    expect(fromWallClock(wall(year, month, day, hour, minute), timeZone).toISOString()).toBe(expected);
+  });
+
+  it('round-trips through toWallClock outside the transitions', () => {
+    for (const timeZone of ['America/New_York', 'Europe/London', 'Asia/Tokyo']) {
+      const time = wall(2026, 7, 14, 9, 15);
+      expect(toWallClock(fromWallClock(time, timeZone), timeZone)).toEqual(time);
+    }
+  });
+});
+
+describe('convertWallClock', () => {
+  it('keeps the wall-clock time when an event moves to another zone', () => {
+    const london = fromWallClock(wall(2026, 10, 29, 15), 'Europe/London');
+    const newYork = convertWallClock(london, 'Europe/London', 'America/New_York');
+    expect(toWallClock(newYork, 'America/New_York')).toEqual(wall(2026, 10, 29, 15));
+    expect(newYork.getTime() - london.getTime()).toBe(4 * HOUR);
+  });
+});
@@ -0,0 +1,236 @@
+import { Event, TimeSlot } from './Event';
+import { Task } from './Task';
+
+/**
+ * Times are local wall-clock strings in YYYY-MM-DDTHH:mm:ss form. For
+ * all-day events they may be plain dates and name the first and last day.
+ */
+export interface CreateEventParams {
+  title: string;
+  startTime: string;
+  endTime: string;
+  /** "true" for an all-day event. */
+  allDay?: string;
+  /** IANA zone the times are given in; defaults to the device zone. */
+  timeZone?: string;
+  description?: string;
+  /** RRULE value, e.g. "FREQ=WEEKLY;BYDAY=TU". */
+  recurrence?: string;
+  /** Comma-separated minutes before the start, e.g. "10,1440". */
+  reminders?: string;
+  /** Name of the calendar to add the event to; defaults to the default calendar. */
+  calendar?: string;
+  /** Comma-separated people, each a name, an email address or "Name <email>". */
+  attendees?: string;
+  location?: string;
+  /** Minutes to set aside before the start to get to the location. */
+  travelMinutes?: string;
+}
+
+export interface ReadEventsParams {
+  /** Title query; empty lists every event. */
+  title: string;
+  /** Only events this person attends, by name or email address. */
+  attendee?: string;
+  /** Only events overlapping this window, in YYYY-MM-DDTHH:mm:ss form. */
+  rangeStart?: string;
+  rangeEnd?: string;
+}
+
+/** `title` finds the event; the other fields are the changes to make. */
+export interface UpdateEventParams {
+  title: string;
+  newTitle?: string;
+  startTime?: string;
+  endTime?: string;
+  description?: string;
+  /** Replaces the event's reminders; see CreateEventParams. */
+  reminders?: string;
+  /** People to invite or to take off the event; see CreateEventParams. */
+  addAttendees?: string;
+  removeAttendees?: string;
+  /** An empty location or "0" travel minutes removes them. */
+  location?: string;
+  travelMinutes?: string;
+}
+
+export interface DeleteEventParams {
+  title: string;
+}
+
+/**
+ * `title` finds the event; `days` and `minutes` say how far to move it,
+ * as whole numbers that are negative to move it earlier.
+ */
+export interface ShiftEventParams {
+  title: string;
+  days?: string;
+  minutes?: string;
+}
+
+/** `title` finds the event; `date` is the YYYY-MM-DD day to copy it to, at the same time. */
+export interface DuplicateEventParams {
+  title: string;
+  date: string;
+}
+
+/**
+ * Clears the YYYY-MM-DD days from `date` to `endDate`, or just `date`.
+ * With `moveTo` the events move by as many days as it takes to get from
+ * `date` to that day; otherwise they are deleted.
+ */
+export interface ClearDayParams {
+  date: string;
+  endDate?: string;
+  moveTo?: string;
+}
+
+/** Search window in YYYY-MM-DDTHH:mm:ss form; `duration` is in minutes. */
+export interface FindFreeTimeParams {
+  rangeStart: string;
+  rangeEnd: string;
+  duration?: string;
+  /** Title of the event created when the user picks a slot. */
+  title?: string;
+}
+
+/** `due` is a YYYY-MM-DD date; `priority` is "low", "medium" or "high". */
+export interface CreateTaskParams {
+  title: string;
+  due?: string;
+  priority?: string;
+}
+
+/** `title` finds the open task to mark done. */
+export interface CompleteTaskParams {
+  title: string;
+}
+
+/** With `dueBy`, only open tasks due on or before that date, including overdue ones. */
+export interface ListTasksParams {
+  dueBy?: string;
+}
+
+// Defines the structure of a parsed AI command
+export type Action = (
+  | { command: 'CREATE_EVENT'; params: CreateEventParams }
+  | { command: 'READ_EVENTS'; params: ReadEventsParams }
+  | { command: 'UPDATE_EVENT'; params: UpdateEventParams }
+  | { command: 'DELETE_EVENT'; params: DeleteEventParams }
+  | { command: 'SHIFT_EVENT'; params: ShiftEventParams }
+  | { command: 'DUPLICATE_EVENT'; params: DuplicateEventParams }
+  | { command: 'CLEAR_DAY'; params: ClearDayParams }
+  | { command: 'FIND_FREE_TIME'; params: FindFreeTimeParams }
+  | { command: 'CREATE_TASK'; params: CreateTaskParams }
+  | { command: 'COMPLETE_TASK'; params: CompleteTaskParams }
+  | { command: 'LIST_TASKS'; params: ListTasksParams }
+) & {
+  /** Set once the user has picked the event or task to act on; takes precedence over the title. */
+  targetId?: string;
+  /** Set once the user has confirmed a destructive action. */
+  confirmed?: boolean;
+};
+
+export type ActionCommand = Action['command'];
+
+/**
+ * Set on a prompt raised by one of several actions from a single reply.
+ * Answering it re-runs all of `actions` with the answer in place of
+ * `actions[step]`.
+ */
+export interface BatchPosition {
+  actions: Action[];
+  step: number;
+}
+
+/**
+ * Returned instead of acting when a title matches several events. The
+ * chat lists the candidates; picking one re-runs `action` with its
+ * targetId set.
+ */
+export interface ChoiceResult {
+  kind: 'choice';
+  prompt: string;
+  action: Action;
+  candidates: Event[];
+  batch?: BatchPosition;
+  /** Set once the user has picked a candidate or cancelled. */
+  resolved?: boolean;
+}
+
+/**
+ * Returned by COMPLETE_TASK when a title matches several open tasks.
+ * The chat lists them as it does events; picking one re-runs `action`
+ * with its targetId set.
+ */
+export interface TaskChoiceResult {
+  kind: 'taskChoice';
+  prompt: string;
+  action: Action;
+  candidates: Task[];
+  batch?: BatchPosition;
+  /** Set once the user has picked a candidate or cancelled. */
+  resolved?: boolean;
+}
+
+/**
+ * Returned before a destructive action runs. Confirming re-runs
+ * `action` with `confirmed` set.
+ */
+export interface ConfirmationResult {
+  kind: 'confirm';
+  prompt: string;
+  confirmLabel: string;
+  action: Action;
+  /** The event it acts on, when there is one. */
+  event?: Event;
+  batch?: BatchPosition;
+  /** Set once the user has confirmed or cancelled. */
+  resolved?: boolean;
+}
+
+/**
+ * Returned by FIND_FREE_TIME. The chat lists the slots, best first;
+ * picking one creates an event called `title` there.
+ */
+export interface SlotsResult {
+  kind: 'slots';
+  prompt: string;
+  title: string;
+  slots: TimeSlot[];
+  /** Set once the user has picked a slot or cancelled. */
+  resolved?: boolean;
+}
+
+/** A result the user answers by tapping one of its options. */
+export type PromptResult = ChoiceResult | TaskChoiceResult | ConfirmationResult | SlotsResult;
+
+/** Returned by LIST_TASKS: the tasks as they were when listed. */
+export interface TaskListResult {
+  kind: 'tasks';
+  prompt: string;
+  tasks: Task[];
+}
+
+/**
+ * One action of several, as run by ActionParser.executeAll. 'undone'
+ * steps ran but were rolled back because a later one failed; 'skipped'
+ * steps never ran.
+ */
+export interface BatchStep {
+  /** What the action was asked to do, e.g. "Delete 'Dentist'". */
+  action: string;
+  status: 'done' | 'failed' | 'undone' | 'skipped';
+  /** The outcome as text; absent for skipped steps. */
+  result?: string;
+}
+
+/** Returned by ActionParser.executeAll for a reply with several actions. */
+export interface BatchResult {
+  kind: 'batch';
+  prompt: string;
+  steps: BatchStep[];
+}
+
+/** Everything ActionParser.execute can hand back to the chat. */
+export type ActionResult = string | Event[] | PromptResult | TaskListResult | BatchResult;
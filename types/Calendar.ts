@@ -0,0 +1,9 @@
+/** A named, coloured group of events that can be hidden from the calendar views. */
+export interface Calendar {
+  id: string;
+  name: string;
+  /** Hex colour of the calendar's marks and event blocks, e.g. "#007AFF". */
+  color: string;
+  /** Hidden calendars' events are left out of the month grid and timelines. */
+  visible: boolean;
+}
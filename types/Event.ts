@@ -1,7 +1,97 @@
+/** Frequencies supported by a recurrence rule (RFC 5545 FREQ). */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/** Two-letter weekday codes as used by RFC 5545 BYDAY. */
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+/**
+ * A single BYDAY entry. `ordinal` selects the nth weekday within the
+ * month for MONTHLY rules (e.g. 1 for the first Monday, -1 for the last
+ * Friday) and is ignored for other frequencies.
+ */
+export interface WeekdayNum {
+  weekday: Weekday;
+  ordinal?: number;
+}
+
+/**
+ * An RFC 5545-style recurrence rule. `until` is inclusive and `count`
+ * includes the first occurrence, matching the RRULE semantics.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval?: number;
+  byDay?: WeekdayNum[];
+  count?: number;
+  until?: Date;
+}
+
+/**
+ * How far an edit or delete of a recurring event reaches: only the
+ * selected occurrence, that occurrence and every later one, or the
+ * whole series.
+ */
+export type RecurrenceEditScope = 'this' | 'following' | 'series';
+
+/** An attendee's answer to an invitation; absent when it is not known. */
+export type RsvpStatus = 'pending' | 'accepted' | 'tentative' | 'declined';
+
+/** A person taking part in an event. */
+export interface Attendee {
+  name: string;
+  email?: string;
+  status?: RsvpStatus;
+}
+
 export interface Event {
   id: string;
   title: string;
   startTime: Date;
   endTime: Date;
   description?: string;
+  /** Where the event takes place, e.g. "Office" or "12 High Street". */
+  location?: string;
+  /**
+   * Minutes set aside before the start to get to the location. The time
+   * is shown before the event and counts as busy.
+   */
+  travelMinutes?: number;
+  /**
+   * All-day events start at local midnight of their first day and end at
+   * local midnight after their last day.
+   */
+  allDay?: boolean;
+  /**
+   * IANA zone the event was scheduled in, e.g. "Europe/London". Recurring
+   * events keep their wall-clock time in this zone. Absent on all-day
+   * events and on events that follow the device zone.
+   */
+  timeZone?: string;
+  /** Minutes before the start to remind the user at, e.g. [10, 1440]; 0 is at the start. */
+  reminders?: number[];
+  /** The people taking part, in the order they were added. */
+  attendees?: Attendee[];
+  /** Id of the calendar the event belongs to; absent for the default calendar. */
+  calendarId?: string;
+  /** iCalendar UID of an imported event, used to avoid importing it twice. */
+  uid?: string;
+  /** Present on recurring events; the start/end times describe the first occurrence. */
+  recurrence?: RecurrenceRule;
+  /** Start times of occurrences removed from the series (EXDATE). */
+  exceptionDates?: Date[];
+  /** Set on expanded occurrences to the id of the recurring event they belong to. */
+  seriesId?: string;
+  /** Set on expanded occurrences to the start time the rule generated for them. */
+  originalStart?: Date;
+}
+
+/** Optional fields accepted when creating an event. */
+export type EventExtras = Partial<
+  Omit<Event, 'id' | 'title' | 'startTime' | 'endTime' | 'description' | 'seriesId' | 'originalStart'>
+>;
+
+/** A span of time, e.g. a free slot offered by FIND_FREE_TIME. */
+export interface TimeSlot {
+  start: Date;
+  end: Date;
 }
@@ -0,0 +1,14 @@
+/** How important a task is; more important tasks are listed first. */
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+/** A to-do. Unlike an event it takes up no time, only a day it is due by. */
+export interface Task {
+  id: string;
+  title: string;
+  /** Local midnight of the day the task is due; absent for tasks without a due date. */
+  due?: Date;
+  priority: TaskPriority;
+  done: boolean;
+  /** When the task was marked done. */
+  completedAt?: Date;
+}